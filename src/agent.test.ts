@@ -2,8 +2,12 @@ import { describe, it, expect } from "vitest";
 import {
   getAgentNode,
   formatEntityV2Request,
+  evaluateEntityNode,
+  getTextPromptNode,
+  getToolNode,
   updateAgentNodes,
 } from "./agent";
+import { HoneCircularReferenceError } from "./errors";
 import { AgentNode, EntityNode, GetAgentOptions } from "./types";
 
 describe("utils", () => {
@@ -213,6 +217,31 @@ describe("utils", () => {
 
       expect(() => getAgentNode("a", options)).toThrow();
     });
+
+    it("should throw HoneCircularReferenceError with the cycle path", () => {
+      const options: GetAgentOptions = {
+        model: "gpt-4",
+        provider: "openai",
+        defaultPrompt: "{{b}}",
+        params: {
+          b: {
+            defaultPrompt: "{{a}}",
+            params: {
+              a: { defaultPrompt: "loop" },
+            },
+          },
+        },
+      };
+
+      try {
+        getAgentNode("a", options);
+        expect.unreachable();
+      } catch (error) {
+        expect(error).toBeInstanceOf(HoneCircularReferenceError);
+        expect((error as HoneCircularReferenceError).path).toEqual(["a", "b", "a"]);
+        expect((error as HoneCircularReferenceError).entityType).toBe("prompt");
+      }
+    });
   });
 
   // Note: Parameter validation and evaluation is handled server-side
@@ -400,6 +429,20 @@ describe("utils", () => {
       expect(request.data?.provider).toBe("openai");
     });
 
+    it("should send a tool's argument schema as data", () => {
+      const node = getToolNode("get_weather", {
+        defaultPrompt: "Get the weather",
+        parameters: { type: "object", properties: { city: { type: "string" } } },
+      });
+
+      const request = formatEntityV2Request(node);
+
+      expect(request.data).toEqual({
+        parameters: { type: "object", properties: { city: { type: "string" } } },
+      });
+      expect(formatEntityV2Request(getToolNode("search", { defaultPrompt: "Search" })).data).toBeUndefined();
+    });
+
     it("should format nested agent nodes with param values", () => {
       const node: AgentNode = {
         id: "main",
@@ -601,4 +644,39 @@ describe("utils", () => {
       expect(request.params?.footer).toBeDefined();
     });
   });
+
+  describe("evaluateEntityNode", () => {
+    it("should substitute string params", () => {
+      const node = getTextPromptNode("greeting", {
+        defaultPrompt: "Hello, {{ name }}! You are {{role}}.",
+        params: { name: "Alice", role: "admin" },
+      });
+
+      expect(evaluateEntityNode(node)).toBe("Hello, Alice! You are admin.");
+    });
+
+    it("should substitute evaluated children recursively", () => {
+      const node = getAgentNode("main", {
+        model: "gpt-4",
+        provider: "openai",
+        defaultPrompt: "Rules: {{rules}}",
+        params: {
+          rules: {
+            defaultPrompt: "Speak {{language}}.",
+            params: { language: "French" },
+          },
+        },
+      });
+
+      expect(evaluateEntityNode(node)).toBe("Rules: Speak French.");
+    });
+
+    it("should leave unknown placeholders untouched", () => {
+      const node = getTextPromptNode("greeting", {
+        defaultPrompt: "Hello, {{name}}!",
+      });
+
+      expect(evaluateEntityNode(node)).toBe("Hello, {{name}}!");
+    });
+  });
 });
@@ -11,6 +11,9 @@ import {
   EntityType,
   ParamsValue,
 } from "./types";
+import { HoneCircularReferenceError } from "./errors";
+import { renderEntityV2Request } from "./template";
+import { toJSONSchema } from "./schema";
 
 // =============================================================================
 // Type Guards
@@ -78,7 +81,7 @@ export function isTextPromptOptions(value: ParamsValue): value is GetTextPromptO
  * @param options the GetAgentOptions containing agent details and parameters
  * @param ancestorIds Set of ancestor IDs to detect circular references
  * @returns AgentNode
- * @throws Error if a self-reference or circular reference is detected
+ * @throws HoneCircularReferenceError if a self-reference or circular reference is detected
  */
 export function getAgentNode(
   id: string,
@@ -97,7 +100,7 @@ export function getAgentNode(
  * @param options the GetToolOptions containing tool details and parameters
  * @param ancestorIds Set of ancestor IDs to detect circular references
  * @returns ToolNode
- * @throws Error if a self-reference or circular reference is detected
+ * @throws HoneCircularReferenceError if a self-reference or circular reference is detected
  */
 export function getToolNode(
   id: string,
@@ -116,7 +119,7 @@ export function getToolNode(
  * @param options the GetTextPromptOptions containing prompt details and parameters
  * @param ancestorIds Set of ancestor IDs to detect circular references
  * @returns TextPromptNode
- * @throws Error if a self-reference or circular reference is detected
+ * @throws HoneCircularReferenceError if a self-reference or circular reference is detected
  */
 export function getTextPromptNode(
   id: string,
@@ -139,15 +142,19 @@ function getEntityNode(
 ): EntityNode {
   // Check for self-reference
   if (options?.params && id in options.params) {
-    throw new Error(
-      `Self-referencing ${type} detected: ${type} "${id}" cannot reference itself as a parameter`
+    throw new HoneCircularReferenceError(
+      `Self-referencing ${type} detected: ${type} "${id}" cannot reference itself as a parameter`,
+      { entityType: type, path: [id, id] }
     );
   }
 
   // Check for circular reference
   if (ancestorIds.has(id)) {
-    const path = Array.from(ancestorIds).concat(id).join(" -> ");
-    throw new Error(`Circular ${type} reference detected: ${path}`);
+    const path = Array.from(ancestorIds).concat(id);
+    throw new HoneCircularReferenceError(
+      `Circular ${type} reference detected: ${path.join(" -> ")}`,
+      { entityType: type, path }
+    );
   }
 
   const children: EntityNode[] = [];
@@ -190,6 +197,11 @@ function getEntityNode(
     node.tools = options.tools;
   }
 
+  // Add the argument schema only for tools
+  if (type === "tool" && "parameters" in options && options.parameters) {
+    node.parameters = toJSONSchema(options.parameters);
+  }
+
   return node;
 }
 
@@ -240,12 +252,33 @@ export function formatEntityV2Request(node: EntityNode): EntityV2Request {
       };
     }
 
+    // Add data for tools (argument schema)
+    if (n.type === "tool" && n.parameters) {
+      request.data = { parameters: n.parameters };
+    }
+
     return request;
   }
 
   return formatNode(node);
 }
 
+// =============================================================================
+// Local Evaluation
+// =============================================================================
+
+/**
+ * Evaluates an EntityNode tree locally, substituting `{{variable}}` placeholders
+ * with string params and the evaluated text of nested children.
+ * Used as the offline fallback when the Hone API is unavailable.
+ * Placeholders without a matching param are left untouched.
+ *
+ * @see renderEntityV2Request for missing-variable reporting and escaping rules
+ */
+export function evaluateEntityNode(node: EntityNode): string {
+  return renderEntityV2Request(formatEntityV2Request(node)).evaluatedPrompt;
+}
+
 // =============================================================================
 // Node Updates
 // =============================================================================
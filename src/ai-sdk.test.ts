@@ -0,0 +1,193 @@
+import { describe, it, expect } from "vitest";
+import {
+  extractAISDKMessages,
+  extractAISDKMetadata,
+  extractAISDKUsage,
+  normalizeAISDKMessages,
+  resolveAISDKResult,
+  toAISDKSettings,
+} from "./ai-sdk";
+import { AgentResult } from "./types";
+
+const agent: AgentResult = {
+  systemPrompt: "You are a support bot",
+  model: "gpt-4o",
+  provider: "openai",
+  temperature: 0.2,
+  maxTokens: 500,
+  topP: null,
+  frequencyPenalty: null,
+  presencePenalty: 0.5,
+  stopSequences: [],
+  tools: [],
+  source: "api",
+  agentId: "support",
+  majorVersion: 1,
+  minorVersion: 2,
+  evaluationId: null,
+};
+
+// A two-step generation: a tool call, then the final answer
+const toolStep = {
+  text: "",
+  toolCalls: [{ toolCallId: "call_1", toolName: "get_weather", args: { city: "SF" } }],
+  toolResults: [{ toolCallId: "call_1", toolName: "get_weather", result: { temp: 72 } }],
+  finishReason: "tool-calls",
+};
+const answerStep = { text: "It's 72°F.", toolCalls: [], toolResults: [], finishReason: "stop" };
+const result = {
+  ...answerStep,
+  usage: { promptTokens: 30, completionTokens: 12, totalTokens: 42 },
+  steps: [toolStep, answerStep],
+  response: { id: "resp_1", modelId: "gpt-4o-2024-08-06" },
+};
+
+describe("Vercel AI SDK", () => {
+  describe("toAISDKSettings", () => {
+    it("should map set hyperparameters and omit unset ones", () => {
+      expect(toAISDKSettings(agent)).toEqual({
+        system: "You are a support bot",
+        temperature: 0.2,
+        maxTokens: 500,
+        presencePenalty: 0.5,
+      });
+    });
+
+    it("should include stop sequences when present", () => {
+      expect(toAISDKSettings({ ...agent, stopSequences: ["END"] }).stopSequences).toEqual(["END"]);
+    });
+  });
+
+  describe("normalizeAISDKMessages", () => {
+    it("should normalize text, tool calls and tool results", () => {
+      const messages = normalizeAISDKMessages([
+        { role: "system", content: "Be brief" },
+        { role: "user", content: "Weather in SF?" },
+        {
+          role: "assistant",
+          content: [
+            { type: "reasoning", text: "Need the weather tool" },
+            { type: "text", text: "Checking." },
+            { type: "tool-call", toolCallId: "call_1", toolName: "get_weather", args: { city: "SF" } },
+          ],
+        },
+        {
+          role: "tool",
+          content: [
+            { type: "tool-result", toolCallId: "call_1", toolName: "get_weather", result: "72°F" },
+          ],
+        },
+      ]);
+
+      expect(messages).toEqual([
+        { role: "system", content: "Be brief" },
+        { role: "user", content: "Weather in SF?" },
+        {
+          role: "assistant",
+          content: "Checking.",
+          reasoning: "Need the weather tool",
+          tool_calls: [{ id: "call_1", name: "get_weather", arguments: '{"city":"SF"}' }],
+        },
+        { role: "tool", content: "72°F", tool_call_id: "call_1" },
+      ]);
+    });
+
+    it("should mark redacted reasoning", () => {
+      const messages = normalizeAISDKMessages([
+        {
+          role: "assistant",
+          content: [
+            { type: "reasoning", text: "Thinking it over" },
+            { type: "redacted-reasoning", data: "EncryptedBlob==" },
+            { type: "text", text: "Done." },
+          ],
+        },
+      ]);
+
+      expect(messages).toEqual([
+        { role: "assistant", content: "Done.", reasoning: "Thinking it over\n[redacted]" },
+      ]);
+    });
+
+    it("should keep images and files as parts", () => {
+      const messages = normalizeAISDKMessages([
+        {
+          role: "user",
+          content: [
+            { type: "text", text: "Compare these" },
+            { type: "image", image: new URL("https://example.com/a.png") },
+            { type: "image", image: new Uint8Array([104, 105]), mimeType: "image/png" },
+            { type: "file", data: "aGk=", mimeType: "application/pdf", filename: "b.pdf" },
+          ],
+        },
+      ]);
+
+      expect(messages[0]).toEqual({
+        role: "user",
+        content: "Compare these",
+        parts: [
+          { type: "text", text: "Compare these" },
+          { type: "image", url: "https://example.com/a.png" },
+          { type: "image", mimeType: "image/png", data: "aGk=" },
+          { type: "file", mimeType: "application/pdf", filename: "b.pdf", data: "aGk=" },
+        ],
+      });
+    });
+  });
+
+  describe("extractAISDKMessages", () => {
+    it("should extract every step with its tool results", () => {
+      expect(extractAISDKMessages(result)).toEqual([
+        {
+          role: "assistant",
+          content: "",
+          tool_calls: [{ id: "call_1", name: "get_weather", arguments: '{"city":"SF"}' }],
+        },
+        { role: "tool", content: '{"temp":72}', tool_call_id: "call_1" },
+        { role: "assistant", content: "It's 72°F." },
+      ]);
+    });
+
+    it("should fall back to the top-level result without steps", () => {
+      expect(extractAISDKMessages({ text: "Hi", reasoning: "Greet" })).toEqual([
+        { role: "assistant", content: "Hi", reasoning: "Greet" },
+      ]);
+    });
+  });
+
+  describe("extractAISDKUsage / extractAISDKMetadata", () => {
+    it("should normalize usage", () => {
+      expect(extractAISDKUsage(result)).toEqual({ inputTokens: 30, outputTokens: 12, totalTokens: 42 });
+    });
+
+    it("should return undefined when the provider reported no usage", () => {
+      const usage = { promptTokens: NaN, completionTokens: NaN, totalTokens: NaN };
+      expect(extractAISDKUsage({ text: "", usage })).toBeUndefined();
+    });
+
+    it("should extract model, finish reason and response id", () => {
+      expect(extractAISDKMetadata(result)).toEqual({
+        model: "gpt-4o-2024-08-06",
+        finishReason: "stop",
+        responseId: "resp_1",
+      });
+    });
+  });
+
+  describe("resolveAISDKResult", () => {
+    it("should await the fields of a stream result", async () => {
+      const streamResult = {
+        text: Promise.resolve(result.text),
+        reasoning: Promise.resolve(undefined),
+        toolCalls: Promise.resolve(result.toolCalls),
+        toolResults: Promise.resolve(result.toolResults),
+        finishReason: Promise.resolve(result.finishReason),
+        usage: Promise.resolve(result.usage),
+        steps: Promise.resolve(result.steps),
+        response: Promise.resolve(result.response),
+      };
+
+      expect(await resolveAISDKResult(streamResult)).toEqual({ ...result, reasoning: undefined });
+    });
+  });
+});
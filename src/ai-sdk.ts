@@ -0,0 +1,241 @@
+/**
+ * Vercel AI SDK integration.
+ *
+ * Builds generateText/streamText settings from an AgentResult, and converts AI SDK
+ * messages and results (including multi-step tool calling) to normalized messages
+ * for tracking. The `ai` package isn't a dependency; its shapes are matched structurally.
+ *
+ * @example
+ * ```typescript
+ * const agent = await hone.agent("support", { model: "gpt-4o", provider: "openai", defaultPrompt });
+ * const result = await generateText({ model: openai(agent.model), ...toAISDKSettings(agent), messages });
+ *
+ * await hone.track(
+ *   "support",
+ *   { provider: "ai-sdk", messages, system: agent.systemPrompt, result },
+ *   { sessionId }
+ * );
+ * ```
+ */
+
+import { mediaPartFromData, mediaPartFromUrl, mediaTypeFromMime, partsToMessageContent } from "./content.js";
+import { REDACTED_REASONING } from "./tools.js";
+import {
+  AgentResult,
+  AISDKCallSettings,
+  AISDKContentPart,
+  AISDKDataContent,
+  AISDKMessage,
+  AISDKResult,
+  AISDKStreamResult,
+  ContentPart,
+  MediaPart,
+  Message,
+  ResponseMetadata,
+  TokenUsage,
+  ToolCall,
+} from "./types.js";
+
+/**
+ * Builds the generateText/streamText settings for an agent.
+ * Spread the result into the call alongside your model and messages.
+ *
+ * @param agent - The result of hone.agent()
+ */
+export function toAISDKSettings(agent: AgentResult): AISDKCallSettings {
+  const settings: AISDKCallSettings = { system: agent.systemPrompt };
+  if (agent.temperature !== null) settings.temperature = agent.temperature;
+  if (agent.maxTokens !== null) settings.maxTokens = agent.maxTokens;
+  if (agent.topP !== null) settings.topP = agent.topP;
+  if (agent.frequencyPenalty !== null) settings.frequencyPenalty = agent.frequencyPenalty;
+  if (agent.presencePenalty !== null) settings.presencePenalty = agent.presencePenalty;
+  if (agent.stopSequences.length > 0) settings.stopSequences = agent.stopSequences;
+  return settings;
+}
+
+/**
+ * Normalizes AI SDK messages (CoreMessage[]) to Message[].
+ * Tool messages are split into one message per tool result.
+ *
+ * @param messages - Array of AI SDK messages
+ * @returns Array of normalized Message objects
+ */
+export function normalizeAISDKMessages(messages: AISDKMessage[]): Message[] {
+  const result: Message[] = [];
+
+  for (const msg of messages) {
+    if (typeof msg.content === "string") {
+      result.push({ role: msg.role, content: msg.content });
+      continue;
+    }
+
+    if (msg.role === "tool") {
+      for (const part of msg.content) {
+        if (part.type === "tool-result") {
+          result.push({
+            role: "tool",
+            content: stringifyToolResult(part.result),
+            tool_call_id: part.toolCallId,
+          });
+        }
+      }
+      continue;
+    }
+
+    const parts: ContentPart[] = [];
+    const toolCalls: ToolCall[] = [];
+    const reasoning: string[] = [];
+
+    for (const part of msg.content) {
+      if (part.type === "tool-call") {
+        toolCalls.push({
+          id: part.toolCallId,
+          name: part.toolName,
+          arguments: JSON.stringify(part.args ?? {}),
+        });
+      } else if (part.type === "reasoning") {
+        reasoning.push(part.text);
+      } else if (part.type === "redacted-reasoning") {
+        reasoning.push(REDACTED_REASONING);
+      } else {
+        const contentPart = aisdkContentPart(part);
+        if (contentPart) parts.push(contentPart);
+      }
+    }
+
+    const message: Message = { role: msg.role, ...partsToMessageContent(parts) };
+    if (reasoning.length > 0) message.reasoning = reasoning.join("\n");
+    if (toolCalls.length > 0) message.tool_calls = toolCalls;
+    result.push(message);
+  }
+
+  return result;
+}
+
+/**
+ * Extracts the generated messages from an AI SDK result.
+ * Each step becomes an assistant message followed by its tool results,
+ * so multi-step tool calling is tracked in full.
+ *
+ * @param result - A generateText result, or a resolved streamText result
+ * @returns Array of Message objects ready to be tracked
+ */
+export function extractAISDKMessages(result: AISDKResult): Message[] {
+  const messages: Message[] = [];
+
+  for (const step of result.steps?.length ? result.steps : [result]) {
+    const toolCalls: ToolCall[] = (step.toolCalls ?? []).map((tc) => ({
+      id: tc.toolCallId,
+      name: tc.toolName,
+      arguments: JSON.stringify(tc.args ?? {}),
+    }));
+
+    if (step.text || step.reasoning || toolCalls.length > 0) {
+      const message: Message = { role: "assistant", content: step.text };
+      if (step.reasoning) message.reasoning = step.reasoning;
+      if (toolCalls.length > 0) message.tool_calls = toolCalls;
+      messages.push(message);
+    }
+
+    for (const tr of step.toolResults ?? []) {
+      messages.push({
+        role: "tool",
+        content: stringifyToolResult(tr.result),
+        tool_call_id: tr.toolCallId,
+      });
+    }
+  }
+
+  return messages;
+}
+
+/**
+ * Extracts token usage from an AI SDK result.
+ *
+ * @param result - A generateText result, or a resolved streamText result
+ * @returns Normalized usage, or undefined if the provider didn't report it
+ */
+export function extractAISDKUsage(result: AISDKResult): TokenUsage | undefined {
+  const usage = result.usage;
+  if (!usage || !Number.isFinite(usage.promptTokens) || !Number.isFinite(usage.completionTokens)) {
+    return undefined;
+  }
+
+  return {
+    inputTokens: usage.promptTokens,
+    outputTokens: usage.completionTokens,
+    totalTokens: Number.isFinite(usage.totalTokens)
+      ? usage.totalTokens
+      : usage.promptTokens + usage.completionTokens,
+  };
+}
+
+/**
+ * Extracts the model, finish reason and response id from an AI SDK result.
+ */
+export function extractAISDKMetadata(result: AISDKResult): ResponseMetadata {
+  const metadata: ResponseMetadata = {};
+  if (result.response?.modelId) metadata.model = result.response.modelId;
+  if (result.finishReason) metadata.finishReason = result.finishReason;
+  if (result.response?.id) metadata.responseId = result.response.id;
+  return metadata;
+}
+
+/**
+ * Waits for the fields of a streamText result. Also accepts a generateText result.
+ * The stream must be consumed, otherwise the returned promise doesn't settle.
+ */
+export async function resolveAISDKResult(
+  result: AISDKResult | AISDKStreamResult
+): Promise<AISDKResult> {
+  const [text, reasoning, toolCalls, toolResults, finishReason, usage, steps, response] =
+    await Promise.all([
+      result.text,
+      result.reasoning,
+      result.toolCalls,
+      result.toolResults,
+      result.finishReason,
+      result.usage,
+      result.steps,
+      result.response,
+    ]);
+
+  return { text, reasoning, toolCalls, toolResults, finishReason, usage, steps, response };
+}
+
+function stringifyToolResult(result: unknown): string {
+  return typeof result === "string" ? result : JSON.stringify(result);
+}
+
+function aisdkContentPart(part: AISDKContentPart): ContentPart | undefined {
+  switch (part.type) {
+    case "text":
+      return { type: "text", text: part.text };
+    case "image":
+      return aisdkMediaPart("image", part.image, part.mimeType ? { mimeType: part.mimeType } : {});
+    case "file": {
+      const extra: Omit<MediaPart, "type" | "url" | "data"> = { mimeType: part.mimeType };
+      if (part.filename) extra.filename = part.filename;
+      return aisdkMediaPart(mediaTypeFromMime(part.mimeType), part.data, extra);
+    }
+    default:
+      return undefined;
+  }
+}
+
+function aisdkMediaPart(
+  type: MediaPart["type"],
+  content: AISDKDataContent,
+  extra: Omit<MediaPart, "type" | "url" | "data">
+): MediaPart {
+  if (content instanceof URL) {
+    return mediaPartFromUrl(type, content.href, extra);
+  }
+  if (typeof content !== "string") {
+    return mediaPartFromData(type, Buffer.from(new Uint8Array(content)).toString("base64"), extra);
+  }
+  // Strings with a URL scheme are URLs, otherwise base64 data
+  return /^(https?|data):/.test(content)
+    ? mediaPartFromUrl(type, content, extra)
+    : mediaPartFromData(type, content, extra);
+}
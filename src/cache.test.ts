@@ -0,0 +1,109 @@
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_CACHE_CONFIG,
+  EvaluationCache,
+  hashEntityV2Request,
+  resolveCacheConfig,
+  stableStringify,
+} from "./cache";
+
+describe("cache", () => {
+  describe("resolveCacheConfig", () => {
+    it("should return null when caching is not configured", () => {
+      expect(resolveCacheConfig(undefined)).toBeNull();
+      expect(resolveCacheConfig(false)).toBeNull();
+    });
+
+    it("should return defaults when cache is true", () => {
+      expect(resolveCacheConfig(true)).toEqual(DEFAULT_CACHE_CONFIG);
+    });
+
+    it("should merge partial config with defaults", () => {
+      expect(resolveCacheConfig({ ttl: 5000 })).toEqual({ ...DEFAULT_CACHE_CONFIG, ttl: 5000 });
+    });
+  });
+
+  describe("stableStringify / hashEntityV2Request", () => {
+    it("should ignore object key order", () => {
+      expect(stableStringify({ b: 1, a: { d: 2, c: 3 } })).toBe('{"a":{"c":3,"d":2},"b":1}');
+    });
+
+    it("should preserve array order", () => {
+      expect(stableStringify({ a: [2, 1] })).toBe('{"a":[2,1]}');
+    });
+
+    it("should hash structurally equal requests identically", () => {
+      const a = hashEntityV2Request({ id: "x", type: "agent", prompt: "p", params: { a: "1", b: "2" } });
+      const b = hashEntityV2Request({ params: { b: "2", a: "1" }, prompt: "p", type: "agent", id: "x" });
+      const c = hashEntityV2Request({ id: "x", type: "agent", prompt: "p", params: { a: "1", b: "3" } });
+
+      expect(a).toBe(b);
+      expect(a).not.toBe(c);
+    });
+  });
+
+  describe("EvaluationCache", () => {
+    const createCache = (config: Partial<typeof DEFAULT_CACHE_CONFIG> = {}) => {
+      let now = 0;
+      const cache = new EvaluationCache<string>({ ...DEFAULT_CACHE_CONFIG, ...config }, () => now);
+      return { cache, advance: (ms: number) => (now += ms) };
+    };
+
+    it("should return fresh entries", () => {
+      const { cache } = createCache({ ttl: 100 });
+      cache.set("a", "value");
+
+      expect(cache.get("a")).toEqual({ value: "value", stale: false });
+    });
+
+    it("should expire entries after the TTL", () => {
+      const { cache, advance } = createCache({ ttl: 100 });
+      cache.set("a", "value");
+      advance(100);
+
+      expect(cache.get("a")).toBeUndefined();
+      expect(cache.size).toBe(0);
+    });
+
+    it("should serve stale entries within the stale-while-revalidate window", () => {
+      const { cache, advance } = createCache({ ttl: 100, staleWhileRevalidate: 50 });
+      cache.set("a", "value");
+
+      advance(120);
+      expect(cache.get("a")).toEqual({ value: "value", stale: true });
+
+      advance(30);
+      expect(cache.get("a")).toBeUndefined();
+    });
+
+    it("should evict the least recently used entry", () => {
+      const { cache } = createCache({ maxEntries: 2 });
+      cache.set("a", "1");
+      cache.set("b", "2");
+      cache.get("a");
+      cache.set("c", "3");
+
+      expect(cache.get("a")?.value).toBe("1");
+      expect(cache.get("b")).toBeUndefined();
+      expect(cache.get("c")?.value).toBe("3");
+    });
+
+    it("should reset the TTL when an entry is overwritten", () => {
+      const { cache, advance } = createCache({ ttl: 100 });
+      cache.set("a", "1");
+      advance(80);
+      cache.set("a", "2");
+      advance(80);
+
+      expect(cache.get("a")).toEqual({ value: "2", stale: false });
+    });
+
+    it("should clear all entries", () => {
+      const { cache } = createCache();
+      cache.set("a", "1");
+      cache.clear();
+
+      expect(cache.size).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * In-memory cache for evaluated agents, tools and prompts.
+ *
+ * Entries are keyed on a stable hash of the EntityV2Request, expire after a
+ * TTL, and are evicted least-recently-used once maxEntries is reached.
+ */
+
+import { createHash } from "node:crypto";
+import { CacheConfig, EntityV2Request } from "./types.js";
+
+export type ResolvedCacheConfig = Required<CacheConfig>;
+
+export const DEFAULT_CACHE_CONFIG: ResolvedCacheConfig = {
+  ttl: 60000,
+  maxEntries: 1000,
+  staleWhileRevalidate: 0,
+};
+
+type CacheEntry<T> = {
+  value: T;
+  /** Time after which the entry is stale, in ms since epoch */
+  freshUntil: number;
+  /** Time after which the entry can no longer be served, in ms since epoch */
+  expiresAt: number;
+};
+
+/**
+ * Resolves the cache option from HoneConfig.
+ *
+ * @returns The resolved config, or null if caching is disabled
+ */
+export function resolveCacheConfig(
+  config: CacheConfig | boolean | undefined
+): ResolvedCacheConfig | null {
+  if (!config) {
+    return null;
+  }
+  if (config === true) {
+    return { ...DEFAULT_CACHE_CONFIG };
+  }
+  return {
+    ttl: config.ttl ?? DEFAULT_CACHE_CONFIG.ttl,
+    maxEntries: config.maxEntries ?? DEFAULT_CACHE_CONFIG.maxEntries,
+    staleWhileRevalidate: config.staleWhileRevalidate ?? DEFAULT_CACHE_CONFIG.staleWhileRevalidate,
+  };
+}
+
+/**
+ * Serializes a value to JSON with object keys sorted, so that structurally
+ * equal values always produce the same string.
+ */
+export function stableStringify(value: unknown): string {
+  return JSON.stringify(value, (_key, v: unknown) => {
+    if (v && typeof v === "object" && !Array.isArray(v)) {
+      return Object.fromEntries(
+        Object.entries(v as Record<string, unknown>).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      );
+    }
+    return v;
+  });
+}
+
+/**
+ * Computes a stable cache key for an EntityV2Request.
+ */
+export function hashEntityV2Request(request: EntityV2Request): string {
+  return createHash("sha256").update(stableStringify(request)).digest("hex");
+}
+
+/**
+ * A TTL cache with LRU eviction and a stale-while-revalidate window.
+ */
+export class EvaluationCache<T> {
+  private entries = new Map<string, CacheEntry<T>>();
+
+  constructor(
+    private config: ResolvedCacheConfig,
+    private now: () => number = Date.now
+  ) {}
+
+  /**
+   * Looks up an entry and marks it as recently used.
+   *
+   * @returns The cached value and whether it is stale, or undefined if missing or expired
+   */
+  get(key: string): { value: T; stale: boolean } | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+
+    const now = this.now();
+    if (now >= entry.expiresAt) {
+      this.entries.delete(key);
+      return undefined;
+    }
+
+    // Re-insert to move the entry to the most recently used position
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return { value: entry.value, stale: now >= entry.freshUntil };
+  }
+
+  /**
+   * Stores a value, evicting the least recently used entries if the cache is full.
+   */
+  set(key: string, value: T): void {
+    const now = this.now();
+    this.entries.delete(key);
+    this.entries.set(key, {
+      value,
+      freshUntil: now + this.config.ttl,
+      expiresAt: now + this.config.ttl + this.config.staleWhileRevalidate,
+    });
+
+    while (this.entries.size > this.config.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+}
@@ -1,6 +1,19 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { promises as fs } from "node:fs";
+import os from "node:os";
+import path from "node:path";
 import { Hone, createHoneClient } from "./client";
 import { HoneConfig, Message, EntityV2Response } from "./types";
+import {
+  HoneAPIError,
+  HoneAuthenticationError,
+  HoneError,
+  HoneNetworkError,
+  HoneRateLimitError,
+  HoneServerError,
+  HoneTimeoutError,
+  HoneValidationError,
+} from "./errors";
 
 // Mock fetch globally
 const mockFetch = vi.fn();
@@ -127,11 +140,12 @@ describe("Hone Client", () => {
       );
     });
 
-    it("should throw error when API call fails (no fallback)", async () => {
+    it("should throw error when API call fails and fallback is disabled", async () => {
+      const noFallbackClient = new Hone({ apiKey: mockApiKey, fallback: false });
       mockFetch.mockRejectedValueOnce(new Error("Network error"));
 
       await expect(
-        client.agent("greeting", {
+        noFallbackClient.agent("greeting", {
           model: "gpt-3.5-turbo",
           provider: "openai",
           defaultPrompt: "Hi, {{userName}}!",
@@ -218,7 +232,8 @@ describe("Hone Client", () => {
       expect(result.model).toBe("claude-3");
     });
 
-    it("should throw error when API returns error status (no fallback)", async () => {
+    it("should throw error when API returns error status and fallback is disabled", async () => {
+      const noFallbackClient = new Hone({ apiKey: mockApiKey, fallback: false });
       mockFetch.mockResolvedValueOnce({
         ok: false,
         status: 404,
@@ -227,7 +242,7 @@ describe("Hone Client", () => {
       });
 
       await expect(
-        client.agent("missing", {
+        noFallbackClient.agent("missing", {
           model: "gpt-4",
           provider: "openai",
           defaultPrompt: "Fallback prompt",
@@ -543,11 +558,12 @@ describe("Hone Client", () => {
       expect(result.stopSequences).toEqual([]);
     });
 
-    it("should throw error when API fails (no fallback)", async () => {
+    it("should throw error when API fails with hyperparameters and fallback is disabled", async () => {
+      const noFallbackClient = new Hone({ apiKey: mockApiKey, fallback: false });
       mockFetch.mockRejectedValueOnce(new Error("Network error"));
 
       await expect(
-        client.agent("test", {
+        noFallbackClient.agent("test", {
           model: "gpt-4",
           provider: "openai",
           defaultPrompt: "Hello {{name}}",
@@ -563,6 +579,380 @@ describe("Hone Client", () => {
     });
   });
 
+  describe("fallback", () => {
+    it("should render defaultPrompt with params when the API call fails", async () => {
+      mockFetch.mockRejectedValueOnce(new Error("Network error"));
+
+      const result = await client.agent("greeting", {
+        model: "gpt-4",
+        provider: "openai",
+        defaultPrompt: "Hello {{name}}",
+        temperature: 0.7,
+        maxTokens: 1000,
+        topP: 0.9,
+        frequencyPenalty: 0.1,
+        presencePenalty: 0.2,
+        stopSequences: ["END"],
+        tools: ["search"],
+        params: { name: "World" },
+      });
+
+      expect(result.systemPrompt).toBe("Hello World");
+      expect(result.source).toBe("fallback");
+      expect(result.model).toBe("gpt-4");
+      expect(result.provider).toBe("openai");
+      expect(result.temperature).toBe(0.7);
+      expect(result.maxTokens).toBe(1000);
+      expect(result.topP).toBe(0.9);
+      expect(result.frequencyPenalty).toBe(0.1);
+      expect(result.presencePenalty).toBe(0.2);
+      expect(result.stopSequences).toEqual(["END"]);
+      expect(result.tools).toEqual(["search"]);
+    });
+
+    it("should fall back when the API returns an error status", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 503,
+        statusText: "Service Unavailable",
+        json: async () => ({}),
+      });
+
+      const result = await client.agent("greeting", {
+        model: "gpt-4",
+        provider: "openai",
+        defaultPrompt: "Static prompt",
+      });
+
+      expect(result.systemPrompt).toBe("Static prompt");
+      expect(result.temperature).toBeNull();
+      expect(result.stopSequences).toEqual([]);
+      expect(result.source).toBe("fallback");
+    });
+
+    it.each([
+      [401, HoneAuthenticationError],
+      [422, HoneValidationError],
+    ])("should throw instead of falling back for a %i", async (status, ErrorClass) => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status,
+        statusText: "Error",
+        json: async () => ({}),
+      });
+      const onFallback = vi.fn();
+      const fallbackClient = new Hone({ apiKey: mockApiKey, onFallback });
+
+      await expect(
+        fallbackClient.agent("greeting", { model: "gpt-4", provider: "openai", defaultPrompt: "Static prompt" })
+      ).rejects.toBeInstanceOf(ErrorClass);
+      expect(onFallback).not.toHaveBeenCalled();
+    });
+
+    it("should fall back when a successful response body can't be read", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: async () => {
+          throw new SyntaxError("Unexpected token < in JSON at position 0");
+        },
+      });
+
+      const result = await client.agent("greeting", {
+        model: "gpt-4",
+        provider: "openai",
+        defaultPrompt: "Static prompt",
+      });
+
+      expect(result.systemPrompt).toBe("Static prompt");
+      expect(result.source).toBe("fallback");
+    });
+
+    it("should render nested child prompts in the fallback", async () => {
+      mockFetch.mockRejectedValueOnce(new Error("Network error"));
+
+      const result = await client.agent("main", {
+        model: "gpt-4",
+        provider: "openai",
+        defaultPrompt: "Intro: {{intro}}\nRules: {{rules}}",
+        params: {
+          intro: {
+            defaultPrompt: "Hi, {{userName}}!",
+            params: { userName: "Charlie" },
+          },
+          rules: {
+            defaultPrompt: "Be {{tone}}.",
+            params: {
+              tone: {
+                defaultPrompt: "kind",
+              },
+            },
+          },
+        },
+      });
+
+      expect(result.systemPrompt).toBe("Intro: Hi, Charlie!\nRules: Be kind.");
+    });
+
+    it("should include extra data in the fallback result", async () => {
+      mockFetch.mockRejectedValueOnce(new Error("Network error"));
+
+      const result = await client.agent<{ customField: string }>("test", {
+        model: "gpt-4",
+        provider: "openai",
+        defaultPrompt: "Hello",
+        extra: { customField: "value" },
+      });
+
+      expect(result.customField).toBe("value");
+    });
+
+    it("should fall back for tools", async () => {
+      mockFetch.mockRejectedValueOnce(new Error("Network error"));
+
+      const result = await client.tool("search", {
+        defaultPrompt: "Search the web for: {{query}}",
+        params: { query: "weather" },
+      });
+
+      expect(result).toEqual({
+        prompt: "Search the web for: weather",
+        source: "fallback",
+        toolId: "search",
+        parameters: null,
+      });
+    });
+
+    it("should fall back for text prompts", async () => {
+      mockFetch.mockRejectedValueOnce(new Error("Network error"));
+
+      const text = await client.prompt("tone-guidelines", {
+        defaultPrompt: "Always be {{tone}}.",
+        params: { tone: "friendly" },
+      });
+
+      expect(text).toBe("Always be friendly.");
+    });
+
+    it("should call onFallback with the error and entity context", async () => {
+      const onFallback = vi.fn();
+      const fallbackClient = new Hone({ apiKey: mockApiKey, onFallback });
+      const error = new Error("Network error");
+      mockFetch.mockRejectedValueOnce(error);
+
+      await fallbackClient.prompt("tone", { defaultPrompt: "Be nice." });
+
+      expect(onFallback).toHaveBeenCalledWith(error, { id: "tone", type: "prompt" });
+    });
+
+    it("should mark API results with source api", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          evaluatedPrompt: "Search for: cats",
+          template: "Search for: {{query}}",
+          type: "tool",
+          data: {},
+        }),
+      });
+
+      const result = await client.tool("search", {
+        defaultPrompt: "Search for: {{query}}",
+        params: { query: "cats" },
+      });
+
+      expect(result.source).toBe("api");
+    });
+
+    it("should return the tool's parameter schema from the API over the default", async () => {
+      const parameters = { type: "object", properties: { city: { type: "string", description: "City" } } };
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          evaluatedPrompt: "Get the weather",
+          template: "Get the weather",
+          type: "tool",
+          data: { parameters },
+        }),
+      });
+
+      const result = await client.tool("get_weather", {
+        defaultPrompt: "Weather",
+        parameters: { type: "object", properties: { city: { type: "string" } } },
+      });
+
+      const body = JSON.parse(mockFetch.mock.calls[0][1].body);
+      expect(body.data.parameters).toEqual({ type: "object", properties: { city: { type: "string" } } });
+      expect(result).toMatchObject({ toolId: "get_weather", parameters });
+    });
+
+    it("should still throw for circular references without calling the API", async () => {
+      await expect(
+        client.prompt("a", {
+          defaultPrompt: "{{b}}",
+          params: {
+            b: {
+              defaultPrompt: "{{a}}",
+              params: { a: { defaultPrompt: "loop" } },
+            },
+          },
+        })
+      ).rejects.toThrow("Circular prompt reference detected");
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("cache", () => {
+    const evaluateResponse = (evaluatedPrompt: string) => ({
+      ok: true,
+      json: async () => ({ evaluatedPrompt, template: evaluatedPrompt, type: "prompt", data: {} }),
+    });
+
+    it("should not cache by default", async () => {
+      mockFetch.mockResolvedValueOnce(evaluateResponse("A")).mockResolvedValueOnce(evaluateResponse("B"));
+
+      expect(await client.prompt("p", { defaultPrompt: "x" })).toBe("A");
+      expect(await client.prompt("p", { defaultPrompt: "x" })).toBe("B");
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it("should serve identical requests from the cache", async () => {
+      const cachedClient = new Hone({ apiKey: mockApiKey, cache: true });
+      mockFetch.mockResolvedValueOnce(evaluateResponse("A"));
+
+      expect(await cachedClient.prompt("p", { defaultPrompt: "x" })).toBe("A");
+      expect(await cachedClient.prompt("p", { defaultPrompt: "x" })).toBe("A");
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("should key the cache on params and defaultPrompt", async () => {
+      const cachedClient = new Hone({ apiKey: mockApiKey, cache: true });
+      mockFetch
+        .mockResolvedValueOnce(evaluateResponse("A"))
+        .mockResolvedValueOnce(evaluateResponse("B"))
+        .mockResolvedValueOnce(evaluateResponse("C"));
+
+      await cachedClient.prompt("p", { defaultPrompt: "{{v}}", params: { v: "1" } });
+      await cachedClient.prompt("p", { defaultPrompt: "{{v}}", params: { v: "2" } });
+      await cachedClient.prompt("p", { defaultPrompt: "{{v}} ", params: { v: "1" } });
+
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+    });
+
+    it("should share a single request between concurrent identical calls", async () => {
+      const cachedClient = new Hone({ apiKey: mockApiKey, cache: true });
+      mockFetch.mockResolvedValueOnce(evaluateResponse("A"));
+
+      const results = await Promise.all([
+        cachedClient.prompt("p", { defaultPrompt: "x" }),
+        cachedClient.prompt("p", { defaultPrompt: "x" }),
+      ]);
+
+      expect(results).toEqual(["A", "A"]);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("should not share mutable results between cached calls", async () => {
+      const cachedClient = new Hone({ apiKey: mockApiKey, cache: true });
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          evaluatedPrompt: "A",
+          template: "A",
+          type: "agent",
+          data: { model: "gpt-4o", provider: "openai", tools: ["search"], stopSequences: ["END"] },
+        }),
+      });
+      const options = { model: "gpt-4o", provider: "openai", defaultPrompt: "x" };
+
+      const first = await cachedClient.agent("a", options);
+      first.tools.push("injected");
+      first.stopSequences.push("injected");
+      const second = await cachedClient.agent("a", options);
+
+      expect(second.tools).toEqual(["search"]);
+      expect(second.stopSequences).toEqual(["END"]);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("should refetch after the TTL expires", async () => {
+      vi.useFakeTimers();
+      try {
+        const cachedClient = new Hone({ apiKey: mockApiKey, cache: { ttl: 1000 } });
+        mockFetch.mockResolvedValueOnce(evaluateResponse("A")).mockResolvedValueOnce(evaluateResponse("B"));
+
+        expect(await cachedClient.prompt("p", { defaultPrompt: "x" })).toBe("A");
+        vi.advanceTimersByTime(1000);
+        expect(await cachedClient.prompt("p", { defaultPrompt: "x" })).toBe("B");
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it("should serve stale results while revalidating in the background", async () => {
+      vi.useFakeTimers();
+      try {
+        const cachedClient = new Hone({
+          apiKey: mockApiKey,
+          cache: { ttl: 1000, staleWhileRevalidate: 5000 },
+        });
+        mockFetch.mockResolvedValueOnce(evaluateResponse("A")).mockResolvedValueOnce(evaluateResponse("B"));
+
+        expect(await cachedClient.prompt("p", { defaultPrompt: "x" })).toBe("A");
+        vi.advanceTimersByTime(1500);
+
+        // Stale value served immediately, refresh runs in the background
+        expect(await cachedClient.prompt("p", { defaultPrompt: "x" })).toBe("A");
+        expect(mockFetch).toHaveBeenCalledTimes(2);
+
+        await vi.runAllTimersAsync();
+        expect(await cachedClient.prompt("p", { defaultPrompt: "x" })).toBe("B");
+        expect(mockFetch).toHaveBeenCalledTimes(2);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it("should keep serving stale results when the background refresh fails", async () => {
+      vi.useFakeTimers();
+      try {
+        const cachedClient = new Hone({
+          apiKey: mockApiKey,
+          cache: { ttl: 1000, staleWhileRevalidate: 5000 },
+        });
+        mockFetch.mockResolvedValueOnce(evaluateResponse("A")).mockRejectedValueOnce(new Error("down"));
+
+        await cachedClient.prompt("p", { defaultPrompt: "x" });
+        vi.advanceTimersByTime(1500);
+
+        expect(await cachedClient.prompt("p", { defaultPrompt: "x" })).toBe("A");
+        await vi.runAllTimersAsync();
+        mockFetch.mockResolvedValueOnce(evaluateResponse("C"));
+        expect(await cachedClient.prompt("p", { defaultPrompt: "x" })).toBe("A");
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it("should not cache fallback results", async () => {
+      const cachedClient = new Hone({ apiKey: mockApiKey, cache: true });
+      mockFetch.mockRejectedValueOnce(new Error("down")).mockResolvedValueOnce(evaluateResponse("A"));
+
+      expect(await cachedClient.prompt("p", { defaultPrompt: "x" })).toBe("x");
+      expect(await cachedClient.prompt("p", { defaultPrompt: "x" })).toBe("A");
+    });
+
+    it("should clear the cache", async () => {
+      const cachedClient = new Hone({ apiKey: mockApiKey, cache: true });
+      mockFetch.mockResolvedValueOnce(evaluateResponse("A")).mockResolvedValueOnce(evaluateResponse("B"));
+
+      await cachedClient.prompt("p", { defaultPrompt: "x" });
+      cachedClient.clearCache();
+
+      expect(await cachedClient.prompt("p", { defaultPrompt: "x" })).toBe("B");
+    });
+  });
+
   describe("track", () => {
     it("should track conversation successfully", async () => {
       mockFetch.mockResolvedValueOnce({
@@ -662,46 +1052,1247 @@ describe("Hone Client", () => {
     });
   });
 
-  describe("error handling", () => {
-    it("should throw error with message from API response", async () => {
-      mockFetch.mockResolvedValueOnce({
-        ok: false,
-        status: 401,
-        statusText: "Unauthorized",
-        json: async () => ({ message: "Invalid API key" }),
+  describe("run metadata", () => {
+    beforeEach(() => {
+      mockFetch.mockResolvedValueOnce({ ok: true, json: async () => ({}) });
+    });
+
+    const sentBody = () => JSON.parse(mockFetch.mock.calls[0][1].body);
+
+    it("should record model, finish reason and response id from the provider response", async () => {
+      await client.track(
+        "convo",
+        {
+          provider: "anthropic",
+          messages: [{ role: "user", content: "Hi" }],
+          response: {
+            id: "msg_123",
+            model: "claude-sonnet-4-20250514",
+            role: "assistant",
+            stop_reason: "max_tokens",
+            content: [{ type: "text", text: "Hello" }],
+          } as any,
+        },
+        { sessionId: "s1" },
+      );
+
+      expect(sentBody()).toMatchObject({
+        model: "claude-sonnet-4-20250514",
+        finishReason: "max_tokens",
+        responseId: "msg_123",
       });
+    });
 
-      await expect(
-        client.track("test", [{ role: "user", content: "Hi" }], { sessionId: "session-123" }),
-      ).rejects.toThrow("Hone API error (401): Invalid API key");
+    it("should let options override response metadata", async () => {
+      await client.track("convo", [], { sessionId: "s1", model: "custom", finishReason: "stop" });
+
+      expect(sentBody()).toMatchObject({ model: "custom", finishReason: "stop" });
+      expect(sentBody().responseId).toBeUndefined();
     });
 
-    it("should use status text when error message not in response", async () => {
-      mockFetch.mockResolvedValueOnce({
-        ok: false,
-        status: 403,
-        statusText: "Forbidden",
-        json: async () => ({}),
+    it("should compute duration from start and end times", async () => {
+      await client.track("convo", [], {
+        sessionId: "s1",
+        startTime: new Date("2025-01-01T00:00:00.000Z"),
+        endTime: Date.parse("2025-01-01T00:00:01.250Z"),
+      });
+
+      expect(sentBody()).toMatchObject({
+        startTime: "2025-01-01T00:00:00.000Z",
+        endTime: "2025-01-01T00:00:01.250Z",
+        durationMs: 1250,
       });
+    });
+
+    it("should accept an explicit duration", async () => {
+      await client.track("convo", [], { sessionId: "s1", durationMs: 420 });
+
+      expect(sentBody().durationMs).toBe(420);
+      expect(sentBody().startTime).toBeUndefined();
+    });
 
+    it("should reject invalid times", async () => {
       await expect(
-        client.track("test", [{ role: "user", content: "Hi" }], { sessionId: "session-123" }),
-      ).rejects.toThrow("Hone API error (403): Forbidden");
+        client.track("convo", [], { sessionId: "s1", startTime: "not a date" }),
+      ).rejects.toThrow(HoneValidationError);
     });
+  });
 
-    it("should handle JSON parse error in error response", async () => {
-      mockFetch.mockResolvedValueOnce({
-        ok: false,
-        status: 500,
-        statusText: "Internal Server Error",
-        json: async () => {
-          throw new Error("Invalid JSON");
+  describe("agent versions", () => {
+    const agentResponse: EntityV2Response = {
+      evaluatedPrompt: "Hello!",
+      template: "Hello!",
+      type: "agent",
+      data: {
+        model: "gpt-4o",
+        provider: "openai",
+        temperature: null,
+        maxTokens: null,
+        topP: null,
+        frequencyPenalty: null,
+        presencePenalty: null,
+        stopSequences: [],
+        tools: [],
+      },
+      majorVersion: 2,
+      minorVersion: 5,
+      evaluationId: "eval_123",
+    };
+
+    const getAgent = () =>
+      client.agent("greeting", { model: "gpt-4o", provider: "openai", defaultPrompt: "Hello!" });
+
+    it("should surface version and evaluation id on the agent result", async () => {
+      mockFetch.mockResolvedValueOnce({ ok: true, json: async () => agentResponse });
+
+      const result = await getAgent();
+
+      expect(result.agentId).toBe("greeting");
+      expect(result.majorVersion).toBe(2);
+      expect(result.minorVersion).toBe(5);
+      expect(result.evaluationId).toBe("eval_123");
+    });
+
+    it("should use the requested major version for fallback results", async () => {
+      mockFetch.mockRejectedValueOnce(new Error("Network error"));
+
+      const result = await client.agent("greeting", {
+        model: "gpt-4o",
+        provider: "openai",
+        defaultPrompt: "Hello!",
+        majorVersion: 3,
+      });
+
+      expect(result.majorVersion).toBe(3);
+      expect(result.minorVersion).toBeNull();
+      expect(result.evaluationId).toBeNull();
+    });
+
+    it("should attribute tracked runs to an agent result", async () => {
+      mockFetch
+        .mockResolvedValueOnce({ ok: true, json: async () => agentResponse })
+        .mockResolvedValueOnce({ ok: true, json: async () => ({}) });
+
+      const agent = await getAgent();
+      await client.track("convo", [], { sessionId: "s1", agent });
+
+      const body = JSON.parse(mockFetch.mock.calls[1][1].body);
+      expect(body.agent).toEqual({
+        id: "greeting",
+        majorVersion: 2,
+        minorVersion: 5,
+        evaluationId: "eval_123",
+        source: "api",
+      });
+    });
+
+    it("should accept an evaluation id", async () => {
+      mockFetch.mockResolvedValueOnce({ ok: true, json: async () => ({}) });
+
+      await client.track("convo", [], { sessionId: "s1", agent: "eval_123" });
+
+      const body = JSON.parse(mockFetch.mock.calls[0][1].body);
+      expect(body.agent).toEqual({ evaluationId: "eval_123" });
+    });
+  });
+
+  describe("OpenAI Responses API tracking", () => {
+    it("should track input, instructions and output items", async () => {
+      mockFetch.mockResolvedValueOnce({ ok: true, json: async () => ({}) });
+
+      await client.track(
+        "convo",
+        {
+          provider: "openai-responses",
+          input: "What's the weather in SF?",
+          response: {
+            id: "resp_1",
+            model: "gpt-4.1",
+            status: "completed",
+            instructions: "You are a weather bot",
+            output: [{ type: "function_call", call_id: "call_1", name: "get_weather", arguments: "{}" }],
+            usage: {
+              input_tokens: 10,
+              output_tokens: 5,
+              total_tokens: 15,
+              input_tokens_details: { cached_tokens: 0 },
+              output_tokens_details: { reasoning_tokens: 0 },
+            },
+          } as any,
+        },
+        { sessionId: "s1" },
+      );
+
+      const body = JSON.parse(mockFetch.mock.calls[0][1].body);
+      expect(body.messages).toEqual([
+        { role: "system", content: "You are a weather bot" },
+        { role: "user", content: "What's the weather in SF?" },
+        {
+          role: "assistant",
+          content: "",
+          tool_calls: [{ id: "call_1", name: "get_weather", arguments: "{}" }],
         },
+      ]);
+      expect(body).toMatchObject({
+        model: "gpt-4.1",
+        finishReason: "completed",
+        responseId: "resp_1",
+        usage: { inputTokens: 10, outputTokens: 5, totalTokens: 15 },
       });
+    });
+  });
 
-      await expect(
-        client.track("test", [{ role: "user", content: "Hi" }], { sessionId: "session-123" }),
-      ).rejects.toThrow("Hone API error (500): Internal Server Error");
+  describe("Vercel AI SDK tracking", () => {
+    it("should track messages and every step of the result", async () => {
+      mockFetch.mockResolvedValueOnce({ ok: true, json: async () => ({}) });
+
+      await client.track(
+        "convo",
+        {
+          provider: "ai-sdk",
+          system: "You are a weather bot",
+          messages: [{ role: "user", content: "Weather in SF?" }],
+          result: {
+            text: "Sunny.",
+            finishReason: "stop",
+            usage: { promptTokens: 20, completionTokens: 8, totalTokens: 28 },
+            steps: [
+              {
+                text: "",
+                toolCalls: [{ toolCallId: "call_1", toolName: "get_weather", args: {} }],
+                toolResults: [{ toolCallId: "call_1", toolName: "get_weather", result: "sunny" }],
+              },
+              { text: "Sunny." },
+            ],
+            response: { id: "resp_1", modelId: "gpt-4o" },
+          },
+        },
+        { sessionId: "s1" },
+      );
+
+      const body = JSON.parse(mockFetch.mock.calls[0][1].body);
+      expect(body.messages).toEqual([
+        { role: "system", content: "You are a weather bot" },
+        { role: "user", content: "Weather in SF?" },
+        {
+          role: "assistant",
+          content: "",
+          tool_calls: [{ id: "call_1", name: "get_weather", arguments: "{}" }],
+        },
+        { role: "tool", content: "sunny", tool_call_id: "call_1" },
+        { role: "assistant", content: "Sunny." },
+      ]);
+      expect(body).toMatchObject({
+        model: "gpt-4o",
+        finishReason: "stop",
+        responseId: "resp_1",
+        usage: { inputTokens: 20, outputTokens: 8, totalTokens: 28 },
+      });
+    });
+  });
+
+  describe("binary content", () => {
+    const input = {
+      provider: "openai" as const,
+      messages: [
+        {
+          role: "user" as const,
+          content: [
+            { type: "text" as const, text: "What's this?" },
+            { type: "image_url" as const, image_url: { url: "data:image/png;base64,aGVsbG8=" } },
+          ],
+        },
+      ],
+      response: { choices: [{ message: { role: "assistant", content: "A greeting" } }] } as any,
+    };
+
+    it("should include inline payloads by default", async () => {
+      mockFetch.mockResolvedValueOnce({ ok: true, json: async () => ({}) });
+
+      await client.track("convo", input, { sessionId: "s1" });
+
+      const body = JSON.parse(mockFetch.mock.calls[0][1].body);
+      expect(body.messages[0].parts[1]).toEqual({ type: "image", data: "aGVsbG8=", mimeType: "image/png" });
+    });
+
+    it("should hash inline payloads when configured", async () => {
+      const hashingClient = new Hone({ apiKey: mockApiKey, tracking: { binaryContent: "hash" } });
+      mockFetch.mockResolvedValueOnce({ ok: true, json: async () => ({}) });
+
+      await hashingClient.track("convo", input, { sessionId: "s1" });
+
+      const body = JSON.parse(mockFetch.mock.calls[0][1].body);
+      expect(body.messages[0].parts[1]).toEqual({
+        type: "image",
+        mimeType: "image/png",
+        size: 5,
+        sha256: "2cf24dba5fb0a30e26e83b2ac5b9e29e1b161e5c1fa7425e73043362938b9824",
+      });
+    });
+  });
+
+  describe("reasoning", () => {
+    const input = {
+      provider: "anthropic" as const,
+      messages: [{ role: "user" as const, content: "Hi" }],
+      response: {
+        role: "assistant",
+        content: [
+          { type: "thinking", thinking: "Be friendly", signature: "sig" },
+          { type: "text", text: "Hello!" },
+        ],
+      } as any,
+    };
+
+    it("should send reasoning by default", async () => {
+      mockFetch.mockResolvedValueOnce({ ok: true, json: async () => ({}) });
+
+      await client.track("convo", input, { sessionId: "s1" });
+
+      const body = JSON.parse(mockFetch.mock.calls[0][1].body);
+      expect(body.messages[1].reasoning).toBe("Be friendly");
+    });
+
+    it("should omit reasoning when includeReasoning is false", async () => {
+      const privateClient = new Hone({ apiKey: mockApiKey, tracking: { includeReasoning: false } });
+      mockFetch.mockResolvedValueOnce({ ok: true, json: async () => ({}) });
+
+      await privateClient.track("convo", input, { sessionId: "s1" });
+
+      const body = JSON.parse(mockFetch.mock.calls[0][1].body);
+      expect(body.messages[1]).toEqual({ role: "assistant", content: "Hello!" });
+    });
+  });
+
+  describe("run attributes", () => {
+    it("should forward user id, environment, release, tags and metadata", async () => {
+      mockFetch.mockResolvedValueOnce({ ok: true, json: async () => ({}) });
+
+      await client.track<{ tier: string; seats: number }>("convo", [], {
+        sessionId: "s1",
+        userId: "user_42",
+        environment: "production",
+        release: "2025.01.1",
+        tags: ["beta", "eu"],
+        metadata: { tier: "enterprise", seats: 50 },
+      });
+
+      const body = JSON.parse(mockFetch.mock.calls[0][1].body);
+      expect(body).toMatchObject({
+        userId: "user_42",
+        environment: "production",
+        release: "2025.01.1",
+        tags: ["beta", "eu"],
+        metadata: { tier: "enterprise", seats: 50 },
+      });
+    });
+
+    it("should omit attributes that are not set", async () => {
+      mockFetch.mockResolvedValueOnce({ ok: true, json: async () => ({}) });
+
+      await client.track("convo", [], { sessionId: "s1", tags: [] });
+
+      const body = JSON.parse(mockFetch.mock.calls[0][1].body);
+      expect(Object.keys(body).sort()).toEqual(["id", "messages", "sessionId", "timestamp"]);
+    });
+  });
+
+  describe("usage and cost", () => {
+    const openAIInput = {
+      provider: "openai" as const,
+      messages: [{ role: "user" as const, content: "Hi" }],
+      response: {
+        model: "gpt-4o-2024-08-06",
+        choices: [{ message: { role: "assistant", content: "Hello!" } }],
+        usage: {
+          prompt_tokens: 1000,
+          completion_tokens: 500,
+          total_tokens: 1500,
+          prompt_tokens_details: { cached_tokens: 200 },
+        },
+      } as any,
+    };
+
+    beforeEach(() => {
+      mockFetch.mockResolvedValueOnce({ ok: true, json: async () => ({}) });
+    });
+
+    it("should include usage extracted from the provider response", async () => {
+      await client.track("convo", openAIInput, { sessionId: "s1" });
+
+      const body = JSON.parse(mockFetch.mock.calls[0][1].body);
+      expect(body.usage).toEqual({
+        inputTokens: 1000,
+        outputTokens: 500,
+        totalTokens: 1500,
+        cachedTokens: 200,
+      });
+      expect(body.cost).toBeUndefined();
+    });
+
+    it("should compute cost from the configured price table", async () => {
+      const pricedClient = new Hone({
+        apiKey: mockApiKey,
+        pricing: { "gpt-4o": { input: 2.5, output: 10, cachedInput: 1.25 } },
+      });
+
+      await pricedClient.track("convo", openAIInput, { sessionId: "s1" });
+
+      const body = JSON.parse(mockFetch.mock.calls[0][1].body);
+      expect(body.cost).toBeCloseTo((800 * 2.5 + 200 * 1.25 + 500 * 10) / 1_000_000);
+    });
+
+    it("should accept usage and model for normalized messages", async () => {
+      const pricedClient = new Hone({
+        apiKey: mockApiKey,
+        pricing: { "gemini-2.0-flash": { input: 0.1, output: 0.4 } },
+      });
+      const usage = { inputTokens: 1_000_000, outputTokens: 1_000_000, totalTokens: 2_000_000 };
+
+      await pricedClient.track("convo", [{ role: "user", content: "Hi" }], {
+        sessionId: "s1",
+        usage,
+        model: "gemini-2.0-flash",
+      });
+
+      const body = JSON.parse(mockFetch.mock.calls[0][1].body);
+      expect(body.usage).toEqual(usage);
+      expect(body.cost).toBeCloseTo(0.5);
+    });
+  });
+
+  describe("feedback", () => {
+    it("should post feedback to /insert_feedback", async () => {
+      mockFetch.mockResolvedValueOnce({ ok: true, json: async () => ({}) });
+
+      await client.feedback("convo", { sessionId: "s1", thumbs: "up", comment: "Great answer" });
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        "https://honeagents.ai/api/insert_feedback",
+        expect.objectContaining({ method: "POST" }),
+      );
+      const body = JSON.parse(mockFetch.mock.calls[0][1].body);
+      expect(body).toMatchObject({
+        id: "convo",
+        sessionId: "s1",
+        thumbs: "up",
+        comment: "Great answer",
+        source: "user",
+      });
+      expect(body.timestamp).toBeDefined();
+    });
+
+    it("should record model-graded scores with a name", async () => {
+      mockFetch.mockResolvedValueOnce({ ok: true, json: async () => ({}) });
+
+      await client.feedback("convo", { name: "faithfulness", score: 0.8, source: "model" });
+
+      const body = JSON.parse(mockFetch.mock.calls[0][1].body);
+      expect(body).toMatchObject({ name: "faithfulness", score: 0.8, source: "model" });
+    });
+
+    it("should reject empty feedback", async () => {
+      await expect(client.feedback("convo", { sessionId: "s1" })).rejects.toThrow(HoneValidationError);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it("should reject non-finite scores", async () => {
+      await expect(client.feedback("convo", { score: NaN })).rejects.toThrow("Invalid score");
+    });
+
+    it("should throw when the API call fails", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 500,
+        statusText: "Internal Server Error",
+        json: async () => ({ message: "Server error" }),
+      });
+
+      await expect(client.feedback("convo", { label: "resolved" })).rejects.toThrow(
+        "Hone API error (500): Server error",
+      );
+    });
+  });
+
+  describe("session context", () => {
+    const messages: Message[] = [{ role: "user", content: "Hi" }];
+
+    it("should track with the session from withSession", async () => {
+      mockFetch.mockResolvedValueOnce({ ok: true, json: async () => ({}) });
+
+      await client.withSession("s1", { userId: "user-1", metadata: { plan: "pro" } }, async () => {
+        await Promise.resolve();
+        await client.track("convo", messages, {});
+      });
+
+      const body = JSON.parse(mockFetch.mock.calls[0][1].body);
+      expect(body).toMatchObject({ sessionId: "s1", userId: "user-1", metadata: { plan: "pro" } });
+    });
+
+    it("should let explicit options take precedence", async () => {
+      mockFetch.mockResolvedValueOnce({ ok: true, json: async () => ({}) });
+
+      await client.withSession("s1", { userId: "user-1", metadata: { plan: "pro", team: "a" } }, () =>
+        client.track("convo", messages, { sessionId: "s2", userId: "user-2", metadata: { team: "b" } }),
+      );
+
+      const body = JSON.parse(mockFetch.mock.calls[0][1].body);
+      expect(body).toMatchObject({ sessionId: "s2", userId: "user-2", metadata: { plan: "pro", team: "b" } });
+    });
+
+    it("should reject tracking without a session id", async () => {
+      await expect(client.track("convo", messages, {})).rejects.toThrow(HoneValidationError);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it("should keep concurrent sessions apart", async () => {
+      mockFetch
+        .mockResolvedValueOnce({ ok: true, json: async () => ({}) })
+        .mockResolvedValueOnce({ ok: true, json: async () => ({}) });
+
+      await Promise.all([
+        client.withSession("s1", async () => {
+          await new Promise((resolve) => setTimeout(resolve, 5));
+          await client.track("a", messages, {});
+        }),
+        client.withSession("s2", () => client.track("b", messages, {})),
+      ]);
+
+      const sessions = mockFetch.mock.calls.map((call) => JSON.parse(call[1].body));
+      expect(sessions).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({ id: "a", sessionId: "s1" }),
+          expect.objectContaining({ id: "b", sessionId: "s2" }),
+        ]),
+      );
+    });
+
+    it("should fill feedback from the session", async () => {
+      mockFetch.mockResolvedValueOnce({ ok: true, json: async () => ({}) });
+
+      await client.withSession("s1", { userId: "user-1" }, () =>
+        client.feedback("convo", { thumbs: "down" }),
+      );
+
+      const body = JSON.parse(mockFetch.mock.calls[0][1].body);
+      expect(body).toMatchObject({ sessionId: "s1", userId: "user-1", thumbs: "down" });
+    });
+
+    it("should return the function's result", () => {
+      expect(client.withSession("s1", () => 42)).toBe(42);
+    });
+
+    it("should require a session id", () => {
+      expect(() => client.withSession("", () => undefined)).toThrow(HoneValidationError);
+    });
+  });
+
+  describe("spans", () => {
+    const okResponse = { ok: true, json: async () => ({}) };
+
+    it("should send a nested trace when the root span ends", async () => {
+      mockFetch.mockResolvedValueOnce(okResponse);
+
+      const result = await client.span("agent", { kind: "agent", input: "question" }, async (agent) => {
+        await client.span("search", { kind: "retrieval" }, async () => ["doc"]);
+        agent.setOutput("answer");
+        return "answer";
+      });
+
+      expect(result).toBe("answer");
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(mockFetch.mock.calls[0][0]).toBe("https://honeagents.ai/api/insert_spans");
+      const { spans } = JSON.parse(mockFetch.mock.calls[0][1].body);
+      expect(spans.map((span: any) => span.name)).toEqual(["search", "agent"]);
+      expect(spans[0].parentSpanId).toBe(spans[1].spanId);
+      expect(spans[0].traceId).toBe(spans[1].traceId);
+      expect(spans[1]).toMatchObject({ kind: "agent", input: "question", output: "answer", status: "ok" });
+    });
+
+    it("should mark the span as failed and rethrow", async () => {
+      mockFetch.mockResolvedValueOnce(okResponse);
+
+      await expect(
+        client.span("tool", { kind: "tool" }, () => {
+          throw new Error("Tool crashed");
+        }),
+      ).rejects.toThrow("Tool crashed");
+
+      const { spans } = JSON.parse(mockFetch.mock.calls[0][1].body);
+      expect(spans[0]).toMatchObject({ status: "error", error: "Tool crashed" });
+    });
+
+    it("should link tracked runs to the active span", async () => {
+      mockFetch.mockResolvedValueOnce(okResponse).mockResolvedValueOnce(okResponse);
+
+      await client.span("agent", { kind: "agent" }, () =>
+        client.track("convo", [{ role: "user", content: "Hi" }], { sessionId: "s1" }),
+      );
+
+      const run = JSON.parse(mockFetch.mock.calls[0][1].body);
+      const { spans } = JSON.parse(mockFetch.mock.calls[1][1].body);
+      expect(run.traceId).toBe(spans[0].traceId);
+      expect(run.spanId).toBe(spans[0].spanId);
+    });
+
+    it("should take the session from withSession", async () => {
+      mockFetch.mockResolvedValueOnce(okResponse);
+
+      await client.withSession("s1", () => client.span("agent", { kind: "agent" }, () => undefined));
+
+      const { spans } = JSON.parse(mockFetch.mock.calls[0][1].body);
+      expect(spans[0].sessionId).toBe("s1");
+    });
+
+    it("should queue spans until flush in background mode", async () => {
+      const bgClient = new Hone({ apiKey: mockApiKey, tracking: { mode: "background" } });
+      mockFetch.mockResolvedValueOnce(okResponse);
+
+      const span = bgClient.startSpan("step", { kind: "llm" });
+      span.end({ output: "done" });
+      expect(mockFetch).not.toHaveBeenCalled();
+
+      await bgClient.flush();
+      const { spans } = JSON.parse(mockFetch.mock.calls[0][1].body);
+      expect(spans[0]).toMatchObject({ name: "step", output: "done" });
+      await bgClient.shutdown();
+    });
+
+    it("should report failed span batches through onFlushError", async () => {
+      const onFlushError = vi.fn();
+      const hookClient = new Hone({ apiKey: mockApiKey, tracking: { onFlushError } });
+      mockFetch.mockResolvedValueOnce({ ok: false, status: 503, statusText: "Unavailable", json: async () => ({}) });
+
+      await hookClient.span("agent", { kind: "agent" }, () => undefined);
+
+      expect(onFlushError).toHaveBeenCalledTimes(1);
+      expect(onFlushError.mock.calls[0][1][0]).toMatchObject({ name: "agent" });
+      await hookClient.shutdown();
+    });
+  });
+
+  describe("telemetry", () => {
+    const okResponse = { ok: true, json: async () => ({}) };
+
+    const fakeTracer = () => {
+      const spans: { name: string; attributes: Record<string, unknown>; ended: boolean }[] = [];
+      const tracer = {
+        startSpan: (name: string, options: { attributes?: Record<string, unknown> } = {}) => {
+          const span = { name, attributes: { ...options.attributes }, ended: false };
+          spans.push(span);
+          return {
+            setAttributes: (attributes: Record<string, unknown>) => Object.assign(span.attributes, attributes),
+            setStatus: () => undefined,
+            recordException: () => undefined,
+            end: () => {
+              span.ended = true;
+            },
+          };
+        },
+      };
+      return { tracer, spans };
+    };
+
+    it("should emit spans for evaluations and tracked runs", async () => {
+      const { tracer, spans } = fakeTracer();
+      const otelClient = new Hone({ apiKey: mockApiKey, telemetry: { tracer } });
+      mockFetch.mockRejectedValueOnce(new TypeError("fetch failed")).mockResolvedValueOnce(okResponse);
+
+      await otelClient.agent("support", { model: "gpt-4o", provider: "openai", defaultPrompt: "Be helpful." });
+      await otelClient.track("support", [{ role: "user", content: "Hi" }], {
+        sessionId: "s1",
+        model: "gpt-4o",
+      });
+
+      expect(spans.map((span) => span.name)).toEqual(["hone.agent support", "chat gpt-4o"]);
+      expect(spans[0].attributes).toMatchObject({
+        "gen_ai.request.model": "gpt-4o",
+        "hone.result.source": "fallback",
+      });
+      expect(spans[1].attributes).toMatchObject({ "gen_ai.conversation.id": "s1", "hone.run.id": "support" });
+      expect(spans.every((span) => span.ended)).toBe(true);
+    });
+
+    it("should send recorded spans and link runs to explicit trace ids", async () => {
+      mockFetch.mockResolvedValueOnce(okResponse).mockResolvedValueOnce(okResponse);
+
+      client.recordSpans([
+        {
+          traceId: "t1",
+          spanId: "sp1",
+          name: "chat gpt-4o",
+          kind: "llm",
+          startTime: "2026-01-01T00:00:00.000Z",
+          endTime: "2026-01-01T00:00:01.000Z",
+          durationMs: 1000,
+          status: "ok",
+        },
+      ]);
+      await client.track("convo", [{ role: "user", content: "Hi" }], {
+        sessionId: "s1",
+        traceId: "t1",
+        spanId: "sp1",
+      });
+
+      expect(mockFetch.mock.calls[0][0]).toBe("https://honeagents.ai/api/insert_spans");
+      expect(JSON.parse(mockFetch.mock.calls[0][1].body).spans[0].spanId).toBe("sp1");
+      const run = JSON.parse(mockFetch.mock.calls[1][1].body);
+      expect(run).toMatchObject({ traceId: "t1", spanId: "sp1" });
+    });
+  });
+
+  describe("background tracking", () => {
+    const okResponse = { ok: true, json: async () => ({}) };
+
+    it("should return without waiting for the API", async () => {
+      const bgClient = new Hone({ apiKey: mockApiKey, tracking: { mode: "background" } });
+
+      await bgClient.track("test", [{ role: "user", content: "Hi" }], { sessionId: "s1" });
+
+      expect(mockFetch).not.toHaveBeenCalled();
+      await bgClient.shutdown();
+    });
+
+    it("should send queued conversations as a batch on flush", async () => {
+      const bgClient = new Hone({ apiKey: mockApiKey, tracking: { mode: "background" } });
+      mockFetch.mockResolvedValueOnce(okResponse);
+
+      await bgClient.track("a", [{ role: "user", content: "One" }], { sessionId: "s1" });
+      await bgClient.track("b", [{ role: "user", content: "Two" }], { sessionId: "s2" });
+      await bgClient.flush();
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(mockFetch.mock.calls[0][0]).toBe("https://honeagents.ai/api/insert_runs/batch");
+      const body = JSON.parse(mockFetch.mock.calls[0][1].body);
+      expect(body.runs).toHaveLength(2);
+      expect(body.runs[0]).toMatchObject({ id: "a", sessionId: "s1" });
+      expect(body.runs[1]).toMatchObject({ id: "b", sessionId: "s2" });
+      await bgClient.shutdown();
+    });
+
+    it("should report flush errors instead of throwing from track", async () => {
+      const onFlushError = vi.fn();
+      const bgClient = new Hone({
+        apiKey: mockApiKey,
+        tracking: { mode: "background", onFlushError },
+      });
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 500,
+        statusText: "Internal Server Error",
+        json: async () => ({}),
+      });
+
+      await bgClient.track("a", [], { sessionId: "s1" });
+      await bgClient.flush();
+
+      expect(onFlushError).toHaveBeenCalledWith(
+        expect.any(HoneServerError),
+        [expect.objectContaining({ id: "a" })],
+      );
+      await bgClient.shutdown();
+    });
+
+    it("should flush remaining conversations on shutdown", async () => {
+      const bgClient = new Hone({ apiKey: mockApiKey, tracking: { mode: "background" } });
+      mockFetch.mockResolvedValueOnce(okResponse);
+
+      await bgClient.track("a", [], { sessionId: "s1" });
+      await bgClient.shutdown();
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("should resolve flush and shutdown immediately in sync mode", async () => {
+      await client.flush();
+      await client.shutdown();
+
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("tracking spool", () => {
+    let directory: string;
+    const spoolFile = () => path.join(directory, "hone-tracking.jsonl");
+    const failure = () => ({
+      ok: false,
+      status: 503,
+      statusText: "Service Unavailable",
+      json: async () => ({}),
+    });
+
+    beforeEach(async () => {
+      directory = await fs.mkdtemp(path.join(os.tmpdir(), "hone-client-spool-"));
+    });
+
+    afterEach(async () => {
+      await fs.rm(directory, { recursive: true, force: true });
+    });
+
+    it("should spool failed sync tracking instead of throwing", async () => {
+      const spoolClient = new Hone({
+        apiKey: mockApiKey,
+        tracking: { spool: { directory, replayOnStartup: false } },
+      });
+      mockFetch.mockResolvedValueOnce(failure());
+
+      await spoolClient.track("a", [{ role: "user", content: "Hi" }], { sessionId: "s1" });
+
+      const contents = await fs.readFile(spoolFile(), "utf8");
+      expect(JSON.parse(contents.trim())).toMatchObject({ id: "a", sessionId: "s1" });
+    });
+
+    it("should throw when the spool is full", async () => {
+      const spoolClient = new Hone({
+        apiKey: mockApiKey,
+        tracking: { spool: { directory, maxBytes: 10, replayOnStartup: false } },
+      });
+      mockFetch.mockResolvedValueOnce(failure());
+
+      await expect(spoolClient.track("a", [], { sessionId: "s1" })).rejects.toThrow(
+        "Hone API error (503)",
+      );
+    });
+
+    it("should throw errors a resend can't fix instead of spooling", async () => {
+      const spoolClient = new Hone({
+        apiKey: mockApiKey,
+        tracking: { spool: { directory, replayOnStartup: false } },
+      });
+      mockFetch.mockResolvedValueOnce({ ...failure(), status: 422, statusText: "Unprocessable Entity" });
+
+      await expect(spoolClient.track("a", [], { sessionId: "s1" })).rejects.toThrow(HoneValidationError);
+      expect(await fs.readdir(directory)).toEqual([]);
+    });
+
+    it("should discard spooled batches the API rejects and report them through onFlushError", async () => {
+      await fs.writeFile(
+        spoolFile(),
+        JSON.stringify({ id: "bad", messages: [], sessionId: "s", timestamp: "t" }) + "\n",
+      );
+      const onFlushError = vi.fn();
+      const spoolClient = new Hone({
+        apiKey: mockApiKey,
+        tracking: { onFlushError, spool: { directory, replayOnStartup: false } },
+      });
+      mockFetch.mockResolvedValueOnce({ ...failure(), status: 400, statusText: "Bad Request" });
+
+      expect(await spoolClient.replaySpool()).toBe(0);
+      expect(onFlushError).toHaveBeenCalledWith(expect.any(HoneValidationError), [
+        expect.objectContaining({ id: "bad" }),
+      ]);
+      expect(await fs.readdir(directory)).toEqual([]);
+    });
+
+    it("should replay spooled conversations after the next successful send", async () => {
+      const spoolClient = new Hone({
+        apiKey: mockApiKey,
+        tracking: { spool: { directory, replayOnStartup: false } },
+      });
+      mockFetch
+        .mockResolvedValueOnce(failure())
+        .mockResolvedValueOnce({ ok: true, json: async () => ({}) })
+        .mockResolvedValueOnce({ ok: true, json: async () => ({}) });
+
+      await spoolClient.track("a", [], { sessionId: "s1" });
+      await spoolClient.track("b", [], { sessionId: "s1" });
+      await vi.waitFor(() => expect(mockFetch).toHaveBeenCalledTimes(3));
+
+      expect(mockFetch.mock.calls[1][0]).toBe("https://honeagents.ai/api/insert_runs");
+      expect(mockFetch.mock.calls[2][0]).toBe("https://honeagents.ai/api/insert_runs/batch");
+      const replayBody = JSON.parse(mockFetch.mock.calls[2][1].body);
+      expect(replayBody.runs.map((r: { id: string }) => r.id)).toEqual(["a"]);
+    });
+
+    it("should replay on startup", async () => {
+      await fs.writeFile(
+        spoolFile(),
+        JSON.stringify({ id: "old", messages: [], sessionId: "s", timestamp: "t" }) + "\n",
+      );
+      mockFetch.mockResolvedValueOnce({ ok: true, json: async () => ({}) });
+
+      new Hone({ apiKey: mockApiKey, tracking: { spool: { directory } } });
+
+      await vi.waitFor(() => expect(mockFetch).toHaveBeenCalledTimes(1));
+      const body = JSON.parse(mockFetch.mock.calls[0][1].body);
+      expect(body.runs[0].id).toBe("old");
+    });
+
+    it("should spool failed background batches", async () => {
+      const onFlushError = vi.fn();
+      const spoolClient = new Hone({
+        apiKey: mockApiKey,
+        tracking: { mode: "background", onFlushError, spool: { directory, replayOnStartup: false } },
+      });
+      mockFetch.mockResolvedValueOnce(failure());
+
+      await spoolClient.track("a", [], { sessionId: "s1" });
+      await spoolClient.shutdown();
+
+      expect(onFlushError).not.toHaveBeenCalled();
+      expect(await fs.readFile(spoolFile(), "utf8")).toContain('"id":"a"');
+    });
+
+    it("should spool failed span batches and replay them to /insert_spans", async () => {
+      const onFlushError = vi.fn();
+      const spoolClient = new Hone({
+        apiKey: mockApiKey,
+        tracking: { onFlushError, spool: { directory, replayOnStartup: false } },
+      });
+      mockFetch.mockResolvedValueOnce(failure()).mockResolvedValueOnce({ ok: true, json: async () => ({}) });
+
+      await spoolClient.span("agent", { kind: "agent" }, () => undefined);
+
+      expect(onFlushError).not.toHaveBeenCalled();
+      expect(JSON.parse((await fs.readFile(spoolFile(), "utf8")).trim()).span).toMatchObject({ name: "agent" });
+
+      expect(await spoolClient.replaySpool()).toBe(1);
+      expect(mockFetch.mock.calls[1][0]).toBe("https://honeagents.ai/api/insert_spans");
+      expect(JSON.parse(mockFetch.mock.calls[1][1].body).spans[0].name).toBe("agent");
+    });
+  });
+
+  describe("retry", () => {
+    const okResponse = {
+      ok: true,
+      json: async () => ({}),
+    };
+    const errorResponse = (status: number, headers: Record<string, string> = {}) => ({
+      ok: false,
+      status,
+      statusText: "Error",
+      headers: new Headers(headers),
+      json: async () => ({}),
+    });
+
+    it("should not retry by default", async () => {
+      mockFetch.mockResolvedValueOnce(errorResponse(503));
+
+      await expect(
+        client.track("test", [], { sessionId: "session-123" })
+      ).rejects.toThrow("Hone API error (503)");
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("should retry retryable status codes until success", async () => {
+      const retryClient = new Hone({ apiKey: mockApiKey, retry: { baseDelay: 0 } });
+      mockFetch
+        .mockResolvedValueOnce(errorResponse(429))
+        .mockResolvedValueOnce(errorResponse(502))
+        .mockResolvedValueOnce(okResponse);
+
+      await retryClient.track("test", [], { sessionId: "session-123" });
+
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+    });
+
+    it("should retry network errors", async () => {
+      const retryClient = new Hone({ apiKey: mockApiKey, retry: { baseDelay: 0 } });
+      mockFetch
+        .mockRejectedValueOnce(new TypeError("fetch failed"))
+        .mockResolvedValueOnce(okResponse);
+
+      await retryClient.track("test", [], { sessionId: "session-123" });
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it("should throw the last error after maxAttempts", async () => {
+      const retryClient = new Hone({ apiKey: mockApiKey, retry: { baseDelay: 0, maxAttempts: 2 } });
+      mockFetch
+        .mockResolvedValueOnce(errorResponse(500))
+        .mockResolvedValueOnce(errorResponse(503));
+
+      await expect(
+        retryClient.track("test", [], { sessionId: "session-123" })
+      ).rejects.toThrow("Hone API error (503)");
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it("should not retry non-retryable status codes", async () => {
+      const retryClient = new Hone({ apiKey: mockApiKey, retry: { baseDelay: 0 } });
+      mockFetch.mockResolvedValueOnce(errorResponse(401));
+
+      await expect(
+        retryClient.track("test", [], { sessionId: "session-123" })
+      ).rejects.toThrow("Hone API error (401)");
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("should honor Retry-After headers", async () => {
+      vi.useFakeTimers();
+      try {
+        const retryClient = new Hone({ apiKey: mockApiKey, retry: { baseDelay: 0 } });
+        mockFetch
+          .mockResolvedValueOnce(errorResponse(429, { "Retry-After": "2" }))
+          .mockResolvedValueOnce(okResponse);
+
+        const promise = retryClient.track("test", [], { sessionId: "session-123" });
+
+        await vi.advanceTimersByTimeAsync(1999);
+        expect(mockFetch).toHaveBeenCalledTimes(1);
+        await vi.advanceTimersByTimeAsync(1);
+        await promise;
+        expect(mockFetch).toHaveBeenCalledTimes(2);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it("should allow disabling retries for track but not agent", async () => {
+      const retryClient = new Hone({
+        apiKey: mockApiKey,
+        fallback: false,
+        retry: { baseDelay: 0, track: false },
+      });
+      mockFetch
+        .mockResolvedValueOnce(errorResponse(503))
+        .mockResolvedValueOnce(errorResponse(503))
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({ evaluatedPrompt: "Hi", template: "Hi", type: "agent", data: {} }),
+        });
+
+      await expect(
+        retryClient.track("test", [], { sessionId: "session-123" })
+      ).rejects.toThrow("Hone API error (503)");
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+
+      const result = await retryClient.agent("greeting", {
+        model: "gpt-4",
+        provider: "openai",
+        defaultPrompt: "Hi",
+      });
+      expect(result.source).toBe("api");
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+    });
+
+    it("should retry before falling back", async () => {
+      const retryClient = new Hone({ apiKey: mockApiKey, retry: { baseDelay: 0, maxAttempts: 2 } });
+      mockFetch
+        .mockRejectedValueOnce(new TypeError("fetch failed"))
+        .mockRejectedValueOnce(new TypeError("fetch failed"));
+
+      const text = await retryClient.prompt("tone", { defaultPrompt: "Be kind." });
+
+      expect(text).toBe("Be kind.");
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe("logging", () => {
+    const createMockLogger = () => ({
+      debug: vi.fn(),
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+    });
+
+    it("should not write to the console by default", async () => {
+      const consoleLog = vi.spyOn(console, "log");
+      mockFetch.mockResolvedValueOnce({ ok: true, json: async () => ({}) });
+
+      await client.track("test", [], { sessionId: "session-123" });
+
+      expect(consoleLog).not.toHaveBeenCalled();
+    });
+
+    it("should log requests with structured fields at debug level", async () => {
+      const logger = createMockLogger();
+      const loggedClient = new Hone({ apiKey: mockApiKey, logger, logLevel: "debug" });
+      mockFetch.mockResolvedValueOnce({ ok: true, status: 200, json: async () => ({}) });
+
+      await loggedClient.track("test", [], { sessionId: "session-123" });
+
+      expect(logger.debug).toHaveBeenCalledWith(
+        expect.objectContaining({
+          endpoint: "/insert_runs",
+          method: "POST",
+          status: 200,
+          attempt: 1,
+          durationMs: expect.any(Number),
+        }),
+        "Hone API request",
+      );
+      // The base URL is never logged
+      expect(JSON.stringify(logger.debug.mock.calls)).not.toContain("honeagents.ai");
+    });
+
+    it("should not log debug messages at the default level", async () => {
+      const logger = createMockLogger();
+      const loggedClient = new Hone({ apiKey: mockApiKey, logger });
+      mockFetch.mockResolvedValueOnce({ ok: true, status: 200, json: async () => ({}) });
+
+      await loggedClient.track("test", [], { sessionId: "session-123" });
+
+      expect(logger.debug).not.toHaveBeenCalled();
+    });
+
+    it("should log retries", async () => {
+      const logger = createMockLogger();
+      const loggedClient = new Hone({ apiKey: mockApiKey, logger, retry: { baseDelay: 0 } });
+      mockFetch
+        .mockResolvedValueOnce({ ok: false, status: 503, statusText: "Unavailable", json: async () => ({}) })
+        .mockResolvedValueOnce({ ok: true, status: 200, json: async () => ({}) });
+
+      await loggedClient.track("test", [], { sessionId: "session-123" });
+
+      expect(logger.warn).toHaveBeenCalledWith(
+        expect.objectContaining({ endpoint: "/insert_runs", attempt: 1, status: 503 }),
+        "Retrying Hone API request",
+      );
+    });
+
+    it("should log fallbacks", async () => {
+      const logger = createMockLogger();
+      const loggedClient = new Hone({ apiKey: mockApiKey, logger });
+      mockFetch.mockRejectedValueOnce(new Error("Network error"));
+
+      await loggedClient.prompt("tone", { defaultPrompt: "Be kind." });
+
+      expect(logger.warn).toHaveBeenCalledWith(
+        { id: "tone", type: "prompt", error: "Network error" },
+        "Hone API unavailable, using local fallback",
+      );
+    });
+  });
+
+  describe("error handling", () => {
+    it("should throw error with message from API response", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 401,
+        statusText: "Unauthorized",
+        json: async () => ({ message: "Invalid API key" }),
+      });
+
+      await expect(
+        client.track("test", [{ role: "user", content: "Hi" }], { sessionId: "session-123" }),
+      ).rejects.toThrow("Hone API error (401): Invalid API key");
+    });
+
+    it("should use status text when error message not in response", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 403,
+        statusText: "Forbidden",
+        json: async () => ({}),
+      });
+
+      await expect(
+        client.track("test", [{ role: "user", content: "Hi" }], { sessionId: "session-123" }),
+      ).rejects.toThrow("Hone API error (403): Forbidden");
+    });
+
+    it("should handle JSON parse error in error response", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 500,
+        statusText: "Internal Server Error",
+        json: async () => {
+          throw new Error("Invalid JSON");
+        },
+      });
+
+      await expect(
+        client.track("test", [{ role: "user", content: "Hi" }], { sessionId: "session-123" }),
+      ).rejects.toThrow("Hone API error (500): Internal Server Error");
+    });
+
+    it("should throw typed errors carrying response details", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 429,
+        statusText: "Too Many Requests",
+        headers: new Headers({ "x-request-id": "req_123", "retry-after": "3" }),
+        json: async () => ({ error: "Slow down" }),
+      });
+
+      const error = await client
+        .track("test", [{ role: "user", content: "Hi" }], { sessionId: "session-123" })
+        .catch((e) => e);
+
+      expect(error).toBeInstanceOf(HoneRateLimitError);
+      expect(error).toBeInstanceOf(HoneAPIError);
+      expect(error).toBeInstanceOf(HoneError);
+      expect(error.message).toBe("Hone API error (429): Slow down");
+      expect(error.status).toBe(429);
+      expect(error.endpoint).toBe("/insert_runs");
+      expect(error.requestId).toBe("req_123");
+      expect(error.responseBody).toEqual({ error: "Slow down" });
+      expect(error.retryAfterMs).toBe(3000);
+      expect(error.retryable).toBe(true);
+    });
+
+    it.each([
+      [400, HoneValidationError, false],
+      [401, HoneAuthenticationError, false],
+      [403, HoneAuthenticationError, false],
+      [404, HoneAPIError, false],
+      [422, HoneValidationError, false],
+      [500, HoneServerError, true],
+      [503, HoneServerError, true],
+    ])("should map status %i to the matching error class", async (status, ErrorClass, retryable) => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status,
+        statusText: "Error",
+        json: async () => ({}),
+      });
+
+      const error = await client.track("test", [], { sessionId: "session-123" }).catch((e) => e);
+
+      expect(error).toBeInstanceOf(ErrorClass);
+      expect(error.retryable).toBe(retryable);
+    });
+
+    it("should throw HoneNetworkError when fetch rejects", async () => {
+      const cause = new TypeError("fetch failed");
+      mockFetch.mockRejectedValueOnce(cause);
+
+      const error = await client.track("test", [], { sessionId: "session-123" }).catch((e) => e);
+
+      expect(error).toBeInstanceOf(HoneNetworkError);
+      expect(error.message).toBe("fetch failed");
+      expect(error.cause).toBe(cause);
+      expect(error.endpoint).toBe("/insert_runs");
+    });
+
+    it("should throw HoneNetworkError when a successful response body can't be read", async () => {
+      const cause = new SyntaxError("Unexpected token < in JSON at position 0");
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: async () => {
+          throw cause;
+        },
+      });
+
+      const error = await client.track("test", [], { sessionId: "session-123" }).catch((e) => e);
+
+      expect(error).toBeInstanceOf(HoneError);
+      expect(error).toBeInstanceOf(HoneNetworkError);
+      expect(error.message).toBe("Invalid Hone API response: Unexpected token < in JSON at position 0");
+      expect(error.cause).toBe(cause);
+      expect(error.retryable).toBe(true);
+    });
+
+    it("should throw HoneTimeoutError when the request is aborted", async () => {
+      const abortError = new Error("aborted");
+      abortError.name = "AbortError";
+      mockFetch.mockRejectedValueOnce(abortError);
+
+      const error = await client.track("test", [], { sessionId: "session-123" }).catch((e) => e);
+
+      expect(error).toBeInstanceOf(HoneTimeoutError);
+      expect(error.message).toBe("Hone API request timed out after 10000ms");
+      expect(error.timeoutMs).toBe(10000);
+    });
+
+    it("should throw HoneValidationError for invalid track input", async () => {
+      await expect(
+        client.track("test", { provider: "unknown" } as never, { sessionId: "session-123" })
+      ).rejects.toBeInstanceOf(HoneValidationError);
     });
 
     it("should include User-Agent header in requests", async () => {
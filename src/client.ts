@@ -10,25 +10,93 @@ import {
   ToolResult,
   EntityV2Request,
   EntityV2Response,
+  EntityNode,
+  FallbackContext,
+  ResultSource,
+  RetryScope,
   TrackConversationOptions,
   TrackRequest,
+  TrackBatchRequest,
   TrackResponse,
+  TrackingConfig,
   TrackInput,
+  PriceTable,
+  ResponseMetadata,
+  TrackedAgent,
+  FeedbackOptions,
+  FeedbackRequest,
+  FeedbackResponse,
+  BinaryContentMode,
+  SessionOptions,
+  SpanOptions,
+  SpanRecord,
+  SpanBatchRequest,
 } from "./types";
 import {
   extractOpenAIMessages,
   extractAnthropicMessages,
   extractGeminiMessages,
+  extractOpenAIMetadata,
+  extractOpenAIResponsesMessages,
+  extractOpenAIResponsesMetadata,
+  extractAnthropicMetadata,
+  extractGeminiMetadata,
   normalizeOpenAIMessages,
+  normalizeOpenAIResponsesInput,
   normalizeAnthropicMessages,
   normalizeGeminiContents,
+  GeminiToolCallIds,
 } from "./tools";
+import {
+  extractOpenAIUsage,
+  extractOpenAIResponsesUsage,
+  extractAnthropicUsage,
+  extractGeminiUsage,
+  findModelPricing,
+  computeCost,
+} from "./usage";
+import {
+  normalizeAISDKMessages,
+  extractAISDKMessages,
+  extractAISDKUsage,
+  extractAISDKMetadata,
+  resolveAISDKResult,
+} from "./ai-sdk";
 import {
   formatEntityV2Request,
   getAgentNode,
   getToolNode,
   getTextPromptNode,
+  evaluateEntityNode,
 } from "./agent";
+import { HoneLogger, createLogger } from "./logger";
+import { applyBinaryContentMode, omitReasoning } from "./content";
+import { getHoneContext, runWithHoneContext } from "./context";
+import { Span, getActiveSpan, runInSpan } from "./trace";
+import { OTelBridge } from "./otel";
+import { DEFAULT_TRACKING_QUEUE_CONFIG, TrackingQueue } from "./queue";
+import { TrackingSpool } from "./spool";
+import {
+  EvaluationCache,
+  hashEntityV2Request,
+  resolveCacheConfig,
+} from "./cache";
+import {
+  HoneAPIError,
+  HoneError,
+  HoneNetworkError,
+  HoneTimeoutError,
+  HoneValidationError,
+  createAPIError,
+} from "./errors";
+import {
+  ResolvedRetryPolicy,
+  computeRetryDelay,
+  parseRetryAfter,
+  resolveRetryPolicy,
+  shouldRetry,
+  sleep,
+} from "./retry";
 
 const DEFAULT_BASE_URL = "https://honeagents.ai/api";
 const DEFAULT_TIMEOUT = 10000;
@@ -37,6 +105,22 @@ export class Hone implements HoneClient {
   private apiKey: string;
   private baseUrl: string;
   private timeout: number;
+  private fallback: boolean;
+  private onFallback?: (error: unknown, context: FallbackContext) => void;
+  private retryPolicies: Record<RetryScope, ResolvedRetryPolicy | null>;
+  private cache: EvaluationCache<EntityV2Response> | null;
+  private inflightEvaluations = new Map<string, Promise<EntityV2Response>>();
+  private logger: HoneLogger;
+  private trackingQueue: TrackingQueue<TrackRequest> | null = null;
+  private trackingConfig: TrackingConfig;
+  /** Created on the first span, so clients that don't trace add no exit handler */
+  private spanQueue: TrackingQueue<SpanRecord> | null = null;
+  private spool: TrackingSpool | null = null;
+  private trackingBatchSize: number;
+  private pricing?: PriceTable;
+  private binaryContent: BinaryContentMode;
+  private includeReasoning: boolean;
+  private telemetry: OTelBridge | null;
 
   constructor(config: HoneConfig) {
     this.apiKey = config.apiKey;
@@ -44,20 +128,83 @@ export class Hone implements HoneClient {
     this.baseUrl =
       process.env.HONE_API_URL || config.baseUrl || DEFAULT_BASE_URL;
     this.timeout = config.timeout || DEFAULT_TIMEOUT;
+    this.logger = createLogger(config.logger, config.logLevel);
+    this.fallback = config.fallback ?? true;
+    this.onFallback = config.onFallback;
+    this.pricing = config.pricing;
+    this.binaryContent = config.tracking?.binaryContent ?? "include";
+    this.includeReasoning = config.tracking?.includeReasoning ?? true;
+    this.telemetry = config.telemetry ? new OTelBridge(config.telemetry.tracer) : null;
+    this.retryPolicies = {
+      evaluate: resolveRetryPolicy(config.retry, "evaluate"),
+      track: resolveRetryPolicy(config.retry, "track"),
+    };
+    const cacheConfig = resolveCacheConfig(config.cache);
+    this.cache = cacheConfig ? new EvaluationCache(cacheConfig) : null;
+    this.trackingConfig = config.tracking ?? {};
+    this.trackingBatchSize =
+      config.tracking?.maxBatchSize ?? DEFAULT_TRACKING_QUEUE_CONFIG.maxBatchSize;
+    if (config.tracking?.mode === "background") {
+      this.trackingQueue = this.createTrackingQueue(config.tracking);
+    }
+    if (config.tracking?.spool) {
+      this.spool = new TrackingSpool(config.tracking.spool, this.logger);
+      if (config.tracking.spool.replayOnStartup ?? true) {
+        this.replaySpoolInBackground();
+      }
+    }
   }
 
   private async makeRequest<Request, Response>(
     endpoint: string,
     method: string = "GET",
     body?: Request,
+    scope: RetryScope = "evaluate",
+  ): Promise<Response> {
+    const policy = this.retryPolicies[scope];
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.attemptRequest<Request, Response>(endpoint, method, body, attempt);
+      } catch (error) {
+        if (!policy || !shouldRetry(policy, error, attempt)) {
+          throw error;
+        }
+        const retryAfterMs = error instanceof HoneAPIError ? error.retryAfterMs : undefined;
+        const delayMs = computeRetryDelay(policy, attempt, retryAfterMs);
+        this.logger.warn(
+          {
+            endpoint,
+            attempt,
+            maxAttempts: policy.maxAttempts,
+            delayMs,
+            status: error instanceof HoneError ? error.status : undefined,
+            error: describeError(error),
+          },
+          "Retrying Hone API request",
+        );
+        await sleep(delayMs);
+      }
+    }
+  }
+
+  /**
+   * Performs a single request attempt, converting failures into HoneError subclasses.
+   */
+  private async attemptRequest<Request, Response>(
+    endpoint: string,
+    method: string,
+    body: Request | undefined,
+    attempt: number,
   ): Promise<Response> {
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), this.timeout);
+    const url = `${this.baseUrl}${endpoint}`;
+    const startedAt = Date.now();
 
+    let response: globalThis.Response;
     try {
-      const url = `${this.baseUrl}${endpoint}`;
-      console.log(`Hone API Request: ${method} ${url}`);
-      const response = await fetch(url, {
+      response = await fetch(url, {
         method,
         headers: {
           "x-api-key": this.apiKey,
@@ -67,29 +214,294 @@ export class Hone implements HoneClient {
         body: body ? JSON.stringify(body) : undefined,
         signal: controller.signal,
       });
-
+    } catch (error) {
+      this.logger.debug(
+        {
+          endpoint,
+          method,
+          attempt,
+          durationMs: Date.now() - startedAt,
+          error: describeError(error),
+        },
+        "Hone API request failed",
+      );
+      if (error instanceof Error && error.name === "AbortError") {
+        throw new HoneTimeoutError(`Hone API request timed out after ${this.timeout}ms`, {
+          endpoint,
+          timeoutMs: this.timeout,
+          cause: error,
+        });
+      }
+      throw new HoneNetworkError(describeError(error), {
+        endpoint,
+        cause: error,
+      });
+    } finally {
       clearTimeout(timeoutId);
+    }
 
-      if (!response.ok) {
-        const errorData = (await response.json().catch(() => ({}))) as {
-          message?: string;
-          error?: string;
-        };
-        throw new Error(
-          `Hone API error (${response.status}): ${errorData.error || errorData.message || response.statusText}`,
-        );
-      }
+    this.logger.debug(
+      { endpoint, method, attempt, status: response.status, durationMs: Date.now() - startedAt },
+      "Hone API request",
+    );
+
+    if (!response.ok) {
+      const errorData = (await response.json().catch(() => undefined)) as
+        | { message?: string; error?: string }
+        | undefined;
+      throw createAPIError(
+        `Hone API error (${response.status}): ${errorData?.error || errorData?.message || response.statusText}`,
+        {
+          status: response.status,
+          endpoint,
+          requestId: response.headers?.get("x-request-id") ?? undefined,
+          responseBody: errorData,
+          retryAfterMs: parseRetryAfter(response.headers?.get("retry-after")),
+        },
+      );
+    }
 
+    // A 2xx with an unreadable body (a proxy's HTML page, a dropped connection) is retryable
+    try {
       return (await response.json()) as Response;
     } catch (error) {
-      clearTimeout(timeoutId);
-      if (error instanceof Error && error.name === "AbortError") {
-        throw new Error(`Hone API request timed out after ${this.timeout}ms`);
+      throw new HoneNetworkError(`Invalid Hone API response: ${describeError(error)}`, {
+        status: response.status,
+        endpoint,
+        requestId: response.headers?.get("x-request-id") ?? undefined,
+        cause: error,
+      });
+    }
+  }
+
+  private createTrackingQueue(config: TrackingConfig): TrackingQueue<TrackRequest> {
+    return new TrackingQueue<TrackRequest>({
+      maxBatchSize: config.maxBatchSize ?? DEFAULT_TRACKING_QUEUE_CONFIG.maxBatchSize,
+      flushInterval: config.flushInterval ?? DEFAULT_TRACKING_QUEUE_CONFIG.flushInterval,
+      maxQueueSize: config.maxQueueSize ?? DEFAULT_TRACKING_QUEUE_CONFIG.maxQueueSize,
+      dropPolicy: config.dropPolicy ?? DEFAULT_TRACKING_QUEUE_CONFIG.dropPolicy,
+      flushOnExit: config.flushOnExit ?? DEFAULT_TRACKING_QUEUE_CONFIG.flushOnExit,
+      onFlushError: config.onFlushError,
+      onDrop: config.onDrop,
+      logger: this.logger,
+      send: (runs) =>
+        this.deliverTracking(
+          () => this.makeRequest<TrackBatchRequest, TrackResponse>("/insert_runs/batch", "POST", { runs }, "track"),
+          (spool) => spool.append(runs),
+        ),
+    });
+  }
+
+  /**
+   * Queue for finished spans. Spans are always batched and delivered like runs:
+   * failed batches are spooled, or reported through onFlushError.
+   */
+  private getSpanQueue(): TrackingQueue<SpanRecord> {
+    const config = this.trackingConfig;
+    this.spanQueue ??= new TrackingQueue<SpanRecord>({
+      maxBatchSize: config.maxBatchSize ?? DEFAULT_TRACKING_QUEUE_CONFIG.maxBatchSize,
+      flushInterval: config.flushInterval ?? DEFAULT_TRACKING_QUEUE_CONFIG.flushInterval,
+      maxQueueSize: config.maxQueueSize ?? DEFAULT_TRACKING_QUEUE_CONFIG.maxQueueSize,
+      dropPolicy: config.dropPolicy ?? DEFAULT_TRACKING_QUEUE_CONFIG.dropPolicy,
+      flushOnExit: config.flushOnExit ?? DEFAULT_TRACKING_QUEUE_CONFIG.flushOnExit,
+      onFlushError: config.onFlushError,
+      onDrop: config.onDrop,
+      logger: this.logger,
+      send: (spans) =>
+        this.deliverTracking(
+          () => this.makeRequest<SpanBatchRequest, TrackResponse>("/insert_spans", "POST", { spans }, "track"),
+          (spool) => spool.appendSpans(spans),
+        ),
+    });
+    return this.spanQueue;
+  }
+
+  /**
+   * Runs a tracking send. If it fails with a retryable error and a spool is configured,
+   * the runs or spans are persisted to disk with spoolFailed instead of surfacing the error;
+   * errors a resend can't fix (e.g. 401, 422) are always thrown. After a successful send,
+   * previously spooled requests are replayed in the background.
+   */
+  private async deliverTracking(
+    send: () => Promise<TrackResponse>,
+    spoolFailed: (spool: TrackingSpool) => Promise<boolean>,
+  ): Promise<void> {
+    try {
+      await send();
+    } catch (error) {
+      const spooled = this.spool && isRetryable(error)
+        ? await spoolFailed(this.spool).catch((spoolError) => {
+            this.logger.error({ error: describeError(spoolError) }, "Failed to write tracking spool");
+            return false;
+          })
+        : false;
+      if (!spooled) {
+        throw error;
       }
-      throw error;
+      return;
+    }
+
+    if (this.spool?.pending) {
+      this.replaySpoolInBackground();
+    }
+  }
+
+  /**
+   * Sends conversations and spans persisted by the tracking spool.
+   * Those that still fail with a retryable error are kept for the next replay; batches
+   * the API rejects are discarded and passed to tracking.onFlushError.
+   *
+   * @returns The number of conversations and spans delivered
+   */
+  async replaySpool(): Promise<number> {
+    if (!this.spool) {
+      return 0;
+    }
+    return this.spool.replay(
+      {
+        runs: (runs) => this.makeRequest<TrackBatchRequest, TrackResponse>("/insert_runs/batch", "POST", { runs }, "track"),
+        spans: (spans) => this.makeRequest<SpanBatchRequest, TrackResponse>("/insert_spans", "POST", { spans }, "track"),
+        isRetryable,
+        onDiscard: this.trackingConfig.onFlushError,
+      },
+      this.trackingBatchSize,
+    );
+  }
+
+  private replaySpoolInBackground(): void {
+    this.replaySpool().catch((error) => {
+      this.logger.error({ error: describeError(error) }, "Failed to replay tracking spool");
+    });
+  }
+
+  /**
+   * Evaluates an entity, in an OpenTelemetry span when telemetry is enabled.
+   */
+  private async evaluate(
+    node: EntityNode,
+    request: EntityV2Request,
+  ): Promise<{ response: EntityV2Response; source: ResultSource }> {
+    if (this.telemetry) {
+      return this.telemetry.traceEvaluation(node, () => this.evaluateWithFallback(node, request));
+    }
+    return this.evaluateWithFallback(node, request);
+  }
+
+  /**
+   * Evaluates an entity via the /evaluate endpoint.
+   * If the API is unavailable (network, timeout, 429 or 5xx errors) and fallback is enabled,
+   * renders the local node tree instead. Authentication and validation errors are rethrown.
+   */
+  private async evaluateWithFallback(
+    node: EntityNode,
+    request: EntityV2Request,
+  ): Promise<{ response: EntityV2Response; source: ResultSource }> {
+    try {
+      const response = await this.fetchEvaluation(request);
+      return { response, source: "api" };
+    } catch (error) {
+      if (!this.fallback || !isRetryable(error)) {
+        throw error;
+      }
+      this.logger.warn(
+        {
+          id: node.id,
+          type: node.type,
+          error: describeError(error),
+        },
+        "Hone API unavailable, using local fallback",
+      );
+      this.onFallback?.(error, { id: node.id, type: node.type });
+      return { response: this.buildFallbackResponse(node, request), source: "fallback" };
     }
   }
 
+  /**
+   * Returns the API evaluation for a request, serving it from the cache when enabled.
+   * Stale entries within the stale-while-revalidate window are returned immediately
+   * while a background request refreshes them. Cached responses are returned as copies,
+   * so changes to one result don't leak into the next.
+   */
+  private async fetchEvaluation(request: EntityV2Request): Promise<EntityV2Response> {
+    if (!this.cache) {
+      return this.makeRequest<EntityV2Request, EntityV2Response>("/evaluate", "POST", request);
+    }
+
+    const key = hashEntityV2Request(request);
+    const cached = this.cache.get(key);
+    if (cached) {
+      if (cached.stale) {
+        // Background refresh: failures keep serving the stale entry until it expires
+        this.refreshEvaluation(key, request).catch((error) => {
+          this.logger.warn(
+            { id: request.id, type: request.type, error: describeError(error) },
+            "Background refresh of cached evaluation failed",
+          );
+        });
+      }
+      return structuredClone(cached.value);
+    }
+    return structuredClone(await this.refreshEvaluation(key, request));
+  }
+
+  /**
+   * Requests an evaluation and stores it in the cache.
+   * Concurrent calls for the same key share a single in-flight request.
+   */
+  private refreshEvaluation(key: string, request: EntityV2Request): Promise<EntityV2Response> {
+    const inflight = this.inflightEvaluations.get(key);
+    if (inflight) {
+      return inflight;
+    }
+
+    const promise = this.makeRequest<EntityV2Request, EntityV2Response>("/evaluate", "POST", request)
+      .then((response) => {
+        this.cache?.set(key, response);
+        return response;
+      })
+      .finally(() => {
+        this.inflightEvaluations.delete(key);
+      });
+    this.inflightEvaluations.set(key, promise);
+    return promise;
+  }
+
+  /**
+   * Removes all cached evaluation results.
+   */
+  clearCache(): void {
+    this.cache?.clear();
+  }
+
+  /**
+   * Builds an EntityV2Response from the local node tree, mirroring what the
+   * server would return for an entity with no stored version.
+   */
+  private buildFallbackResponse(
+    node: EntityNode,
+    request: EntityV2Request,
+  ): EntityV2Response {
+    const data = request.data ?? {};
+    return {
+      evaluatedPrompt: evaluateEntityNode(node),
+      template: node.prompt,
+      type: node.type,
+      data: {
+        ...data,
+        model: data.model ?? null,
+        provider: data.provider ?? null,
+        temperature: data.temperature ?? null,
+        maxTokens: data.maxTokens ?? null,
+        topP: data.topP ?? null,
+        frequencyPenalty: data.frequencyPenalty ?? null,
+        presencePenalty: data.presencePenalty ?? null,
+        stopSequences: data.stopSequences ?? [],
+        tools: data.tools ?? [],
+      },
+      majorVersion: request.majorVersion,
+    };
+  }
+
   async agent<TExtra extends Record<string, unknown> = Record<string, unknown>>(
     id: string,
     options: GetAgentOptions<TExtra>
@@ -104,18 +516,14 @@ export class Hone implements HoneClient {
       Object.assign(request.data, options.extra);
     }
 
-    // Call evaluate endpoint - server handles evaluation
-    const response = await this.makeRequest<EntityV2Request, EntityV2Response>(
-      "/evaluate",
-      "POST",
-      request
-    );
+    // Call evaluate endpoint - server handles evaluation, local fallback on failure
+    const { response, source } = await this.evaluate(node, request);
 
     // Extract extra data from response
     const { model, provider, temperature, maxTokens, topP, frequencyPenalty, presencePenalty, stopSequences, tools, ...extra } = response.data;
     const extraData = extra as TExtra;
 
-    // Response includes evaluated prompt - no client-side evaluation needed
+    // Response includes evaluated prompt - evaluated locally only on fallback
     return {
       systemPrompt: response.evaluatedPrompt,
       model: model ?? options.model,
@@ -128,6 +536,11 @@ export class Hone implements HoneClient {
       stopSequences: stopSequences ?? options.stopSequences ?? [],
       tools: tools ?? options.tools ?? [],
       ...extraData,
+      source,
+      agentId: id,
+      majorVersion: response.majorVersion ?? null,
+      minorVersion: response.minorVersion ?? null,
+      evaluationId: response.evaluationId ?? null,
     } as AgentResult<TExtra>;
   }
 
@@ -137,16 +550,15 @@ export class Hone implements HoneClient {
     // Format request using nested structure
     const request = formatEntityV2Request(node);
 
-    // Call evaluate endpoint - server handles evaluation
-    const response = await this.makeRequest<EntityV2Request, EntityV2Response>(
-      "/evaluate",
-      "POST",
-      request
-    );
+    // Call evaluate endpoint - server handles evaluation, local fallback on failure
+    const { response, source } = await this.evaluate(node, request);
 
-    // Response includes evaluated prompt - no client-side evaluation needed
+    // Response includes evaluated prompt and schema - evaluated locally only on fallback
     return {
       prompt: response.evaluatedPrompt,
+      source,
+      toolId: id,
+      parameters: response.data.parameters ?? node.parameters ?? null,
     };
   }
 
@@ -156,23 +568,27 @@ export class Hone implements HoneClient {
     // Format request using nested structure
     const request = formatEntityV2Request(node);
 
-    // Call evaluate endpoint - server handles evaluation
-    const response = await this.makeRequest<EntityV2Request, EntityV2Response>(
-      "/evaluate",
-      "POST",
-      request
-    );
+    // Call evaluate endpoint - server handles evaluation, local fallback on failure
+    const { response } = await this.evaluate(node, request);
 
-    // Return the evaluated text directly
+    // Return the evaluated text directly (use HoneConfig.onFallback to detect fallbacks)
     return response.evaluatedPrompt;
   }
 
-  async track(
+  async track<TMetadata extends Record<string, unknown> = Record<string, unknown>>(
     id: string,
     input: TrackInput,
-    options: TrackConversationOptions,
+    options: TrackConversationOptions<TMetadata>,
   ): Promise<void> {
+    const context = getHoneContext();
+    const sessionId = options.sessionId ?? context?.sessionId;
+    if (!sessionId) {
+      throw new HoneValidationError("Missing sessionId: pass it in options or track within hone.withSession()");
+    }
+
     let normalizedMessages: Message[];
+    let usage = options.usage;
+    let metadata: ResponseMetadata = {};
 
     if (Array.isArray(input)) {
       // Already in normalized format
@@ -182,6 +598,21 @@ export class Hone implements HoneClient {
       const inputMessages = normalizeOpenAIMessages(input.messages);
       const responseMessages = extractOpenAIMessages(input.response);
       normalizedMessages = [...inputMessages, ...responseMessages];
+      usage ??= extractOpenAIUsage(input.response);
+      metadata = extractOpenAIMetadata(input.response);
+    } else if (input.provider === "openai-responses") {
+      // Responses API format: add instructions + normalize input items + extract output items
+      const instructions =
+        input.instructions ??
+        (typeof input.response.instructions === "string" ? input.response.instructions : undefined);
+      const systemMessage: Message[] = instructions
+        ? [{ role: "system", content: instructions }]
+        : [];
+      const inputMessages = normalizeOpenAIResponsesInput(input.input);
+      const responseMessages = extractOpenAIResponsesMessages(input.response);
+      normalizedMessages = [...systemMessage, ...inputMessages, ...responseMessages];
+      usage ??= extractOpenAIResponsesUsage(input.response);
+      metadata = extractOpenAIResponsesMetadata(input.response);
     } else if (input.provider === "anthropic") {
       // Anthropic format: add system + normalize input messages + extract response
       const systemMessage: Message[] = input.system
@@ -190,25 +621,214 @@ export class Hone implements HoneClient {
       const inputMessages = normalizeAnthropicMessages(input.messages);
       const responseMessages = extractAnthropicMessages(input.response);
       normalizedMessages = [...systemMessage, ...inputMessages, ...responseMessages];
+      usage ??= extractAnthropicUsage(input.response);
+      metadata = extractAnthropicMetadata(input.response);
     } else if (input.provider === "gemini") {
       // Gemini format: add system + normalize contents + extract response
       const systemMessage: Message[] = input.systemInstruction
         ? [{ role: "system", content: input.systemInstruction }]
         : [];
-      const inputMessages = normalizeGeminiContents(input.contents);
-      const responseMessages = extractGeminiMessages(input.response);
+      // Share tool call ids so response calls continue numbering from the contents
+      const toolCallIds = new GeminiToolCallIds();
+      const inputMessages = normalizeGeminiContents(input.contents, toolCallIds);
+      const responseMessages = extractGeminiMessages(input.response, toolCallIds);
       normalizedMessages = [...systemMessage, ...inputMessages, ...responseMessages];
+      usage ??= extractGeminiUsage(input.response);
+      metadata = extractGeminiMetadata(input.response);
+    } else if (input.provider === "ai-sdk") {
+      // AI SDK format: add system + normalize messages + extract every step of the result
+      const result = await resolveAISDKResult(input.result);
+      const systemMessage: Message[] = input.system
+        ? [{ role: "system", content: input.system }]
+        : [];
+      const inputMessages = normalizeAISDKMessages(input.messages);
+      const responseMessages = extractAISDKMessages(result);
+      normalizedMessages = [...systemMessage, ...inputMessages, ...responseMessages];
+      usage ??= extractAISDKUsage(result);
+      metadata = extractAISDKMetadata(result);
     } else {
-      throw new Error("Invalid track input: must be Message[] or provider-specific input");
+      throw new HoneValidationError("Invalid track input: must be Message[] or provider-specific input");
+    }
+
+    const request: TrackRequest = {
+      id,
+      messages: applyBinaryContentMode(
+        this.includeReasoning ? normalizedMessages : omitReasoning(normalizedMessages),
+        this.binaryContent,
+      ),
+      sessionId,
+      timestamp: new Date().toISOString(),
+    };
+
+    const model = options.model ?? metadata.model;
+    const finishReason = options.finishReason ?? metadata.finishReason;
+    const responseId = options.responseId ?? metadata.responseId;
+    if (model) request.model = model;
+    if (finishReason) request.finishReason = finishReason;
+    if (responseId) request.responseId = responseId;
+
+    const startTime = options.startTime !== undefined ? toDate(options.startTime, "startTime") : undefined;
+    const endTime = options.endTime !== undefined ? toDate(options.endTime, "endTime") : undefined;
+    if (startTime) request.startTime = startTime.toISOString();
+    if (endTime) request.endTime = endTime.toISOString();
+    const durationMs =
+      options.durationMs ??
+      (startTime && endTime ? endTime.getTime() - startTime.getTime() : undefined);
+    if (durationMs !== undefined) request.durationMs = durationMs;
+    if (options.agent !== undefined) request.agent = toTrackedAgent(options.agent);
+    const span = getActiveSpan();
+    const traceId = options.traceId ?? span?.traceId;
+    const spanId = options.spanId ?? span?.spanId;
+    if (traceId) request.traceId = traceId;
+    if (spanId) request.spanId = spanId;
+    const userId = options.userId ?? context?.userId;
+    if (userId) request.userId = userId;
+    if (options.environment) request.environment = options.environment;
+    if (options.release) request.release = options.release;
+    if (options.tags?.length) request.tags = options.tags;
+    if (context?.metadata || options.metadata) {
+      request.metadata = { ...context?.metadata, ...options.metadata };
+    }
+
+    if (usage) {
+      request.usage = usage;
+      const pricing = this.pricing && model ? findModelPricing(this.pricing, model) : undefined;
+      if (pricing) {
+        request.cost = computeCost(usage, pricing);
+      }
+    }
+
+    this.telemetry?.recordRun(request, input);
+
+    if (this.trackingQueue) {
+      this.trackingQueue.enqueue(request);
+      return;
+    }
+
+    await this.deliverTracking(
+      () => this.makeRequest<TrackRequest, TrackResponse>("/insert_runs", "POST", request, "track"),
+      (spool) => spool.append([request]),
+    );
+  }
+
+  async feedback<TMetadata extends Record<string, unknown> = Record<string, unknown>>(
+    id: string,
+    feedback: FeedbackOptions<TMetadata>,
+  ): Promise<void> {
+    const { thumbs, score, label, comment } = feedback;
+    if (thumbs === undefined && score === undefined && label === undefined && comment === undefined) {
+      throw new HoneValidationError("Feedback must include thumbs, score, label or comment");
+    }
+    if (thumbs !== undefined && thumbs !== "up" && thumbs !== "down") {
+      throw new HoneValidationError(`Invalid thumbs value: ${String(thumbs)}`);
+    }
+    if (score !== undefined && !Number.isFinite(score)) {
+      throw new HoneValidationError(`Invalid score: ${String(score)}`);
     }
 
-    await this.makeRequest<TrackRequest, TrackResponse>("/insert_runs", "POST", {
+    const request: FeedbackRequest = {
+      ...feedback,
       id,
-      messages: normalizedMessages,
-      sessionId: options.sessionId,
+      source: feedback.source ?? "user",
       timestamp: new Date().toISOString(),
+    };
+
+    // Fill in whatever the feedback doesn't set from the session context
+    const context = getHoneContext();
+    if (context) {
+      request.sessionId ??= context.sessionId;
+      if (context.userId) request.userId ??= context.userId;
+      if (context.metadata) request.metadata = { ...context.metadata, ...feedback.metadata };
+    }
+
+    await this.makeRequest<FeedbackRequest, FeedbackResponse>("/insert_feedback", "POST", request, "track");
+  }
+
+  startSpan(name: string, options: SpanOptions): Span {
+    const sessionId = options.sessionId ?? getHoneContext()?.sessionId;
+    return new Span(name, { ...options, sessionId }, (record) => {
+      const queue = this.getSpanQueue();
+      queue.enqueue(record);
+      // In sync mode a trace is sent as soon as its root span ends
+      if (!record.parentSpanId && !this.trackingQueue) {
+        void queue.flush();
+      }
     });
   }
+
+  recordSpans(spans: SpanRecord[]): void {
+    const queue = this.getSpanQueue();
+    for (const span of spans) {
+      queue.enqueue(span);
+    }
+    if (!this.trackingQueue) {
+      void queue.flush();
+    }
+  }
+
+  async span<T>(name: string, options: SpanOptions, fn: (span: Span) => T | Promise<T>): Promise<T> {
+    const span = this.startSpan(name, options);
+    try {
+      return await runInSpan(span, () => fn(span));
+    } catch (error) {
+      span.recordError(error);
+      throw error;
+    } finally {
+      span.end();
+      if (!span.parentSpanId && !this.trackingQueue) {
+        await this.spanQueue?.flush();
+      }
+    }
+  }
+
+  withSession<T>(sessionId: string, optionsOrFn: SessionOptions | (() => T), fn?: () => T): T {
+    if (!sessionId) {
+      throw new HoneValidationError("withSession requires a sessionId");
+    }
+    if (typeof optionsOrFn === "function") {
+      return runWithHoneContext({ sessionId }, optionsOrFn);
+    }
+    if (!fn) {
+      throw new HoneValidationError("withSession requires a function to run");
+    }
+    return runWithHoneContext({ ...optionsOrFn, sessionId }, fn);
+  }
+
+  async flush(): Promise<void> {
+    await Promise.all([this.trackingQueue?.flush(), this.spanQueue?.flush()]);
+  }
+
+  async shutdown(): Promise<void> {
+    await Promise.all([this.trackingQueue?.shutdown(), this.spanQueue?.shutdown()]);
+  }
+}
+
+function describeError(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/** Whether a failed API call may succeed if sent again (network errors, timeouts, 408, 429, 5xx) */
+function isRetryable(error: unknown): boolean {
+  return error instanceof HoneError && error.retryable;
+}
+
+function toTrackedAgent(agent: AgentResult | string): TrackedAgent {
+  if (typeof agent === "string") {
+    return { evaluationId: agent };
+  }
+  const tracked: TrackedAgent = { id: agent.agentId, source: agent.source };
+  if (agent.majorVersion !== null) tracked.majorVersion = agent.majorVersion;
+  if (agent.minorVersion !== null) tracked.minorVersion = agent.minorVersion;
+  if (agent.evaluationId !== null) tracked.evaluationId = agent.evaluationId;
+  return tracked;
+}
+
+function toDate(value: Date | string | number, name: string): Date {
+  const date = value instanceof Date ? value : new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new HoneValidationError(`Invalid ${name}: ${String(value)}`);
+  }
+  return date;
 }
 
 // Factory function for easier initialization
@@ -0,0 +1,134 @@
+import { describe, it, expect } from "vitest";
+import { createHash } from "node:crypto";
+import {
+  applyBinaryContentMode,
+  mediaPartFromData,
+  mediaPartFromUrl,
+  mediaTypeFromMime,
+  parseDataUrl,
+  partsToMessageContent,
+  omitReasoning,
+} from "./content";
+import { Message } from "./types";
+
+describe("content", () => {
+  describe("parseDataUrl", () => {
+    it("should split base64 data URLs", () => {
+      expect(parseDataUrl("data:image/png;base64,iVBORw0K")).toEqual({
+        mimeType: "image/png",
+        data: "iVBORw0K",
+      });
+    });
+
+    it("should return undefined for other URLs", () => {
+      expect(parseDataUrl("https://example.com/cat.png")).toBeUndefined();
+      expect(parseDataUrl("data:text/plain,hello")).toBeUndefined();
+    });
+  });
+
+  describe("media parts", () => {
+    it("should keep remote URLs and split data URLs", () => {
+      expect(mediaPartFromUrl("image", "https://example.com/cat.png", { detail: "high" })).toEqual({
+        type: "image",
+        url: "https://example.com/cat.png",
+        detail: "high",
+      });
+      expect(mediaPartFromUrl("image", "data:image/jpeg;base64,AAAA")).toEqual({
+        type: "image",
+        data: "AAAA",
+        mimeType: "image/jpeg",
+      });
+    });
+
+    it("should accept raw base64 data", () => {
+      expect(mediaPartFromData("file", "JVBERi0", { filename: "a.pdf" })).toEqual({
+        type: "file",
+        data: "JVBERi0",
+        filename: "a.pdf",
+      });
+    });
+
+    it("should infer the part type from the mime type", () => {
+      expect(mediaTypeFromMime("image/webp")).toBe("image");
+      expect(mediaTypeFromMime("audio/wav")).toBe("audio");
+      expect(mediaTypeFromMime("application/pdf")).toBe("file");
+    });
+  });
+
+  describe("partsToMessageContent", () => {
+    it("should only set parts when there is non-text content", () => {
+      expect(partsToMessageContent([{ type: "text", text: "a" }, { type: "text", text: "b" }])).toEqual({
+        content: "a\nb",
+      });
+
+      const parts = [
+        { type: "text" as const, text: "What is this?" },
+        { type: "image" as const, url: "https://example.com/cat.png" },
+      ];
+      expect(partsToMessageContent(parts)).toEqual({ content: "What is this?", parts });
+    });
+  });
+
+  describe("applyBinaryContentMode", () => {
+    const data = Buffer.from("hello image").toString("base64");
+    const messages: Message[] = [
+      {
+        role: "user",
+        content: "Look",
+        parts: [
+          { type: "text", text: "Look" },
+          { type: "image", data, mimeType: "image/png" },
+          { type: "image", url: "https://example.com/cat.png" },
+        ],
+      },
+      { role: "assistant", content: "A cat" },
+    ];
+
+    it("should leave messages unchanged in include mode", () => {
+      expect(applyBinaryContentMode(messages, "include")).toBe(messages);
+    });
+
+    it("should drop payloads in redact mode", () => {
+      const [user, assistant] = applyBinaryContentMode(messages, "redact");
+
+      expect(user.parts![1]).toEqual({ type: "image", mimeType: "image/png", size: 11 });
+      expect(user.parts![2]).toEqual({ type: "image", url: "https://example.com/cat.png" });
+      expect(assistant).toBe(messages[1]);
+    });
+
+    it("should replace payloads with a SHA-256 in hash mode", () => {
+      const [user] = applyBinaryContentMode(messages, "hash");
+
+      expect(user.parts![1]).toEqual({
+        type: "image",
+        mimeType: "image/png",
+        size: 11,
+        sha256: createHash("sha256").update("hello image").digest("hex"),
+      });
+    });
+
+    it("should not mutate the input", () => {
+      applyBinaryContentMode(messages, "redact");
+
+      expect((messages[0].parts![1] as { data?: string }).data).toBe(data);
+    });
+  });
+
+  describe("omitReasoning", () => {
+    it("should remove reasoning without mutating the input", () => {
+      const messages: Message[] = [
+        { role: "user", content: "Hi" },
+        { role: "assistant", content: "Hello", reasoning: "Greet back" },
+      ];
+
+      const result = omitReasoning(messages);
+
+      expect(result).toEqual([
+        { role: "user", content: "Hi" },
+        { role: "assistant", content: "Hello" },
+      ]);
+      expect(result[0]).toBe(messages[0]);
+      expect(messages[1].reasoning).toBe("Greet back");
+    });
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * Structured message content for multimodal conversations.
+ *
+ * Normalizers populate Message.parts with text, image, audio and file parts so
+ * non-text input isn't lost. Binary payloads can be kept, redacted, or replaced
+ * by a hash before the conversation leaves the process, and model reasoning can be
+ * omitted for privacy.
+ */
+
+import { createHash } from "node:crypto";
+import { BinaryContentMode, ContentPart, MediaPart, Message } from "./types.js";
+
+const DATA_URL_PATTERN = /^data:([^;,]+)?(?:;[^;,]+)*;base64,(.*)$/s;
+
+/**
+ * Splits a base64 data URL into its mime type and payload.
+ *
+ * @returns The parsed parts, or undefined if the value isn't a base64 data URL
+ */
+export function parseDataUrl(url: string): { mimeType?: string; data: string } | undefined {
+  const match = DATA_URL_PATTERN.exec(url);
+  if (!match) {
+    return undefined;
+  }
+  return match[1] ? { mimeType: match[1], data: match[2] } : { data: match[2] };
+}
+
+/**
+ * Picks the media part type for a mime type, e.g. "image/png" → "image".
+ */
+export function mediaTypeFromMime(
+  mimeType: string | undefined,
+  fallback: MediaPart["type"] = "file"
+): MediaPart["type"] {
+  if (mimeType?.startsWith("image/")) return "image";
+  if (mimeType?.startsWith("audio/")) return "audio";
+  return mimeType ? "file" : fallback;
+}
+
+/**
+ * Creates a media part from a URL. Data URLs are split into data and mimeType.
+ */
+export function mediaPartFromUrl(
+  type: MediaPart["type"],
+  url: string,
+  extra: Omit<MediaPart, "type" | "url" | "data"> = {}
+): MediaPart {
+  const parsed = parseDataUrl(url);
+  if (parsed) {
+    return { type, ...extra, ...parsed };
+  }
+  return { type, url, ...extra };
+}
+
+/**
+ * Creates a media part from inline base64 data, which may be wrapped in a data URL.
+ */
+export function mediaPartFromData(
+  type: MediaPart["type"],
+  data: string,
+  extra: Omit<MediaPart, "type" | "url" | "data"> = {}
+): MediaPart {
+  return { type, ...extra, ...(parseDataUrl(data) ?? { data }) };
+}
+
+/**
+ * Builds Message content from parts.
+ * content is the text parts joined by newlines; parts is only set when
+ * there is non-text content, so text-only messages stay unchanged.
+ */
+export function partsToMessageContent(parts: ContentPart[]): Pick<Message, "content" | "parts"> {
+  const content = parts
+    .filter((part): part is Extract<ContentPart, { type: "text" }> => part.type === "text")
+    .map((part) => part.text)
+    .join("\n");
+
+  return parts.some((part) => part.type !== "text") ? { content, parts } : { content };
+}
+
+/**
+ * Applies the binary content mode to inline payloads.
+ * - "include": payloads are sent as-is
+ * - "redact": payloads are removed; size is kept
+ * - "hash": payloads are replaced by their SHA-256; size is kept
+ *
+ * URLs and file ids are never modified. Returns new messages; the input is not mutated.
+ */
+export function applyBinaryContentMode(messages: Message[], mode: BinaryContentMode): Message[] {
+  if (mode === "include") {
+    return messages;
+  }
+
+  return messages.map((message) => {
+    if (!message.parts?.some((part) => part.type !== "text" && part.data !== undefined)) {
+      return message;
+    }
+
+    return {
+      ...message,
+      parts: message.parts.map((part) => {
+        if (part.type === "text" || part.data === undefined) {
+          return part;
+        }
+        const { data, ...rest } = part;
+        const bytes = Buffer.from(data, "base64");
+        const stripped: MediaPart = { ...rest, size: bytes.length };
+        if (mode === "hash") {
+          stripped.sha256 = createHash("sha256").update(bytes).digest("hex");
+        }
+        return stripped;
+      }),
+    };
+  });
+}
+
+/**
+ * Removes Message.reasoning. Returns new messages; the input is not mutated.
+ */
+export function omitReasoning(messages: Message[]): Message[] {
+  return messages.map((message) => {
+    if (message.reasoning === undefined) {
+      return message;
+    }
+    const copy = { ...message };
+    delete copy.reasoning;
+    return copy;
+  });
+}
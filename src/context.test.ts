@@ -0,0 +1,91 @@
+import { describe, it, expect, vi } from "vitest";
+import Fastify from "fastify";
+import { getHoneContext, honeExpress, honeFastify, runWithHoneContext } from "./context";
+import { Hone } from "./client";
+
+describe("session context", () => {
+  const hone = new Hone({ apiKey: "test-api-key" });
+
+  describe("runWithHoneContext", () => {
+    it("should expose the context within fn and across awaits", async () => {
+      expect(getHoneContext()).toBeUndefined();
+
+      await runWithHoneContext({ sessionId: "s1" }, async () => {
+        await new Promise((resolve) => setTimeout(resolve, 0));
+        expect(getHoneContext()).toEqual({ sessionId: "s1" });
+      });
+
+      expect(getHoneContext()).toBeUndefined();
+    });
+
+    it("should inherit the user id and merge metadata when nested", () => {
+      runWithHoneContext({ sessionId: "s1", userId: "user-1", metadata: { a: 1, b: 1 } }, () => {
+        runWithHoneContext({ sessionId: "s2", metadata: { b: 2 } }, () => {
+          expect(getHoneContext()).toEqual({ sessionId: "s2", userId: "user-1", metadata: { a: 1, b: 2 } });
+        });
+      });
+    });
+  });
+
+  describe("honeExpress", () => {
+    it("should run the rest of the request within the session", () => {
+      const middleware = honeExpress(hone, {
+        sessionId: (req) => req.headers["x-session-id"] as string | undefined,
+        userId: () => "user-1",
+      });
+      const next = vi.fn(() => getHoneContext());
+
+      middleware({ headers: { "x-session-id": "s1" } }, {}, next);
+
+      expect(next).toHaveBeenCalledTimes(1);
+      expect(next.mock.results[0].value).toEqual({ sessionId: "s1", userId: "user-1" });
+    });
+
+    it("should pass requests without a session id through", () => {
+      const middleware = honeExpress(hone, { sessionId: () => undefined });
+      const next = vi.fn(() => getHoneContext());
+
+      middleware({ headers: {} }, {}, next);
+
+      expect(next.mock.results[0].value).toBeUndefined();
+    });
+  });
+
+  describe("honeFastify", () => {
+    it("should run the rest of the request within the session", () => {
+      const hook = honeFastify(hone, {
+        sessionId: (request) => request.headers["x-session-id"] as string | undefined,
+        metadata: () => ({ route: "/chat" }),
+      });
+      const done = vi.fn(() => getHoneContext());
+
+      hook({ headers: { "x-session-id": "s1" } }, {}, done);
+
+      expect(done.mock.results[0].value).toEqual({ sessionId: "s1", metadata: { route: "/chat" } });
+    });
+
+    it("should keep the session in handlers of routes with a request body", async () => {
+      const app = Fastify();
+      const sessionId = vi.fn((request: { headers: Record<string, unknown> }) => request.headers["x-session-id"] as string);
+      const hook = honeFastify(hone, { sessionId });
+      app.addHook("onRequest", hook);
+      app.addHook("preValidation", hook);
+      app.post("/chat", async () => ({ context: getHoneContext() ?? null }));
+
+      try {
+        // Over a real socket, so the body is read and parsed after onRequest
+        const address = await app.listen({ port: 0, host: "127.0.0.1" });
+        const response = await fetch(`${address}/chat`, {
+          method: "POST",
+          headers: { "content-type": "application/json", "x-session-id": "s1" },
+          body: JSON.stringify({ message: "hi" }),
+        });
+
+        expect(await response.json()).toEqual({ context: { sessionId: "s1" } });
+        expect(sessionId).toHaveBeenCalledTimes(1);
+      } finally {
+        await app.close();
+      }
+    });
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * Implicit session context.
+ *
+ * hone.withSession() stores the session in an AsyncLocalStorage, so track(),
+ * feedback() and wrapped clients called anywhere below it (including after awaits)
+ * pick up the session id, user id and metadata without them being passed down.
+ * honeExpress() and honeFastify() open the context for each incoming request.
+ *
+ * @example
+ * ```typescript
+ * app.use(honeExpress(hone, { sessionId: (req) => req.header("x-session-id") }));
+ *
+ * app.post("/chat", async (req, res) => {
+ *   const response = await openai.chat.completions.create({ model: "gpt-4o", messages });
+ *   await hone.track("chat", { provider: "openai", messages, response }); // no sessionId needed
+ * });
+ * ```
+ */
+
+import { AsyncLocalStorage } from "node:async_hooks";
+import {
+  HoneClient,
+  HoneContext,
+  HttpRequestLike,
+  SessionMiddlewareOptions,
+  SessionOptions,
+} from "./types.js";
+
+const storage = new AsyncLocalStorage<HoneContext>();
+
+/**
+ * Returns the current session context, or undefined outside hone.withSession().
+ */
+export function getHoneContext(): HoneContext | undefined {
+  return storage.getStore();
+}
+
+/**
+ * Runs fn with the given context. Inside an existing context, the user id is
+ * inherited unless set and metadata is merged, with the new context's values winning.
+ */
+export function runWithHoneContext<T>(context: HoneContext, fn: () => T): T {
+  const parent = storage.getStore();
+  if (!parent) {
+    return storage.run(context, fn);
+  }
+
+  const merged: HoneContext = { sessionId: context.sessionId };
+  const userId = context.userId ?? parent.userId;
+  if (userId !== undefined) merged.userId = userId;
+  if (parent.metadata || context.metadata) {
+    merged.metadata = { ...parent.metadata, ...context.metadata };
+  }
+  return storage.run(merged, fn);
+}
+
+/**
+ * Express middleware that runs each request within hone.withSession().
+ *
+ * @example
+ * ```typescript
+ * app.use(honeExpress(hone, {
+ *   sessionId: (req) => req.header("x-session-id"),
+ *   userId: (req) => req.user?.id,
+ * }));
+ * ```
+ */
+export function honeExpress<TRequest = HttpRequestLike>(
+  hone: Pick<HoneClient, "withSession">,
+  options: SessionMiddlewareOptions<TRequest>
+): (req: TRequest, res: unknown, next: (error?: unknown) => void) => void {
+  return (req, _res, next) => {
+    runWithRequestContext(hone, options, req, next);
+  };
+}
+
+/**
+ * Fastify hook that runs each request within hone.withSession().
+ *
+ * Register it for both onRequest and preValidation. Fastify parses request bodies
+ * outside the onRequest context, so handlers of requests with a body would otherwise
+ * run without a session; the preValidation call re-enters the context opened in onRequest.
+ *
+ * @example
+ * ```typescript
+ * const honeSession = honeFastify(hone, {
+ *   sessionId: (request) => request.headers["x-session-id"] as string | undefined,
+ * });
+ * fastify.addHook("onRequest", honeSession);
+ * fastify.addHook("preValidation", honeSession);
+ * ```
+ */
+export function honeFastify<TRequest = HttpRequestLike>(
+  hone: Pick<HoneClient, "withSession">,
+  options: SessionMiddlewareOptions<TRequest>
+): (request: TRequest, reply: unknown, done: (error?: Error) => void) => void {
+  // Resolved once per request, in the first hook it passes through
+  const sessions = new WeakMap<object, RequestSession | null>();
+
+  return (request, _reply, done) => {
+    const key = request as object;
+    let session = sessions.get(key);
+    if (session === undefined) {
+      session = resolveRequestSession(options, request);
+      sessions.set(key, session);
+    }
+    runWithRequestSession(hone, session, () => done());
+  };
+}
+
+/** The session a request runs in */
+type RequestSession = { sessionId: string; options: SessionOptions };
+
+function runWithRequestContext<TRequest>(
+  hone: Pick<HoneClient, "withSession">,
+  options: SessionMiddlewareOptions<TRequest>,
+  request: TRequest,
+  next: () => void
+): void {
+  runWithRequestSession(hone, resolveRequestSession(options, request), next);
+}
+
+function runWithRequestSession(
+  hone: Pick<HoneClient, "withSession">,
+  session: RequestSession | null,
+  next: () => void
+): void {
+  if (!session) {
+    next();
+    return;
+  }
+  hone.withSession(session.sessionId, session.options, next);
+}
+
+function resolveRequestSession<TRequest>(
+  options: SessionMiddlewareOptions<TRequest>,
+  request: TRequest
+): RequestSession | null {
+  const sessionId = options.sessionId(request);
+  if (!sessionId) {
+    return null;
+  }
+
+  const sessionOptions: SessionOptions = {};
+  const userId = options.userId?.(request);
+  const metadata = options.metadata?.(request);
+  if (userId) sessionOptions.userId = userId;
+  if (metadata) sessionOptions.metadata = metadata;
+  return { sessionId, options: sessionOptions };
+}
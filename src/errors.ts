@@ -0,0 +1,189 @@
+/**
+ * Error classes for the Hone SDK.
+ *
+ * Every error thrown by the SDK extends HoneError, so callers can branch on
+ * `instanceof` instead of matching message strings.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await hone.track("convo", messages, { sessionId });
+ * } catch (error) {
+ *   if (error instanceof HoneRateLimitError) {
+ *     // back off for error.retryAfterMs
+ *   } else if (error instanceof HoneAuthenticationError) {
+ *     // alert: API key is invalid
+ *   }
+ * }
+ * ```
+ */
+
+import { EntityType } from "./types.js";
+
+export type HoneErrorOptions = {
+  /** HTTP status code of the failed response, if one was received */
+  status?: number;
+  /** The API endpoint that was called (e.g. "/evaluate") */
+  endpoint?: string;
+  /** The request id returned by the API in the x-request-id header */
+  requestId?: string;
+  /** The parsed response body of the failed request */
+  responseBody?: unknown;
+  /** Whether the request may succeed if retried. Defaults to false. */
+  retryable?: boolean;
+  /** The underlying error, if any */
+  cause?: unknown;
+};
+
+/**
+ * Base class for all errors thrown by the Hone SDK.
+ */
+export class HoneError extends Error {
+  readonly status?: number;
+  readonly endpoint?: string;
+  readonly requestId?: string;
+  readonly responseBody?: unknown;
+  readonly retryable: boolean;
+  readonly cause?: unknown;
+
+  constructor(message: string, options: HoneErrorOptions = {}) {
+    super(message);
+    this.name = "HoneError";
+    this.status = options.status;
+    this.endpoint = options.endpoint;
+    this.requestId = options.requestId;
+    this.responseBody = options.responseBody;
+    this.retryable = options.retryable ?? false;
+    this.cause = options.cause;
+  }
+}
+
+/**
+ * The API responded with a non-2xx status code.
+ * More specific subclasses are used for well-known status codes.
+ */
+export class HoneAPIError extends HoneError {
+  declare readonly status: number;
+  /** Delay requested by a Retry-After response header, in ms */
+  readonly retryAfterMs?: number;
+
+  constructor(
+    message: string,
+    options: HoneErrorOptions & { status: number; retryAfterMs?: number }
+  ) {
+    super(message, options);
+    this.name = "HoneAPIError";
+    this.retryAfterMs = options.retryAfterMs;
+  }
+}
+
+/**
+ * The API key is missing, invalid, or lacks access (401/403).
+ */
+export class HoneAuthenticationError extends HoneAPIError {
+  constructor(message: string, options: HoneErrorOptions & { status: number }) {
+    super(message, options);
+    this.name = "HoneAuthenticationError";
+  }
+}
+
+/**
+ * The request was rejected as invalid (400/422), or SDK input failed validation.
+ */
+export class HoneValidationError extends HoneError {
+  constructor(message: string, options: HoneErrorOptions = {}) {
+    super(message, options);
+    this.name = "HoneValidationError";
+  }
+}
+
+/**
+ * The API rate limit was exceeded (429).
+ */
+export class HoneRateLimitError extends HoneAPIError {
+  constructor(
+    message: string,
+    options: HoneErrorOptions & { status: number; retryAfterMs?: number }
+  ) {
+    super(message, { ...options, retryable: options.retryable ?? true });
+    this.name = "HoneRateLimitError";
+  }
+}
+
+/**
+ * The API failed to process the request (5xx).
+ */
+export class HoneServerError extends HoneAPIError {
+  constructor(
+    message: string,
+    options: HoneErrorOptions & { status: number; retryAfterMs?: number }
+  ) {
+    super(message, { ...options, retryable: options.retryable ?? true });
+    this.name = "HoneServerError";
+  }
+}
+
+/**
+ * The request did not complete within the configured timeout.
+ */
+export class HoneTimeoutError extends HoneError {
+  /** The timeout that was exceeded, in ms */
+  readonly timeoutMs: number;
+
+  constructor(message: string, options: HoneErrorOptions & { timeoutMs: number }) {
+    super(message, { ...options, retryable: options.retryable ?? true });
+    this.name = "HoneTimeoutError";
+    this.timeoutMs = options.timeoutMs;
+  }
+}
+
+/**
+ * The request failed before a response was received (DNS, connection reset, etc.).
+ */
+export class HoneNetworkError extends HoneError {
+  constructor(message: string, options: HoneErrorOptions = {}) {
+    super(message, { ...options, retryable: options.retryable ?? true });
+    this.name = "HoneNetworkError";
+  }
+}
+
+/**
+ * An entity references itself or one of its ancestors through params.
+ * Thrown by getAgentNode, getToolNode and getTextPromptNode before any request is made.
+ */
+export class HoneCircularReferenceError extends HoneError {
+  /** The type of the entity that closed the cycle */
+  readonly entityType: EntityType;
+  /** Entity ids forming the cycle, ending with the repeated id */
+  readonly path: string[];
+
+  constructor(message: string, options: { entityType: EntityType; path: string[] }) {
+    super(message);
+    this.name = "HoneCircularReferenceError";
+    this.entityType = options.entityType;
+    this.path = options.path;
+  }
+}
+
+/**
+ * Creates the error class matching an HTTP status code.
+ */
+export function createAPIError(
+  message: string,
+  options: HoneErrorOptions & { status: number; retryAfterMs?: number }
+): HoneError {
+  const { status } = options;
+  if (status === 401 || status === 403) {
+    return new HoneAuthenticationError(message, options);
+  }
+  if (status === 400 || status === 422) {
+    return new HoneValidationError(message, options);
+  }
+  if (status === 429) {
+    return new HoneRateLimitError(message, options);
+  }
+  if (status >= 500) {
+    return new HoneServerError(message, options);
+  }
+  return new HoneAPIError(message, { ...options, retryable: options.retryable ?? status === 408 });
+}
@@ -1,4 +1,17 @@
 export { Hone, createHoneClient } from "./client";
+export {
+  HoneError,
+  HoneAPIError,
+  HoneAuthenticationError,
+  HoneValidationError,
+  HoneRateLimitError,
+  HoneServerError,
+  HoneTimeoutError,
+  HoneNetworkError,
+  HoneCircularReferenceError,
+} from "./errors";
+export type { HoneErrorOptions } from "./errors";
+export type { HoneLogger, LogLevel, LogFields } from "./logger";
 export {
   AIProvider,
   isValidProvider,
@@ -8,13 +21,25 @@ export {
 export type { AIProviderValue } from "./providers";
 export type {
   HoneClient,
+  HoneConfig,
+  CacheConfig,
+  RetryConfig,
+  RetryPolicy,
+  RetryScope,
   HoneAgent,
   HoneTrack,
+  HoneFeedback,
+  FeedbackOptions,
+  FeedbackSource,
+  FeedbackRequest,
   GetAgentOptions,
   GetToolOptions,
   GetTextPromptOptions,
   AgentResult,
   ToolResult,
+  JSONSchema,
+  ZodSchemaLike,
+  Zod4SchemaLike,
   TextPromptResult,
   AgentNode,
   ToolNode,
@@ -23,14 +48,62 @@ export type {
   EntityV2Request,
   EntityV2Response,
   Hyperparameters,
+  FallbackContext,
+  ResultSource,
   Message,
   ToolCall,
+  ContentPart,
+  TextPart,
+  MediaPart,
+  BinaryContentMode,
   // Provider-specific tracking inputs
   TrackInput,
   TrackOpenAIInput,
+  TrackOpenAIResponsesInput,
   TrackAnthropicInput,
   TrackGeminiInput,
+  TrackAISDKInput,
+  ProviderParamsOptions,
+  WrapClientOptions,
+  HoneContext,
+  HoneWithSession,
+  SessionOptions,
+  SessionMiddlewareOptions,
+  HttpRequestLike,
+  HoneSpan,
+  SpanKind,
+  SpanStatus,
+  SpanOptions,
+  SpanEndOptions,
+  SpanRecord,
+  SpanBatchRequest,
+  OTelAttributeValue,
+  OTelAttributes,
+  OTelSpan,
+  OTelTracer,
+  OTelHrTime,
+  OTelReadableSpan,
+  OTelExportResult,
+  TelemetryConfig,
+  HoneSpanExporterOptions,
+  AISDKMessage,
+  AISDKContentPart,
+  AISDKDataContent,
+  AISDKResult,
+  AISDKStreamResult,
+  AISDKStep,
+  AISDKUsage,
+  AISDKCallSettings,
   TrackConversationOptions,
+  TrackRequest,
+  TrackBatchRequest,
+  TokenUsage,
+  ResponseMetadata,
+  TrackedAgent,
+  ModelPricing,
+  PriceTable,
+  TrackingConfig,
+  SpoolConfig,
 } from "./types";
 // Tool tracking helpers
 export {
@@ -39,21 +112,91 @@ export {
   extractOpenAIMessages,
   extractAnthropicMessages,
   extractGeminiMessages,
+  extractOpenAIResponsesMessages,
+  extractOpenAIMetadata,
+  extractOpenAIResponsesMetadata,
+  extractAnthropicMetadata,
+  extractGeminiMetadata,
   // Input normalizers (for manual use)
   normalizeOpenAIMessages,
+  normalizeOpenAIResponsesInput,
   normalizeAnthropicMessages,
   normalizeGeminiContents,
+  GeminiToolCallIds,
   // Short aliases
   toolResult,
   fromOpenAI,
   fromAnthropic,
   fromGemini,
+  fromOpenAIResponses,
 } from "./tools";
+// Multimodal content
+export { applyBinaryContentMode, parseDataUrl } from "./content";
+// Streaming
+export {
+  OpenAIStreamAccumulator,
+  AnthropicStreamAccumulator,
+  GeminiStreamAccumulator,
+  wrapOpenAIStream,
+  wrapAnthropicStream,
+  wrapGeminiStream,
+} from "./streaming";
+export type { TrackedStream, StreamAccumulator } from "./streaming";
+// Session context
+export { getHoneContext, honeExpress, honeFastify } from "./context";
+// Traces
+export { Span, getActiveSpan } from "./trace";
+// OpenTelemetry
+export { OTelBridge, HoneSpanExporter } from "./otel";
+// Client wrappers
+export { wrapOpenAI, wrapAnthropic, wrapGemini } from "./wrappers";
+export type {
+  OpenAIClientLike,
+  AnthropicClientLike,
+  GeminiModelLike,
+  GeminiClientLike,
+} from "./wrappers";
+// Provider request builders
+export {
+  toOpenAIChatParams,
+  toAnthropicParams,
+  toGeminiParams,
+  toOpenAITool,
+  toAnthropicTool,
+  toGeminiFunctionDeclaration,
+} from "./params";
+// Tool parameter schemas
+export { toJSONSchema, isZodSchema } from "./schema";
+// Vercel AI SDK
+export {
+  toAISDKSettings,
+  normalizeAISDKMessages,
+  extractAISDKMessages,
+  extractAISDKUsage,
+  extractAISDKMetadata,
+  resolveAISDKResult,
+} from "./ai-sdk";
+// Usage and cost
+export {
+  extractOpenAIUsage,
+  extractOpenAIResponsesUsage,
+  extractAnthropicUsage,
+  extractGeminiUsage,
+  findModelPricing,
+  computeCost,
+} from "./usage";
 export {
   getAgentNode,
   getToolNode,
   getTextPromptNode,
   formatEntityV2Request,
+  evaluateEntityNode,
   updateAgentNodes,
   updateEntityNodes,
 } from "./agent";
+export { renderTemplate, renderEntityV2Request } from "./template";
+export type {
+  MissingVariable,
+  RenderResult,
+  RenderTemplateOptions,
+} from "./template";
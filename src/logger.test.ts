@@ -0,0 +1,62 @@
+import { describe, it, expect, vi } from "vitest";
+import { createLogger, HoneLogger } from "./logger";
+
+describe("logger", () => {
+  const createMockLogger = (): HoneLogger => ({
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  });
+
+  it("should be silent without a logger", () => {
+    const logger = createLogger();
+    expect(() => logger.error({}, "boom")).not.toThrow();
+  });
+
+  it("should forward messages at or above the default info level", () => {
+    const target = createMockLogger();
+    const logger = createLogger(target);
+
+    logger.debug({ a: 1 }, "debug");
+    logger.info({ a: 2 }, "info");
+    logger.error({ a: 3 }, "error");
+
+    expect(target.debug).not.toHaveBeenCalled();
+    expect(target.info).toHaveBeenCalledWith({ a: 2 }, "info");
+    expect(target.error).toHaveBeenCalledWith({ a: 3 }, "error");
+  });
+
+  it("should forward debug messages when level is debug", () => {
+    const target = createMockLogger();
+    createLogger(target, "debug").debug({ endpoint: "/evaluate" }, "request");
+
+    expect(target.debug).toHaveBeenCalledWith({ endpoint: "/evaluate" }, "request");
+  });
+
+  it("should drop everything when level is silent", () => {
+    const target = createMockLogger();
+    const logger = createLogger(target, "silent");
+
+    logger.error({}, "error");
+
+    expect(target.error).not.toHaveBeenCalled();
+  });
+
+  it("should preserve the logger's this binding", () => {
+    const calls: string[] = [];
+    const target = {
+      prefix: "hone",
+      debug() {},
+      info(this: { prefix: string }, _fields: object, message: string) {
+        calls.push(`${this.prefix}: ${message}`);
+      },
+      warn() {},
+      error() {},
+    };
+
+    createLogger(target).info({}, "hello");
+
+    expect(calls).toEqual(["hone: hello"]);
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * Logging for the Hone SDK.
+ *
+ * The SDK is silent unless a logger is configured. The HoneLogger interface
+ * follows pino's `(fields, message)` call shape, so pino (and compatible
+ * loggers such as bunyan) can be passed in directly.
+ *
+ * @example
+ * ```typescript
+ * import pino from "pino";
+ *
+ * const hone = new Hone({
+ *   apiKey: process.env.HONE_API_KEY!,
+ *   logger: pino({ name: "hone" }),
+ *   logLevel: "debug",
+ * });
+ * ```
+ */
+
+/**
+ * Minimum severity of messages passed to the logger.
+ * "silent" disables logging entirely.
+ */
+export type LogLevel = "debug" | "info" | "warn" | "error" | "silent";
+
+/**
+ * Structured fields attached to a log message (endpoint, status, durationMs, ...).
+ */
+export type LogFields = Record<string, unknown>;
+
+/**
+ * Minimal logger interface accepted by HoneConfig.logger.
+ */
+export type HoneLogger = {
+  debug(fields: LogFields, message: string): void;
+  info(fields: LogFields, message: string): void;
+  warn(fields: LogFields, message: string): void;
+  error(fields: LogFields, message: string): void;
+};
+
+const LEVEL_ORDER: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+  silent: Infinity,
+};
+
+const noop = () => undefined;
+
+/**
+ * Wraps a logger so that only messages at or above the given level are forwarded.
+ * Returns a no-op logger when no logger is provided.
+ *
+ * @param logger - The user-supplied logger
+ * @param level - Minimum level to forward. Defaults to "info".
+ */
+export function createLogger(logger?: HoneLogger, level: LogLevel = "info"): HoneLogger {
+  const threshold = LEVEL_ORDER[level];
+  const forward = (method: Exclude<LogLevel, "silent">) =>
+    logger && LEVEL_ORDER[method] >= threshold
+      ? (fields: LogFields, message: string) => logger[method](fields, message)
+      : noop;
+
+  return {
+    debug: forward("debug"),
+    info: forward("info"),
+    warn: forward("warn"),
+    error: forward("error"),
+  };
+}
@@ -0,0 +1,392 @@
+import { describe, it, expect, vi } from "vitest";
+import { HoneSpanExporter, OTelBridge } from "./otel";
+import {
+  EntityNode,
+  EntityV2Response,
+  HoneClient,
+  OTelAttributes,
+  OTelExportResult,
+  OTelReadableSpan,
+  OTelTracer,
+  TrackRequest,
+} from "./types";
+
+type RecordedSpan = {
+  name: string;
+  kind?: number;
+  startTime?: Date;
+  attributes: OTelAttributes;
+  status?: { code: number; message?: string };
+  exceptions: unknown[];
+  endTime?: Date;
+  ended: boolean;
+};
+
+function fakeTracer(): { tracer: OTelTracer; spans: RecordedSpan[] } {
+  const spans: RecordedSpan[] = [];
+  const tracer: OTelTracer = {
+    startSpan(name, options = {}) {
+      const span: RecordedSpan = {
+        name,
+        kind: options.kind,
+        startTime: options.startTime,
+        attributes: { ...options.attributes },
+        exceptions: [],
+        ended: false,
+      };
+      spans.push(span);
+      return {
+        setAttributes: (attributes) => Object.assign(span.attributes, attributes),
+        setStatus: (status) => (span.status = status),
+        recordException: (exception) => void span.exceptions.push(exception),
+        end: (endTime) => {
+          span.endTime = endTime;
+          span.ended = true;
+        },
+      };
+    },
+  };
+  return { tracer, spans };
+}
+
+describe("OTelBridge", () => {
+  const node: EntityNode = {
+    id: "support",
+    type: "agent",
+    model: "gpt-4o",
+    provider: "openai",
+    temperature: 0.2,
+    params: {},
+    prompt: "You are helpful.",
+    children: [],
+  };
+  const response = {
+    evaluatedPrompt: "You are helpful.",
+    majorVersion: 2,
+    minorVersion: 1,
+    evaluationId: "eval-1",
+  } as EntityV2Response;
+
+  it("should trace an evaluation with the requested model", async () => {
+    const { tracer, spans } = fakeTracer();
+    const bridge = new OTelBridge(tracer);
+
+    const result = await bridge.traceEvaluation(node, async () => ({ response, source: "api" as const }));
+
+    expect(result.response).toBe(response);
+    expect(spans).toHaveLength(1);
+    expect(spans[0]).toMatchObject({
+      name: "hone.agent support",
+      kind: 2,
+      status: { code: 1 },
+      ended: true,
+      attributes: {
+        "hone.origin": "sdk",
+        "hone.entity.id": "support",
+        "hone.entity.type": "agent",
+        "gen_ai.request.model": "gpt-4o",
+        "gen_ai.provider.name": "openai",
+        "gen_ai.request.temperature": 0.2,
+        "hone.result.source": "api",
+        "hone.entity.major_version": 2,
+        "hone.entity.minor_version": 1,
+        "hone.evaluation.id": "eval-1",
+      },
+    });
+  });
+
+  it("should record a failed evaluation and rethrow", async () => {
+    const { tracer, spans } = fakeTracer();
+    const bridge = new OTelBridge(tracer);
+    const error = new Error("API down");
+
+    await expect(bridge.traceEvaluation(node, () => Promise.reject(error))).rejects.toBe(error);
+
+    expect(spans[0]).toMatchObject({ status: { code: 2, message: "API down" }, ended: true });
+    expect(spans[0].exceptions).toEqual([error]);
+  });
+
+  it("should record a tracked run with GenAI attributes", () => {
+    const { tracer, spans } = fakeTracer();
+    const bridge = new OTelBridge(tracer);
+    const request: TrackRequest = {
+      id: "support",
+      messages: [],
+      sessionId: "s1",
+      timestamp: "2026-01-01T00:00:02.000Z",
+      model: "claude-sonnet-4",
+      finishReason: "end_turn",
+      responseId: "msg_1",
+      usage: { inputTokens: 10, outputTokens: 5, totalTokens: 15 },
+      cost: 0.001,
+      startTime: "2026-01-01T00:00:00.000Z",
+      endTime: "2026-01-01T00:00:01.500Z",
+    };
+
+    bridge.recordRun(request, { provider: "anthropic" } as never);
+
+    expect(spans[0]).toMatchObject({
+      name: "chat claude-sonnet-4",
+      startTime: new Date("2026-01-01T00:00:00.000Z"),
+      endTime: new Date("2026-01-01T00:00:01.500Z"),
+      attributes: {
+        "gen_ai.operation.name": "chat",
+        "gen_ai.provider.name": "anthropic",
+        "gen_ai.request.model": "claude-sonnet-4",
+        "gen_ai.response.id": "msg_1",
+        "gen_ai.response.finish_reasons": ["end_turn"],
+        "gen_ai.usage.input_tokens": 10,
+        "gen_ai.usage.output_tokens": 5,
+        "gen_ai.conversation.id": "s1",
+        "hone.run.id": "support",
+        "hone.cost_usd": 0.001,
+      },
+    });
+  });
+
+  it("should time a run without start and end times by its timestamp", () => {
+    const { tracer, spans } = fakeTracer();
+    const bridge = new OTelBridge(tracer);
+
+    bridge.recordRun(
+      { id: "convo", messages: [], sessionId: "s1", timestamp: "2026-01-01T00:00:02.000Z", durationMs: 500 },
+      []
+    );
+
+    expect(spans[0].name).toBe("chat");
+    expect(spans[0].startTime).toEqual(new Date("2026-01-01T00:00:01.500Z"));
+    expect(spans[0].endTime).toEqual(new Date("2026-01-01T00:00:02.000Z"));
+    expect(spans[0].attributes["gen_ai.provider.name"]).toBeUndefined();
+  });
+});
+
+describe("HoneSpanExporter", () => {
+  const fakeHone = () =>
+    ({
+      recordSpans: vi.fn(),
+      track: vi.fn().mockResolvedValue(undefined),
+      flush: vi.fn().mockResolvedValue(undefined),
+    }) as unknown as HoneClient & {
+      recordSpans: ReturnType<typeof vi.fn>;
+      track: ReturnType<typeof vi.fn>;
+      flush: ReturnType<typeof vi.fn>;
+    };
+
+  const readableSpan = (overrides: Partial<OTelReadableSpan> = {}): OTelReadableSpan => ({
+    name: "chat gpt-4o",
+    spanContext: () => ({ traceId: "a".repeat(32), spanId: "b".repeat(16) }),
+    parentSpanContext: { spanId: "c".repeat(16) },
+    startTime: [1767225600, 0],
+    endTime: [1767225601, 500_000_000],
+    status: { code: 0 },
+    attributes: {
+      "gen_ai.operation.name": "chat",
+      "gen_ai.provider.name": "openai",
+      "gen_ai.request.model": "gpt-4o",
+    },
+    ...overrides,
+  });
+
+  const exportSpans = (exporter: HoneSpanExporter, spans: OTelReadableSpan[]) =>
+    new Promise<OTelExportResult>((resolve) => exporter.export(spans, resolve));
+
+  it("should ingest GenAI spans as Hone spans", async () => {
+    const hone = fakeHone();
+    const exporter = new HoneSpanExporter(hone);
+
+    const result = await exportSpans(exporter, [
+      readableSpan(),
+      readableSpan({
+        name: "execute_tool get_weather",
+        status: { code: 2, message: "Timed out" },
+        attributes: { "gen_ai.operation.name": "execute_tool", "gen_ai.conversation.id": "s1" },
+      }),
+      readableSpan({ name: "GET /weather", attributes: { "http.method": "GET" } }),
+    ]);
+
+    expect(result).toEqual({ code: 0 });
+    expect(hone.recordSpans).toHaveBeenCalledTimes(1);
+    const [records] = hone.recordSpans.mock.calls[0];
+    expect(records).toHaveLength(2);
+    expect(records[0]).toEqual({
+      traceId: "a".repeat(32),
+      spanId: "b".repeat(16),
+      parentSpanId: "c".repeat(16),
+      name: "chat gpt-4o",
+      kind: "llm",
+      startTime: "2026-01-01T00:00:00.000Z",
+      endTime: "2026-01-01T00:00:01.500Z",
+      durationMs: 1500,
+      status: "ok",
+      attributes: {
+        "gen_ai.operation.name": "chat",
+        "gen_ai.provider.name": "openai",
+        "gen_ai.request.model": "gpt-4o",
+      },
+    });
+    expect(records[1]).toMatchObject({ kind: "tool", status: "error", error: "Timed out", sessionId: "s1" });
+    expect(hone.track).not.toHaveBeenCalled();
+  });
+
+  it("should track spans that carry messages as runs", async () => {
+    const hone = fakeHone();
+    const exporter = new HoneSpanExporter(hone);
+
+    await exportSpans(exporter, [
+      readableSpan({
+        attributes: {
+          "gen_ai.operation.name": "chat",
+          "gen_ai.agent.name": "weather-bot",
+          "gen_ai.conversation.id": "s1",
+          "gen_ai.request.model": "gpt-4o",
+          "gen_ai.response.model": "gpt-4o-2024-08-06",
+          "gen_ai.response.id": "chatcmpl-1",
+          "gen_ai.response.finish_reasons": ["tool_calls"],
+          "gen_ai.usage.input_tokens": 20,
+          "gen_ai.usage.output_tokens": 8,
+          "gen_ai.system_instructions": JSON.stringify([{ type: "text", content: "Be brief." }]),
+          "gen_ai.input.messages": JSON.stringify([
+            { role: "user", parts: [{ type: "text", content: "Weather in Paris?" }] },
+            {
+              role: "assistant",
+              parts: [{ type: "tool_call", id: "call_1", name: "get_weather", arguments: { city: "Paris" } }],
+            },
+            { role: "tool", parts: [{ type: "tool_call_response", id: "call_1", response: { temp: 18 } }] },
+          ]),
+          "gen_ai.output.messages": JSON.stringify([
+            { role: "assistant", parts: [{ type: "text", content: "18°C" }], finish_reason: "stop" },
+          ]),
+        },
+      }),
+    ]);
+
+    expect(hone.track).toHaveBeenCalledWith(
+      "weather-bot",
+      [
+        { role: "system", content: "Be brief." },
+        { role: "user", content: "Weather in Paris?" },
+        {
+          role: "assistant",
+          content: "",
+          tool_calls: [{ id: "call_1", name: "get_weather", arguments: '{"city":"Paris"}' }],
+        },
+        { role: "tool", content: '{"temp":18}', tool_call_id: "call_1" },
+        { role: "assistant", content: "18°C" },
+      ],
+      {
+        sessionId: "s1",
+        model: "gpt-4o-2024-08-06",
+        finishReason: "tool_calls",
+        responseId: "chatcmpl-1",
+        usage: { inputTokens: 20, outputTokens: 8, totalTokens: 28 },
+        startTime: "2026-01-01T00:00:00.000Z",
+        endTime: "2026-01-01T00:00:01.500Z",
+        traceId: "a".repeat(32),
+        spanId: "b".repeat(16),
+      }
+    );
+  });
+
+  it("should fall back to the configured id and the trace id as session", async () => {
+    const hone = fakeHone();
+    const exporter = new HoneSpanExporter(hone, { id: "imported" });
+
+    await exportSpans(exporter, [
+      readableSpan({
+        attributes: {
+          "gen_ai.operation.name": "chat",
+          "gen_ai.input.messages": JSON.stringify([{ role: "user", parts: [{ type: "text", content: "Hi" }] }]),
+        },
+      }),
+    ]);
+
+    expect(hone.track).toHaveBeenCalledWith(
+      "imported",
+      [{ role: "user", content: "Hi" }],
+      expect.objectContaining({ sessionId: "a".repeat(32) })
+    );
+  });
+
+  it("should report a failed export when tracking fails", async () => {
+    const hone = fakeHone();
+    hone.track.mockRejectedValueOnce(new Error("Invalid request"));
+    const exporter = new HoneSpanExporter(hone);
+
+    const result = await exportSpans(exporter, [
+      readableSpan({
+        attributes: {
+          "gen_ai.operation.name": "chat",
+          "gen_ai.output.messages": JSON.stringify([{ role: "assistant", parts: [{ type: "text", content: "Hi" }] }]),
+        },
+      }),
+    ]);
+
+    expect(result.code).toBe(1);
+    expect(result.error?.message).toBe("Invalid request");
+  });
+
+  it("should ignore message attributes that aren't arrays", async () => {
+    const hone = fakeHone();
+    const exporter = new HoneSpanExporter(hone);
+
+    const result = await exportSpans(exporter, [
+      readableSpan({
+        attributes: {
+          "gen_ai.operation.name": "chat",
+          "gen_ai.system_instructions": JSON.stringify({ type: "text", content: "Be brief" }),
+          "gen_ai.input.messages": JSON.stringify({ role: "user" }),
+          "gen_ai.output.messages": JSON.stringify([null, { role: "assistant", parts: "Hi" }]),
+        },
+      }),
+    ]);
+
+    expect(result.code).toBe(0);
+    expect(hone.recordSpans).toHaveBeenCalledTimes(1);
+    expect(hone.track).not.toHaveBeenCalled();
+  });
+
+  it("should report a failed export when ingesting throws", async () => {
+    const hone = fakeHone();
+    hone.recordSpans.mockImplementationOnce(() => {
+      throw new Error("boom");
+    });
+    const exporter = new HoneSpanExporter(hone);
+
+    const result = await exportSpans(exporter, [readableSpan()]);
+
+    expect(result.code).toBe(1);
+    expect(result.error?.message).toBe("boom");
+  });
+
+  it("should ignore spans emitted by the OTel bridge", async () => {
+    const { tracer, spans: bridgeSpans } = fakeTracer();
+    const bridge = new OTelBridge(tracer);
+    await bridge.traceEvaluation(
+      { id: "bot", type: "agent", model: "gpt-4o", provider: "openai", params: {}, prompt: "", children: [] },
+      async () => ({ response: { evaluatedPrompt: "" } as EntityV2Response, source: "api" as const })
+    );
+    bridge.recordRun({ id: "bot", messages: [], sessionId: "s1", timestamp: "2026-01-01T00:00:00.000Z" }, []);
+    const hone = fakeHone();
+    const exporter = new HoneSpanExporter(hone);
+
+    const result = await exportSpans(
+      exporter,
+      bridgeSpans.map((span) => readableSpan({ name: span.name, attributes: span.attributes }))
+    );
+
+    expect(result.code).toBe(0);
+    expect(bridgeSpans).toHaveLength(2);
+    expect(hone.recordSpans).not.toHaveBeenCalled();
+    expect(hone.track).not.toHaveBeenCalled();
+  });
+
+  it("should flush the client on forceFlush and shutdown", async () => {
+    const hone = fakeHone();
+    const exporter = new HoneSpanExporter(hone);
+
+    await exporter.forceFlush();
+    await exporter.shutdown();
+
+    expect(hone.flush).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,396 @@
+/**
+ * OpenTelemetry bridge.
+ *
+ * OTelBridge emits OTel spans for agent/tool/prompt evaluations and tracked runs,
+ * using the GenAI semantic conventions (`gen_ai.*`), so Hone activity shows up in
+ * an existing tracing backend. It is enabled with HoneConfig.telemetry.
+ *
+ * HoneSpanExporter goes the other way: registered as an OTel span exporter, it
+ * ingests GenAI spans from other instrumentation as Hone spans, and tracks their
+ * input and output messages as runs.
+ *
+ * @example
+ * ```typescript
+ * import { trace } from "@opentelemetry/api";
+ *
+ * const hone = new Hone({ apiKey, telemetry: { tracer: trace.getTracer("hone") } });
+ *
+ * provider.addSpanProcessor(new BatchSpanProcessor(new HoneSpanExporter(hone)));
+ * ```
+ *
+ * @see https://opentelemetry.io/docs/specs/semconv/gen-ai/
+ */
+
+import {
+  EntityNode,
+  EntityV2Response,
+  HoneClient,
+  HoneSpanExporterOptions,
+  Message,
+  OTelAttributes,
+  OTelExportResult,
+  OTelHrTime,
+  OTelReadableSpan,
+  OTelTracer,
+  ResultSource,
+  SpanKind,
+  SpanRecord,
+  TokenUsage,
+  ToolCall,
+  TrackInput,
+  TrackRequest,
+} from "./types.js";
+
+// Values of the OTel SpanKind and SpanStatusCode enums
+const OTEL_SPAN_KIND_CLIENT = 2;
+const OTEL_STATUS_OK = 1;
+const OTEL_STATUS_ERROR = 2;
+const OTEL_EXPORT_SUCCESS = 0;
+const OTEL_EXPORT_FAILED = 1;
+
+/** Marks spans emitted by OTelBridge, so HoneSpanExporter doesn't ingest Hone's own activity twice */
+const HONE_ORIGIN_ATTRIBUTE = "hone.origin";
+const HONE_ORIGIN_BRIDGE = "sdk";
+
+/** gen_ai.provider.name for each provider-specific track input */
+const GEN_AI_PROVIDER_NAMES: Record<string, string> = {
+  openai: "openai",
+  "openai-responses": "openai",
+  anthropic: "anthropic",
+  gemini: "gcp.gemini",
+};
+
+/**
+ * Emits OpenTelemetry spans for Hone activity.
+ */
+export class OTelBridge {
+  constructor(private readonly tracer: OTelTracer) {}
+
+  /**
+   * Runs an agent, tool or prompt evaluation inside a span named `hone.{type} {id}`.
+   * Agent spans carry the requested model and hyperparameters as gen_ai.request.* attributes.
+   */
+  async traceEvaluation<T extends { response: EntityV2Response; source: ResultSource }>(
+    node: EntityNode,
+    evaluate: () => Promise<T>
+  ): Promise<T> {
+    const span = this.tracer.startSpan(`hone.${node.type} ${node.id}`, {
+      kind: OTEL_SPAN_KIND_CLIENT,
+      attributes: {
+        [HONE_ORIGIN_ATTRIBUTE]: HONE_ORIGIN_BRIDGE,
+        "hone.entity.id": node.id,
+        "hone.entity.type": node.type,
+        "gen_ai.request.model": node.model,
+        "gen_ai.provider.name": node.provider,
+        "gen_ai.request.temperature": node.temperature,
+        "gen_ai.request.max_tokens": node.maxTokens,
+        "gen_ai.request.top_p": node.topP,
+        "gen_ai.request.frequency_penalty": node.frequencyPenalty,
+        "gen_ai.request.presence_penalty": node.presencePenalty,
+        "gen_ai.request.stop_sequences": node.stopSequences?.length ? node.stopSequences : undefined,
+      },
+    });
+
+    try {
+      const result = await evaluate();
+      span.setAttributes({
+        "hone.result.source": result.source,
+        "hone.entity.major_version": result.response.majorVersion,
+        "hone.entity.minor_version": result.response.minorVersion,
+        "hone.evaluation.id": result.response.evaluationId,
+      });
+      span.setStatus({ code: OTEL_STATUS_OK });
+      return result;
+    } catch (error) {
+      span.recordException(error instanceof Error ? error : String(error));
+      span.setStatus({ code: OTEL_STATUS_ERROR, message: describe(error) });
+      throw error;
+    } finally {
+      span.end();
+    }
+  }
+
+  /**
+   * Emits a `chat {model}` span for a tracked run, covering its start and end time.
+   */
+  recordRun(request: TrackRequest, input: TrackInput): void {
+    const provider = Array.isArray(input) ? undefined : GEN_AI_PROVIDER_NAMES[input.provider];
+    const endTime = new Date(request.endTime ?? request.timestamp);
+    const startTime =
+      request.startTime !== undefined
+        ? new Date(request.startTime)
+        : request.durationMs !== undefined
+          ? new Date(endTime.getTime() - request.durationMs)
+          : endTime;
+
+    const span = this.tracer.startSpan(request.model ? `chat ${request.model}` : "chat", {
+      kind: OTEL_SPAN_KIND_CLIENT,
+      startTime,
+      attributes: {
+        [HONE_ORIGIN_ATTRIBUTE]: HONE_ORIGIN_BRIDGE,
+        "gen_ai.operation.name": "chat",
+        "gen_ai.provider.name": provider,
+        "gen_ai.request.model": request.model,
+        "gen_ai.response.id": request.responseId,
+        "gen_ai.response.finish_reasons": request.finishReason ? [request.finishReason] : undefined,
+        "gen_ai.usage.input_tokens": request.usage?.inputTokens,
+        "gen_ai.usage.output_tokens": request.usage?.outputTokens,
+        "gen_ai.conversation.id": request.sessionId,
+        "hone.run.id": request.id,
+        "hone.cost_usd": request.cost,
+      },
+    });
+    span.end(endTime);
+  }
+}
+
+/**
+ * OpenTelemetry span exporter that ingests GenAI spans into Hone.
+ *
+ * Spans with gen_ai.* attributes are sent as Hone spans, keeping their trace and span ids.
+ * Spans that carry gen_ai.input.messages or gen_ai.output.messages are also tracked as runs,
+ * with gen_ai.conversation.id (or the trace id) as the session. Other spans, and the spans
+ * OTelBridge emits for Hone's own evaluations and runs, are ignored.
+ */
+export class HoneSpanExporter {
+  constructor(
+    private readonly hone: HoneClient,
+    private readonly options: HoneSpanExporterOptions = {}
+  ) {}
+
+  export(spans: OTelReadableSpan[], resultCallback: (result: OTelExportResult) => void): void {
+    const fail = (error: unknown) =>
+      resultCallback({
+        code: OTEL_EXPORT_FAILED,
+        error: error instanceof Error ? error : new Error(String(error)),
+      });
+
+    // The span processor waits for resultCallback, so a throw here must still report a result
+    try {
+      const records: SpanRecord[] = [];
+      const runs: Promise<void>[] = [];
+
+      for (const span of spans) {
+        if (!isGenAISpan(span.attributes)) {
+          continue;
+        }
+        const record = toSpanRecord(span);
+        records.push(record);
+
+        const messages = genAIMessages(span.attributes);
+        if (messages.length > 0) {
+          runs.push(this.trackRun(span, record, messages));
+        }
+      }
+
+      if (records.length > 0) {
+        this.hone.recordSpans(records);
+      }
+
+      Promise.all(runs).then(() => resultCallback({ code: OTEL_EXPORT_SUCCESS }), fail);
+    } catch (error) {
+      fail(error);
+    }
+  }
+
+  /** Sends everything ingested so far. */
+  forceFlush(): Promise<void> {
+    return this.hone.flush();
+  }
+
+  /** Sends everything ingested so far. The Hone client itself is left running. */
+  shutdown(): Promise<void> {
+    return this.hone.flush();
+  }
+
+  private trackRun(span: OTelReadableSpan, record: SpanRecord, messages: Message[]): Promise<void> {
+    const attributes = span.attributes;
+    const id = this.options.id ?? stringAttribute(attributes, "gen_ai.agent.name") ?? span.name;
+    const finishReasons = attributes["gen_ai.response.finish_reasons"];
+
+    return this.hone.track(id, messages, {
+      sessionId: stringAttribute(attributes, "gen_ai.conversation.id") ?? record.traceId,
+      model:
+        stringAttribute(attributes, "gen_ai.response.model") ??
+        stringAttribute(attributes, "gen_ai.request.model"),
+      finishReason: Array.isArray(finishReasons) ? String(finishReasons[0]) : undefined,
+      responseId: stringAttribute(attributes, "gen_ai.response.id"),
+      usage: genAIUsage(attributes),
+      startTime: record.startTime,
+      endTime: record.endTime,
+      traceId: record.traceId,
+      spanId: record.spanId,
+    });
+  }
+}
+
+function isGenAISpan(attributes: OTelAttributes): boolean {
+  // Spans from OTelBridge describe activity Hone has already recorded
+  if (attributes[HONE_ORIGIN_ATTRIBUTE] === HONE_ORIGIN_BRIDGE) {
+    return false;
+  }
+  return (
+    attributes["gen_ai.operation.name"] !== undefined ||
+    attributes["gen_ai.provider.name"] !== undefined ||
+    attributes["gen_ai.system"] !== undefined
+  );
+}
+
+function toSpanRecord(span: OTelReadableSpan): SpanRecord {
+  const { traceId, spanId } = span.spanContext();
+  const startTime = hrTimeToDate(span.startTime);
+  const endTime = hrTimeToDate(span.endTime);
+  const attributes: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(span.attributes)) {
+    if (value !== undefined) attributes[key] = value;
+  }
+
+  const record: SpanRecord = {
+    traceId,
+    spanId,
+    name: span.name,
+    kind: spanKind(stringAttribute(span.attributes, "gen_ai.operation.name")),
+    startTime: startTime.toISOString(),
+    endTime: endTime.toISOString(),
+    durationMs: endTime.getTime() - startTime.getTime(),
+    status: span.status.code === OTEL_STATUS_ERROR ? "error" : "ok",
+    attributes,
+  };
+  const parentSpanId = span.parentSpanId ?? span.parentSpanContext?.spanId;
+  if (parentSpanId) record.parentSpanId = parentSpanId;
+  if (record.status === "error" && span.status.message) record.error = span.status.message;
+  const sessionId = stringAttribute(span.attributes, "gen_ai.conversation.id");
+  if (sessionId) record.sessionId = sessionId;
+  return record;
+}
+
+function spanKind(operation: string | undefined): SpanKind {
+  switch (operation) {
+    case "execute_tool":
+      return "tool";
+    case "invoke_agent":
+    case "create_agent":
+      return "agent";
+    default:
+      return "llm";
+  }
+}
+
+function hrTimeToDate([seconds, nanos]: OTelHrTime): Date {
+  return new Date(seconds * 1000 + nanos / 1e6);
+}
+
+function stringAttribute(attributes: OTelAttributes, key: string): string | undefined {
+  const value = attributes[key];
+  return typeof value === "string" ? value : undefined;
+}
+
+function genAIUsage(attributes: OTelAttributes): TokenUsage | undefined {
+  const inputTokens = attributes["gen_ai.usage.input_tokens"];
+  const outputTokens = attributes["gen_ai.usage.output_tokens"];
+  if (typeof inputTokens !== "number" || typeof outputTokens !== "number") {
+    return undefined;
+  }
+  return { inputTokens, outputTokens, totalTokens: inputTokens + outputTokens };
+}
+
+type GenAIPart = {
+  type: string;
+  content?: unknown;
+  id?: string;
+  name?: string;
+  arguments?: unknown;
+  response?: unknown;
+};
+type GenAIMessage = { role: string; parts?: GenAIPart[] };
+
+/**
+ * Converts the gen_ai.system_instructions, gen_ai.input.messages and
+ * gen_ai.output.messages attributes (JSON strings) to normalized messages.
+ */
+function genAIMessages(attributes: OTelAttributes): Message[] {
+  const messages: Message[] = [];
+
+  const system = partsText(parseJSONArrayAttribute<GenAIPart>(attributes, "gen_ai.system_instructions"));
+  if (system) {
+    messages.push({ role: "system", content: system });
+  }
+
+  for (const key of ["gen_ai.input.messages", "gen_ai.output.messages"]) {
+    for (const message of parseJSONArrayAttribute<GenAIMessage>(attributes, key)) {
+      messages.push(...genAIMessageToMessages(message));
+    }
+  }
+  return messages;
+}
+
+function genAIMessageToMessages(message: GenAIMessage): Message[] {
+  const parts: GenAIPart[] = Array.isArray(message.parts) ? message.parts.filter(isObject) : [];
+  const result: Message[] = [];
+
+  const toolCalls: ToolCall[] = parts
+    .filter((part) => part.type === "tool_call")
+    .map((part) => ({
+      id: part.id ?? "",
+      name: part.name ?? "",
+      arguments: typeof part.arguments === "string" ? part.arguments : JSON.stringify(part.arguments ?? {}),
+    }));
+  const content = partsText(parts);
+  const reasoning = parts
+    .filter((part) => part.type === "reasoning" && typeof part.content === "string")
+    .map((part) => part.content as string)
+    .join("\n");
+
+  if (message.role !== "tool" && (content || reasoning || toolCalls.length > 0)) {
+    const role = ["user", "assistant", "system"].includes(message.role)
+      ? (message.role as Message["role"])
+      : "assistant";
+    const normalized: Message = { role, content };
+    if (reasoning) normalized.reasoning = reasoning;
+    if (toolCalls.length > 0) normalized.tool_calls = toolCalls;
+    result.push(normalized);
+  }
+
+  for (const part of parts) {
+    if (part.type === "tool_call_response") {
+      result.push({
+        role: "tool",
+        content: typeof part.response === "string" ? part.response : JSON.stringify(part.response),
+        tool_call_id: part.id ?? "",
+      });
+    }
+  }
+  return result;
+}
+
+function partsText(parts: GenAIPart[]): string {
+  return parts
+    .filter((part) => part.type === "text" && typeof part.content === "string")
+    .map((part) => part.content as string)
+    .join("\n");
+}
+
+/**
+ * Parses a JSON array attribute, keeping only its object elements.
+ * Missing, malformed and non-array values yield an empty array.
+ */
+function parseJSONArrayAttribute<T>(attributes: OTelAttributes, key: string): T[] {
+  const value = attributes[key];
+  if (typeof value !== "string") {
+    return [];
+  }
+  try {
+    const parsed: unknown = JSON.parse(value);
+    return Array.isArray(parsed) ? (parsed.filter(isObject) as T[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function describe(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
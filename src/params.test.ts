@@ -0,0 +1,238 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  toAnthropicParams,
+  toAnthropicTool,
+  toGeminiFunctionDeclaration,
+  toGeminiParams,
+  toOpenAIChatParams,
+  toOpenAITool,
+} from "./params";
+import { AgentResult, ToolResult } from "./types";
+
+const agent = (overrides: Partial<AgentResult> = {}): AgentResult => ({
+  systemPrompt: "You are helpful",
+  model: "test-model",
+  provider: "openai",
+  temperature: 0.7,
+  maxTokens: 256,
+  topP: null,
+  frequencyPenalty: null,
+  presencePenalty: null,
+  stopSequences: [],
+  tools: [],
+  source: "api",
+  agentId: "assistant",
+  majorVersion: 1,
+  minorVersion: 0,
+  evaluationId: null,
+  ...overrides,
+});
+
+describe("provider request builders", () => {
+  describe("toOpenAIChatParams", () => {
+    it("should prepend the system prompt and map hyperparameters", () => {
+      const params = toOpenAIChatParams(
+        agent({ topP: 0.9, frequencyPenalty: 0.1, presencePenalty: 0.2, stopSequences: ["END"] }),
+        [{ role: "user", content: "Hi" }]
+      );
+
+      expect(params).toEqual({
+        model: "test-model",
+        messages: [
+          { role: "system", content: "You are helpful" },
+          { role: "user", content: "Hi" },
+        ],
+        temperature: 0.7,
+        max_completion_tokens: 256,
+        top_p: 0.9,
+        frequency_penalty: 0.1,
+        presence_penalty: 0.2,
+        stop: ["END"],
+      });
+    });
+
+    it("should omit unset hyperparameters and an empty system prompt", () => {
+      const params = toOpenAIChatParams(
+        agent({ systemPrompt: "", temperature: null, maxTokens: null }),
+        [{ role: "user", content: "Hi" }]
+      );
+
+      expect(params).toEqual({ model: "test-model", messages: [{ role: "user", content: "Hi" }] });
+    });
+  });
+
+  describe("toAnthropicParams", () => {
+    it("should send the system prompt top-level and map hyperparameters", () => {
+      const onWarning = vi.fn();
+      const params = toAnthropicParams(
+        agent({ provider: "anthropic", topP: 0.9, stopSequences: ["END"] }),
+        [{ role: "user", content: "Hi" }],
+        { onWarning }
+      );
+
+      expect(params).toEqual({
+        model: "test-model",
+        max_tokens: 256,
+        messages: [{ role: "user", content: "Hi" }],
+        system: "You are helpful",
+        temperature: 0.7,
+        top_p: 0.9,
+        stop_sequences: ["END"],
+      });
+      expect(onWarning).not.toHaveBeenCalled();
+    });
+
+    it("should drop penalties with a warning", () => {
+      const onWarning = vi.fn();
+      const params = toAnthropicParams(
+        agent({ provider: "anthropic", frequencyPenalty: 0.5, presencePenalty: 0.5 }),
+        [],
+        { onWarning }
+      );
+
+      expect(params).not.toHaveProperty("frequency_penalty");
+      expect(params).not.toHaveProperty("presence_penalty");
+      expect(onWarning).toHaveBeenCalledTimes(2);
+      expect(onWarning.mock.calls[0][0]).toContain("frequencyPenalty is not supported by Anthropic");
+    });
+
+    it("should fall back to a default max_tokens", () => {
+      const params = toAnthropicParams(agent({ provider: "anthropic", maxTokens: null }), []);
+      expect(params.max_tokens).toBe(4096);
+
+      const custom = toAnthropicParams(agent({ provider: "anthropic", maxTokens: null }), [], {
+        defaultMaxTokens: 1000,
+      });
+      expect(custom.max_tokens).toBe(1000);
+    });
+  });
+
+  describe("toGeminiParams", () => {
+    it("should send systemInstruction and generationConfig", () => {
+      const contents = [{ role: "user", parts: [{ text: "Hi" }] }];
+      const params = toGeminiParams(agent({ provider: "google", stopSequences: ["END"] }), contents);
+
+      expect(params).toEqual({
+        contents,
+        systemInstruction: "You are helpful",
+        generationConfig: { temperature: 0.7, maxOutputTokens: 256, stopSequences: ["END"] },
+      });
+    });
+
+    it("should omit generationConfig when no hyperparameters are set", () => {
+      const params = toGeminiParams(
+        agent({ provider: "google", temperature: null, maxTokens: null }),
+        []
+      );
+      expect(params).not.toHaveProperty("generationConfig");
+    });
+  });
+
+  it("should warn when the agent is configured for another provider", () => {
+    const onWarning = vi.fn();
+    toGeminiParams(agent({ provider: "openai" }), [], { onWarning });
+
+    expect(onWarning).toHaveBeenCalledWith(
+      'Agent "assistant" is configured for provider "openai", not "google"'
+    );
+  });
+
+  it("should not write warnings to the console by default", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => undefined);
+    toAnthropicParams(agent(), []);
+
+    expect(warn).not.toHaveBeenCalled();
+    warn.mockRestore();
+  });
+
+  describe("tool definitions", () => {
+    const tool = (overrides: Partial<ToolResult> = {}): ToolResult => ({
+      prompt: "Get the current weather for a city",
+      source: "api",
+      toolId: "get_weather",
+      parameters: {
+        type: "object",
+        properties: {
+          city: { type: "string", description: "City name" },
+          unit: { type: ["string", "null"], enum: ["celsius", "fahrenheit", null], default: "celsius" },
+        },
+        required: ["city"],
+        additionalProperties: false,
+      },
+      ...overrides,
+    });
+
+    it("should build an OpenAI function tool", () => {
+      expect(toOpenAITool(tool())).toEqual({
+        type: "function",
+        function: {
+          name: "get_weather",
+          description: "Get the current weather for a city",
+          parameters: tool().parameters,
+        },
+      });
+      expect(toOpenAITool(tool({ parameters: null })).function).not.toHaveProperty("parameters");
+    });
+
+    it("should build an Anthropic tool with an object input schema", () => {
+      expect(toAnthropicTool(tool())).toEqual({
+        name: "get_weather",
+        description: "Get the current weather for a city",
+        input_schema: tool().parameters,
+      });
+      expect(toAnthropicTool(tool({ parameters: null })).input_schema).toEqual({ type: "object" });
+    });
+
+    it("should build a Gemini function declaration with the supported schema subset", () => {
+      expect(toGeminiFunctionDeclaration(tool())).toEqual({
+        name: "get_weather",
+        description: "Get the current weather for a city",
+        parameters: {
+          type: "object",
+          properties: {
+            city: { type: "string", description: "City name" },
+            unit: { type: "string", nullable: true, format: "enum", enum: ["celsius", "fahrenheit"] },
+          },
+          required: ["city"],
+        },
+      });
+    });
+
+    it("should convert anyOf with null to a nullable Gemini schema", () => {
+      const declaration = toGeminiFunctionDeclaration(
+        tool({
+          parameters: {
+            type: "object",
+            properties: { tags: { anyOf: [{ type: "array", items: { type: "string" } }, { type: "null" }] } },
+          },
+        })
+      );
+
+      expect(declaration.parameters?.properties.tags).toEqual({
+        type: "array",
+        items: { type: "string" },
+        nullable: true,
+      });
+      expect(toGeminiFunctionDeclaration(tool({ parameters: null }))).not.toHaveProperty("parameters");
+    });
+
+    it("should keep unions of several types as Gemini anyOf", () => {
+      const declaration = toGeminiFunctionDeclaration(
+        tool({
+          parameters: {
+            type: "object",
+            properties: {
+              id: { description: "Order id", anyOf: [{ type: "string" }, { type: "integer" }, { type: "null" }] },
+              limit: { type: ["integer", "string"] },
+            },
+          },
+        })
+      );
+
+      expect(declaration.parameters?.properties).toEqual({
+        id: { description: "Order id", anyOf: [{ type: "string" }, { type: "integer" }], nullable: true },
+        limit: { anyOf: [{ type: "integer" }, { type: "string" }] },
+      });
+    });
+  });
+});
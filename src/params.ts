@@ -0,0 +1,265 @@
+/**
+ * Provider request builders.
+ *
+ * Translate an AgentResult into the request shape each provider SDK expects:
+ * the system prompt goes where the provider wants it, hyperparameters get the
+ * provider's names, and unset (null) hyperparameters are left out rather than sent.
+ * Hyperparameters a provider doesn't support are dropped with a warning.
+ * Tool definitions are built the same way from a ToolResult.
+ *
+ * @example
+ * ```typescript
+ * const agent = await hone.agent("support", { model: "gpt-4o", provider: "openai", defaultPrompt });
+ * const response = await openai.chat.completions.create(toOpenAIChatParams(agent, messages));
+ * ```
+ */
+
+import { AIProvider, getProviderDisplayName } from "./providers.js";
+import { AgentResult, JSONSchema, ProviderParamsOptions, ToolResult } from "./types.js";
+
+// Import types from provider SDKs (dev dependencies)
+import type {
+  ChatCompletionCreateParamsNonStreaming,
+  ChatCompletionFunctionTool,
+  ChatCompletionMessageParam,
+} from "openai/resources/chat/completions";
+import type {
+  MessageCreateParamsNonStreaming,
+  MessageParam,
+  Tool as AnthropicTool,
+} from "@anthropic-ai/sdk/resources/messages";
+import type {
+  Content,
+  FunctionDeclaration,
+  FunctionDeclarationSchema,
+  GenerateContentRequest,
+} from "@google/generative-ai";
+
+const DEFAULT_ANTHROPIC_MAX_TOKENS = 4096;
+
+/**
+ * Builds OpenAI chat completion params for an agent.
+ * The system prompt is prepended to the messages as a system message.
+ *
+ * @param agent - The result of hone.agent()
+ * @param messages - The conversation, without the system prompt
+ */
+export function toOpenAIChatParams(
+  agent: AgentResult,
+  messages: ChatCompletionMessageParam[],
+  options: ProviderParamsOptions = {}
+): ChatCompletionCreateParamsNonStreaming {
+  checkProvider(agent, AIProvider.OpenAI, options);
+
+  const params: ChatCompletionCreateParamsNonStreaming = {
+    model: agent.model,
+    messages: agent.systemPrompt
+      ? [{ role: "system", content: agent.systemPrompt }, ...messages]
+      : messages,
+  };
+  if (agent.temperature !== null) params.temperature = agent.temperature;
+  if (agent.maxTokens !== null) params.max_completion_tokens = agent.maxTokens;
+  if (agent.topP !== null) params.top_p = agent.topP;
+  if (agent.frequencyPenalty !== null) params.frequency_penalty = agent.frequencyPenalty;
+  if (agent.presencePenalty !== null) params.presence_penalty = agent.presencePenalty;
+  if (agent.stopSequences.length > 0) params.stop = agent.stopSequences;
+  return params;
+}
+
+/**
+ * Builds Anthropic message params for an agent.
+ * The system prompt is sent as the top-level system param. Anthropic requires
+ * max_tokens, so options.defaultMaxTokens is used when the agent has none.
+ * Frequency and presence penalties aren't supported and are dropped.
+ *
+ * @param agent - The result of hone.agent()
+ * @param messages - The conversation
+ */
+export function toAnthropicParams(
+  agent: AgentResult,
+  messages: MessageParam[],
+  options: ProviderParamsOptions = {}
+): MessageCreateParamsNonStreaming {
+  checkProvider(agent, AIProvider.Anthropic, options);
+  unsupported(agent, AIProvider.Anthropic, ["frequencyPenalty", "presencePenalty"], options);
+
+  const params: MessageCreateParamsNonStreaming = {
+    model: agent.model,
+    max_tokens: agent.maxTokens ?? options.defaultMaxTokens ?? DEFAULT_ANTHROPIC_MAX_TOKENS,
+    messages,
+  };
+  if (agent.systemPrompt) params.system = agent.systemPrompt;
+  if (agent.temperature !== null) params.temperature = agent.temperature;
+  if (agent.topP !== null) params.top_p = agent.topP;
+  if (agent.stopSequences.length > 0) params.stop_sequences = agent.stopSequences;
+  return params;
+}
+
+/**
+ * Builds a Gemini generateContent request for an agent.
+ * The system prompt is sent as systemInstruction and hyperparameters as generationConfig.
+ * The model isn't part of the request; pass agent.model to getGenerativeModel().
+ *
+ * @example
+ * ```typescript
+ * const model = genAI.getGenerativeModel({ model: agent.model });
+ * const response = await model.generateContent(toGeminiParams(agent, contents));
+ * ```
+ *
+ * @param agent - The result of hone.agent()
+ * @param contents - The conversation
+ */
+export function toGeminiParams(
+  agent: AgentResult,
+  contents: Content[],
+  options: ProviderParamsOptions = {}
+): GenerateContentRequest {
+  checkProvider(agent, AIProvider.Google, options);
+
+  const generationConfig: NonNullable<GenerateContentRequest["generationConfig"]> = {};
+  if (agent.temperature !== null) generationConfig.temperature = agent.temperature;
+  if (agent.maxTokens !== null) generationConfig.maxOutputTokens = agent.maxTokens;
+  if (agent.topP !== null) generationConfig.topP = agent.topP;
+  if (agent.frequencyPenalty !== null) generationConfig.frequencyPenalty = agent.frequencyPenalty;
+  if (agent.presencePenalty !== null) generationConfig.presencePenalty = agent.presencePenalty;
+  if (agent.stopSequences.length > 0) generationConfig.stopSequences = agent.stopSequences;
+
+  const request: GenerateContentRequest = { contents };
+  if (agent.systemPrompt) request.systemInstruction = agent.systemPrompt;
+  if (Object.keys(generationConfig).length > 0) request.generationConfig = generationConfig;
+  return request;
+}
+
+/**
+ * Builds an OpenAI function tool definition for a tool.
+ * The tool id is the function name and the evaluated prompt its description.
+ *
+ * @example
+ * ```typescript
+ * const weather = await hone.tool("get_weather", { defaultPrompt, parameters });
+ * await openai.chat.completions.create({ ...toOpenAIChatParams(agent, messages), tools: [toOpenAITool(weather)] });
+ * ```
+ *
+ * @param tool - The result of hone.tool()
+ */
+export function toOpenAITool(tool: ToolResult): ChatCompletionFunctionTool {
+  const definition: ChatCompletionFunctionTool = {
+    type: "function",
+    function: { name: tool.toolId, description: tool.prompt },
+  };
+  if (tool.parameters) definition.function.parameters = tool.parameters;
+  return definition;
+}
+
+/**
+ * Builds an Anthropic tool definition for a tool.
+ * Anthropic requires an input schema, so tools without parameters take an empty object.
+ *
+ * @param tool - The result of hone.tool()
+ */
+export function toAnthropicTool(tool: ToolResult): AnthropicTool {
+  return {
+    name: tool.toolId,
+    description: tool.prompt,
+    input_schema: {
+      ...tool.parameters,
+      type: "object",
+    },
+  };
+}
+
+/**
+ * Builds a Gemini function declaration for a tool.
+ * Gemini accepts an OpenAPI subset of JSON Schema: keywords it doesn't support
+ * (e.g. additionalProperties, default) are removed, nullable types become `nullable`,
+ * and unions of several types become `anyOf`.
+ *
+ * @example
+ * ```typescript
+ * const model = genAI.getGenerativeModel({
+ *   model: agent.model,
+ *   tools: [{ functionDeclarations: [toGeminiFunctionDeclaration(weather)] }],
+ * });
+ * ```
+ *
+ * @param tool - The result of hone.tool()
+ */
+export function toGeminiFunctionDeclaration(tool: ToolResult): FunctionDeclaration {
+  const declaration: FunctionDeclaration = { name: tool.toolId, description: tool.prompt };
+  if (tool.parameters) {
+    declaration.parameters = toGeminiSchema(tool.parameters) as unknown as FunctionDeclarationSchema;
+  }
+  return declaration;
+}
+
+/** Schema keywords Gemini accepts, other than those converted below */
+const GEMINI_SCHEMA_KEYWORDS = ["description", "format", "minItems", "maxItems"];
+
+function toGeminiSchema(schema: JSONSchema): Record<string, unknown> {
+  const gemini: Record<string, unknown> = {};
+  let nullable = false;
+
+  // { anyOf: [schema, { type: "null" }] } is the nullable form of schema
+  const nonNull = schema.anyOf?.filter((option) => option.type !== "null");
+  if (schema.anyOf && nonNull?.length === 1) {
+    nullable = nonNull.length < schema.anyOf.length;
+    Object.assign(gemini, toGeminiSchema({ ...schema, ...nonNull[0], anyOf: undefined }));
+  } else if (schema.anyOf && nonNull && nonNull.length > 1) {
+    nullable = nonNull.length < schema.anyOf.length;
+    gemini.anyOf = nonNull.map(toGeminiSchema);
+  }
+
+  if (Array.isArray(schema.type)) {
+    const types = schema.type.filter((type) => type !== "null");
+    nullable = types.length < schema.type.length;
+    if (types.length === 1) {
+      gemini.type = types[0];
+    } else if (types.length > 1) {
+      // Gemini takes a single type; several become alternatives
+      gemini.anyOf = types.map((type) => toGeminiSchema({ ...schema, type, description: undefined }));
+    }
+  } else if (schema.type) {
+    gemini.type = schema.type;
+  }
+  if (nullable) gemini.nullable = true;
+
+  for (const keyword of GEMINI_SCHEMA_KEYWORDS) {
+    if (schema[keyword] !== undefined) gemini[keyword] = schema[keyword];
+  }
+  // Gemini only supports enums of strings
+  if (schema.enum && gemini.type === "string") {
+    gemini.enum = schema.enum.filter((value) => value !== null).map(String);
+    gemini.format = "enum";
+  }
+  if (schema.items) gemini.items = toGeminiSchema(schema.items);
+  if (schema.properties) {
+    gemini.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, property]) => [key, toGeminiSchema(property)])
+    );
+  }
+  if (schema.required?.length) gemini.required = schema.required;
+  return gemini;
+}
+
+function warn(options: ProviderParamsOptions, message: string): void {
+  options.onWarning?.(message);
+}
+
+function checkProvider(agent: AgentResult, provider: AIProvider, options: ProviderParamsOptions): void {
+  if (agent.provider !== provider) {
+    warn(options, `Agent "${agent.agentId}" is configured for provider "${agent.provider}", not "${provider}"`);
+  }
+}
+
+function unsupported(
+  agent: AgentResult,
+  provider: AIProvider,
+  fields: Array<"frequencyPenalty" | "presencePenalty">,
+  options: ProviderParamsOptions
+): void {
+  for (const field of fields) {
+    if (agent[field] !== null) {
+      warn(options, `${field} is not supported by ${getProviderDisplayName(provider)} and was not sent (agent "${agent.agentId}")`);
+    }
+  }
+}
@@ -0,0 +1,176 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { DEFAULT_TRACKING_QUEUE_CONFIG, TrackingQueue } from "./queue";
+import { createLogger } from "./logger";
+
+describe("TrackingQueue", () => {
+  const queues: TrackingQueue<number>[] = [];
+
+  const createQueue = (overrides: Partial<ConstructorParameters<typeof TrackingQueue<number>>[0]> = {}) => {
+    const send = vi.fn(async (_batch: number[]) => undefined);
+    const queue = new TrackingQueue<number>({
+      ...DEFAULT_TRACKING_QUEUE_CONFIG,
+      logger: createLogger(),
+      send,
+      ...overrides,
+    });
+    queues.push(queue);
+    return { queue, send: (overrides.send as typeof send) ?? send };
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await Promise.all(queues.splice(0).map((q) => q.shutdown()));
+  });
+
+  it("should not send until the flush interval elapses", async () => {
+    const { queue, send } = createQueue({ flushInterval: 1000 });
+
+    queue.enqueue(1);
+    queue.enqueue(2);
+    expect(send).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(send).toHaveBeenCalledWith([1, 2]);
+    expect(queue.size).toBe(0);
+  });
+
+  it("should flush immediately when the batch size is reached", async () => {
+    const { queue, send } = createQueue({ maxBatchSize: 2 });
+
+    queue.enqueue(1);
+    queue.enqueue(2);
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(send).toHaveBeenCalledWith([1, 2]);
+  });
+
+  it("should split a flush into batches of maxBatchSize", async () => {
+    const { queue, send } = createQueue({ maxBatchSize: 2, flushInterval: 1000 });
+    send.mockImplementation(async () => undefined);
+
+    queue.enqueue(1);
+    queue.enqueue(2);
+    queue.enqueue(3);
+    await queue.flush();
+
+    expect(send.mock.calls.map((c) => c[0])).toEqual([[1, 2], [3]]);
+  });
+
+  it("should drop the oldest item when full by default", async () => {
+    const onDrop = vi.fn();
+    const { queue, send } = createQueue({ maxQueueSize: 2, onDrop });
+
+    queue.enqueue(1);
+    queue.enqueue(2);
+    queue.enqueue(3);
+    await queue.flush();
+
+    expect(onDrop).toHaveBeenCalledWith(1);
+    expect(send).toHaveBeenCalledWith([2, 3]);
+  });
+
+  it("should drop the incoming item with the newest policy", async () => {
+    const onDrop = vi.fn();
+    const { queue, send } = createQueue({ maxQueueSize: 2, dropPolicy: "newest", onDrop });
+
+    queue.enqueue(1);
+    queue.enqueue(2);
+    queue.enqueue(3);
+    await queue.flush();
+
+    expect(onDrop).toHaveBeenCalledWith(3);
+    expect(send).toHaveBeenCalledWith([1, 2]);
+  });
+
+  it("should report failed batches and continue with the next one", async () => {
+    const onFlushError = vi.fn();
+    const error = new Error("down");
+    const send = vi.fn().mockRejectedValueOnce(error).mockResolvedValueOnce(undefined);
+    const { queue } = createQueue({ maxBatchSize: 1, flushInterval: 1000, send, onFlushError });
+
+    queue.enqueue(1);
+    queue.enqueue(2);
+    await queue.flush();
+
+    expect(onFlushError).toHaveBeenCalledWith(error, [1]);
+    expect(send).toHaveBeenCalledTimes(2);
+    expect(queue.size).toBe(0);
+  });
+
+  it("should log errors thrown by the hooks instead of rejecting", async () => {
+    const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+    const send = vi.fn().mockRejectedValue(new Error("down"));
+    const { queue } = createQueue({
+      maxBatchSize: 2,
+      maxQueueSize: 1,
+      dropPolicy: "newest",
+      send,
+      logger,
+      onFlushError: () => {
+        throw new Error("hook boom");
+      },
+      onDrop: () => {
+        throw new Error("drop boom");
+      },
+    });
+
+    queue.enqueue(1);
+    queue.enqueue(2);
+    await expect(queue.flush()).resolves.toBeUndefined();
+
+    expect(logger.error).toHaveBeenCalledWith({ hook: "onDrop", error: "drop boom" }, "Tracking queue hook threw");
+    expect(logger.error).toHaveBeenCalledWith(
+      { hook: "onFlushError", error: "hook boom" },
+      "Tracking queue hook threw"
+    );
+  });
+
+  it("should let concurrent flush calls wait for the in-progress flush", async () => {
+    let release!: () => void;
+    const send = vi.fn(() => new Promise<void>((resolve) => (release = resolve)));
+    const { queue } = createQueue({ send });
+
+    queue.enqueue(1);
+    const first = queue.flush();
+    const second = queue.flush();
+    let secondDone = false;
+    void second.then(() => (secondDone = true));
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(secondDone).toBe(false);
+
+    release();
+    await Promise.all([first, second]);
+    expect(send).toHaveBeenCalledTimes(1);
+  });
+
+  it("should flush on process beforeExit", async () => {
+    const { queue, send } = createQueue();
+
+    queue.enqueue(1);
+    process.emit("beforeExit", 0);
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(send).toHaveBeenCalledWith([1]);
+  });
+
+  it("should stop listening for beforeExit after shutdown", async () => {
+    const { queue } = createQueue();
+    const before = process.listenerCount("beforeExit");
+
+    await queue.shutdown();
+
+    expect(process.listenerCount("beforeExit")).toBe(before - 1);
+  });
+
+  it("should not listen for beforeExit when flushOnExit is false", () => {
+    const before = process.listenerCount("beforeExit");
+    createQueue({ flushOnExit: false });
+
+    expect(process.listenerCount("beforeExit")).toBe(before);
+  });
+});
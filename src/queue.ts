@@ -0,0 +1,170 @@
+/**
+ * Background batching queue for tracking requests.
+ *
+ * Items are buffered in memory and sent in batches when the batch size is
+ * reached or the flush interval elapses, so track() never waits on the network.
+ */
+
+import { TrackingConfig } from "./types.js";
+import { HoneLogger } from "./logger.js";
+
+export type ResolvedTrackingQueueConfig<T> = Required<
+  Pick<TrackingConfig, "maxBatchSize" | "flushInterval" | "maxQueueSize" | "dropPolicy" | "flushOnExit">
+> & {
+  /** Sends one batch; rejections are reported through onFlushError */
+  send: (batch: T[]) => Promise<void>;
+  onFlushError?: (error: unknown, batch: T[]) => void;
+  onDrop?: (item: T) => void;
+  logger: HoneLogger;
+};
+
+export const DEFAULT_TRACKING_QUEUE_CONFIG = {
+  maxBatchSize: 50,
+  flushInterval: 5000,
+  maxQueueSize: 1000,
+  dropPolicy: "oldest" as const,
+  flushOnExit: true,
+};
+
+/**
+ * A bounded in-memory queue that flushes in batches.
+ */
+export class TrackingQueue<T> {
+  private items: T[] = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private flushing: Promise<void> | null = null;
+  private closed = false;
+  private readonly beforeExitHandler = () => {
+    if (this.items.length > 0) {
+      void this.flush();
+    }
+  };
+
+  constructor(private config: ResolvedTrackingQueueConfig<T>) {
+    if (config.flushOnExit) {
+      process.on("beforeExit", this.beforeExitHandler);
+    }
+  }
+
+  /**
+   * Number of items waiting to be sent.
+   */
+  get size(): number {
+    return this.items.length;
+  }
+
+  /**
+   * Adds an item to the queue. Never blocks or throws.
+   * When the queue is full, an item is dropped according to the drop policy.
+   */
+  enqueue(item: T): void {
+    if (this.items.length >= this.config.maxQueueSize) {
+      const dropped = this.config.dropPolicy === "oldest" ? this.items.shift()! : item;
+      this.config.logger.warn(
+        { maxQueueSize: this.config.maxQueueSize, dropPolicy: this.config.dropPolicy },
+        "Tracking queue full, dropping item",
+      );
+      this.callHook("onDrop", () => this.config.onDrop?.(dropped));
+      if (dropped === item) {
+        return;
+      }
+    }
+
+    this.items.push(item);
+
+    if (this.items.length >= this.config.maxBatchSize) {
+      void this.flush();
+    } else {
+      this.scheduleFlush();
+    }
+  }
+
+  /**
+   * Sends all queued items and resolves once they have been sent or failed.
+   * Failed batches are reported through onFlushError and are not re-queued.
+   */
+  async flush(): Promise<void> {
+    this.clearTimer();
+
+    // Wait for any flush already in progress, then drain whatever is left
+    while (this.flushing) {
+      await this.flushing;
+    }
+    if (this.items.length === 0) {
+      return;
+    }
+
+    this.flushing = this.drain();
+    try {
+      await this.flushing;
+    } finally {
+      this.flushing = null;
+    }
+  }
+
+  /**
+   * Flushes remaining items and stops the queue.
+   * Items enqueued after shutdown are sent on the next explicit flush().
+   */
+  async shutdown(): Promise<void> {
+    if (!this.closed) {
+      this.closed = true;
+      process.off("beforeExit", this.beforeExitHandler);
+    }
+    await this.flush();
+  }
+
+  private async drain(): Promise<void> {
+    while (this.items.length > 0) {
+      const batch = this.items.splice(0, this.config.maxBatchSize);
+      const startedAt = Date.now();
+      try {
+        await this.config.send(batch);
+        this.config.logger.debug(
+          { count: batch.length, durationMs: Date.now() - startedAt, remaining: this.items.length },
+          "Flushed tracking batch",
+        );
+      } catch (error) {
+        this.config.logger.error(
+          { count: batch.length, error: error instanceof Error ? error.message : String(error) },
+          "Failed to flush tracking batch",
+        );
+        this.callHook("onFlushError", () => this.config.onFlushError?.(error, batch));
+      }
+    }
+  }
+
+  /**
+   * Calls a user hook. Errors it throws are logged, since flushes run in the background
+   * and would otherwise surface as unhandled rejections.
+   */
+  private callHook(name: string, hook: () => void): void {
+    try {
+      hook();
+    } catch (error) {
+      this.config.logger.error(
+        { hook: name, error: error instanceof Error ? error.message : String(error) },
+        "Tracking queue hook threw",
+      );
+    }
+  }
+
+  private scheduleFlush(): void {
+    if (this.timer || this.closed) {
+      return;
+    }
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      void this.flush();
+    }, this.config.flushInterval);
+    // Never keep the process alive just for a pending flush; beforeExit covers it
+    this.timer.unref?.();
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+}
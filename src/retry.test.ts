@@ -0,0 +1,125 @@
+import { describe, it, expect } from "vitest";
+import {
+  HoneAuthenticationError,
+  HoneNetworkError,
+  HoneRateLimitError,
+  HoneServerError,
+  HoneTimeoutError,
+} from "./errors";
+import {
+  DEFAULT_RETRY_POLICY,
+  computeRetryDelay,
+  parseRetryAfter,
+  resolveRetryPolicy,
+  shouldRetry,
+} from "./retry";
+
+describe("retry", () => {
+  describe("resolveRetryPolicy", () => {
+    it("should return null when retries are not configured", () => {
+      expect(resolveRetryPolicy(undefined, "evaluate")).toBeNull();
+      expect(resolveRetryPolicy(false, "track")).toBeNull();
+    });
+
+    it("should return defaults when retry is true", () => {
+      expect(resolveRetryPolicy(true, "evaluate")).toEqual(DEFAULT_RETRY_POLICY);
+    });
+
+    it("should merge top-level fields with per-scope overrides", () => {
+      const config = { maxAttempts: 5, baseDelay: 100, track: { maxAttempts: 2 } };
+
+      expect(resolveRetryPolicy(config, "evaluate")).toMatchObject({ maxAttempts: 5, baseDelay: 100 });
+      expect(resolveRetryPolicy(config, "track")).toMatchObject({ maxAttempts: 2, baseDelay: 100 });
+    });
+
+    it("should disable a scope with false", () => {
+      const config = { maxAttempts: 5, track: false };
+
+      expect(resolveRetryPolicy(config, "evaluate")).not.toBeNull();
+      expect(resolveRetryPolicy(config, "track")).toBeNull();
+    });
+
+    it("should ignore undefined fields", () => {
+      expect(resolveRetryPolicy({ maxAttempts: undefined }, "evaluate")?.maxAttempts).toBe(3);
+    });
+  });
+
+  describe("shouldRetry", () => {
+    const policy = DEFAULT_RETRY_POLICY;
+    const network = new HoneNetworkError("fetch failed");
+    const timeout = new HoneTimeoutError("timed out", { timeoutMs: 10 });
+
+    it("should retry retryable status codes", () => {
+      expect(shouldRetry(policy, new HoneRateLimitError("", { status: 429 }), 1)).toBe(true);
+      expect(shouldRetry(policy, new HoneServerError("", { status: 503 }), 1)).toBe(true);
+    });
+
+    it("should not retry other status codes", () => {
+      expect(shouldRetry(policy, new HoneAuthenticationError("", { status: 401 }), 1)).toBe(false);
+      expect(shouldRetry({ ...policy, retryOnStatus: [429] }, new HoneServerError("", { status: 503 }), 1)).toBe(false);
+    });
+
+    it("should respect network and timeout flags", () => {
+      const noNetwork = { ...policy, retryOnNetworkError: false, retryOnTimeout: false };
+
+      expect(shouldRetry(policy, network, 1)).toBe(true);
+      expect(shouldRetry(policy, timeout, 1)).toBe(true);
+      expect(shouldRetry(noNetwork, network, 1)).toBe(false);
+      expect(shouldRetry(noNetwork, timeout, 1)).toBe(false);
+    });
+
+    it("should not retry unknown errors", () => {
+      expect(shouldRetry(policy, new Error("boom"), 1)).toBe(false);
+    });
+
+    it("should stop after maxAttempts", () => {
+      expect(shouldRetry(policy, network, 2)).toBe(true);
+      expect(shouldRetry(policy, network, 3)).toBe(false);
+    });
+  });
+
+  describe("computeRetryDelay", () => {
+    const policy = { ...DEFAULT_RETRY_POLICY, jitter: "none" as const, baseDelay: 100, maxDelay: 1000 };
+
+    it("should back off exponentially", () => {
+      expect(computeRetryDelay(policy, 1)).toBe(100);
+      expect(computeRetryDelay(policy, 2)).toBe(200);
+      expect(computeRetryDelay(policy, 3)).toBe(400);
+    });
+
+    it("should cap at maxDelay", () => {
+      expect(computeRetryDelay(policy, 10)).toBe(1000);
+    });
+
+    it("should apply full jitter", () => {
+      const jittered = { ...policy, jitter: "full" as const };
+      expect(computeRetryDelay(jittered, 2, undefined, () => 0.5)).toBe(100);
+    });
+
+    it("should use Retry-After when respected", () => {
+      expect(computeRetryDelay(policy, 1, 500)).toBe(500);
+      expect(computeRetryDelay(policy, 1, 5000)).toBe(1000);
+      expect(computeRetryDelay({ ...policy, respectRetryAfter: false }, 1, 500)).toBe(100);
+    });
+  });
+
+  describe("parseRetryAfter", () => {
+    it("should parse delay-seconds", () => {
+      expect(parseRetryAfter("2")).toBe(2000);
+      expect(parseRetryAfter("0")).toBe(0);
+    });
+
+    it("should parse HTTP dates relative to now", () => {
+      const now = Date.parse("2025-01-01T00:00:00Z");
+      expect(parseRetryAfter("Wed, 01 Jan 2025 00:00:03 GMT", now)).toBe(3000);
+      expect(parseRetryAfter("Tue, 31 Dec 2024 23:59:00 GMT", now)).toBe(0);
+    });
+
+    it("should return undefined for missing or invalid values", () => {
+      expect(parseRetryAfter(null)).toBeUndefined();
+      expect(parseRetryAfter("")).toBeUndefined();
+      expect(parseRetryAfter("soon")).toBeUndefined();
+      expect(parseRetryAfter("-1")).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * Retry helpers for the Hone SDK HTTP layer.
+ *
+ * Resolves the user-facing RetryConfig into a concrete policy per request scope
+ * and computes exponential backoff delays.
+ */
+
+import { RetryConfig, RetryPolicy, RetryScope } from "./types.js";
+import { HoneError, HoneNetworkError, HoneTimeoutError } from "./errors.js";
+
+/**
+ * A fully resolved retry policy with every field set.
+ */
+export type ResolvedRetryPolicy = Required<RetryPolicy>;
+
+export const DEFAULT_RETRY_POLICY: ResolvedRetryPolicy = {
+  maxAttempts: 3,
+  baseDelay: 250,
+  maxDelay: 10000,
+  jitter: "full",
+  retryOnStatus: [408, 429, 500, 502, 503, 504],
+  retryOnNetworkError: true,
+  retryOnTimeout: true,
+  respectRetryAfter: true,
+};
+
+/**
+ * Resolves the retry policy for a request scope.
+ *
+ * @param config - The retry option from HoneConfig
+ * @param scope - The group of requests the policy applies to
+ * @returns The resolved policy, or null if retries are disabled for the scope
+ */
+export function resolveRetryPolicy(
+  config: RetryConfig | boolean | undefined,
+  scope: RetryScope
+): ResolvedRetryPolicy | null {
+  if (!config) {
+    return null;
+  }
+  if (config === true) {
+    return { ...DEFAULT_RETRY_POLICY };
+  }
+
+  const { evaluate, track, ...base } = config;
+  const override = scope === "evaluate" ? evaluate : track;
+  if (override === false) {
+    return null;
+  }
+
+  return {
+    ...DEFAULT_RETRY_POLICY,
+    ...stripUndefined(base),
+    ...(typeof override === "object" ? stripUndefined(override) : {}),
+  };
+}
+
+/**
+ * Returns true if the failed attempt should be retried under the given policy.
+ *
+ * @param policy - The resolved retry policy
+ * @param error - The error thrown by the attempt that just completed
+ * @param attempt - The 1-based number of the attempt that just failed
+ */
+export function shouldRetry(
+  policy: ResolvedRetryPolicy,
+  error: unknown,
+  attempt: number
+): boolean {
+  if (attempt >= policy.maxAttempts) {
+    return false;
+  }
+  if (error instanceof HoneTimeoutError) {
+    return policy.retryOnTimeout;
+  }
+  if (error instanceof HoneNetworkError) {
+    return policy.retryOnNetworkError;
+  }
+  if (error instanceof HoneError && error.status !== undefined) {
+    return policy.retryOnStatus.includes(error.status);
+  }
+  return false;
+}
+
+/**
+ * Computes the delay before the next attempt.
+ * Uses the Retry-After value when present and respected, otherwise exponential backoff
+ * with optional jitter. The result never exceeds policy.maxDelay.
+ *
+ * @param policy - The resolved retry policy
+ * @param attempt - The 1-based number of the attempt that just failed
+ * @param retryAfterMs - Delay requested by the server, if any
+ * @param random - Random number source in [0, 1), injectable for tests
+ */
+export function computeRetryDelay(
+  policy: ResolvedRetryPolicy,
+  attempt: number,
+  retryAfterMs?: number,
+  random: () => number = Math.random
+): number {
+  if (policy.respectRetryAfter && retryAfterMs !== undefined) {
+    return Math.min(retryAfterMs, policy.maxDelay);
+  }
+
+  const backoff = Math.min(policy.baseDelay * 2 ** (attempt - 1), policy.maxDelay);
+  return policy.jitter === "full" ? Math.floor(random() * backoff) : backoff;
+}
+
+/**
+ * Parses a Retry-After header value, which is either delay-seconds or an HTTP date.
+ *
+ * @param value - The raw header value
+ * @param now - Current time in ms, injectable for tests
+ * @returns The delay in ms, or undefined if the header is missing or invalid
+ */
+export function parseRetryAfter(
+  value: string | null | undefined,
+  now: number = Date.now()
+): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return seconds >= 0 ? seconds * 1000 : undefined;
+  }
+
+  const date = Date.parse(value);
+  if (Number.isNaN(date)) {
+    return undefined;
+  }
+  return Math.max(0, date - now);
+}
+
+/**
+ * Resolves after the given number of milliseconds.
+ */
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function stripUndefined<T extends object>(value: T): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(value).filter(([, v]) => v !== undefined)
+  ) as Partial<T>;
+}
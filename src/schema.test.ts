@@ -0,0 +1,138 @@
+import { describe, it, expect, vi } from "vitest";
+import { isZodSchema, toJSONSchema } from "./schema";
+import { HoneValidationError } from "./errors";
+import { Zod4SchemaLike, ZodSchemaLike } from "./types";
+
+// Minimal Zod v3 schemas: zod isn't a dependency, and only `_def` is read
+const zod = (typeName: string, def: Record<string, unknown> = {}): ZodSchemaLike =>
+  ({ _def: { typeName, ...def } }) as ZodSchemaLike;
+const z = {
+  string: (checks: unknown[] = []) => zod("ZodString", { checks }),
+  number: (checks: unknown[] = []) => zod("ZodNumber", { checks }),
+  boolean: () => zod("ZodBoolean"),
+  enum: (values: string[]) => zod("ZodEnum", { values }),
+  array: (type: ZodSchemaLike) => zod("ZodArray", { type, minLength: null, maxLength: null }),
+  object: (shape: Record<string, ZodSchemaLike>) => zod("ZodObject", { shape: () => shape }),
+  optional: (innerType: ZodSchemaLike) => zod("ZodOptional", { innerType }),
+  nullable: (innerType: ZodSchemaLike) => zod("ZodNullable", { innerType }),
+  describe: (schema: ZodSchemaLike, description: string) =>
+    ({ _def: { ...schema._def, description } }) as ZodSchemaLike,
+};
+
+describe("toJSONSchema", () => {
+  it("should return JSON Schemas as is", () => {
+    const schema = { type: "object", properties: { city: { type: "string" } } };
+    expect(isZodSchema(schema)).toBe(false);
+    expect(toJSONSchema(schema)).toBe(schema);
+  });
+
+  it("should convert a Zod object with descriptions and optional properties", () => {
+    const schema = z.describe(
+      z.object({
+        city: z.describe(z.string([{ kind: "min", value: 1 }]), "City name"),
+        unit: z.optional(z.enum(["celsius", "fahrenheit"])),
+        days: zod("ZodDefault", {
+          innerType: z.number([{ kind: "int" }, { kind: "min", value: 1, inclusive: true }]),
+          defaultValue: () => 1,
+        }),
+        tags: z.array(z.string()),
+      }),
+      "Forecast request"
+    );
+
+    expect(isZodSchema(schema)).toBe(true);
+    expect(toJSONSchema(schema)).toEqual({
+      type: "object",
+      description: "Forecast request",
+      properties: {
+        city: { type: "string", minLength: 1, description: "City name" },
+        unit: { type: "string", enum: ["celsius", "fahrenheit"] },
+        days: { type: "integer", minimum: 1, default: 1 },
+        tags: { type: "array", items: { type: "string" } },
+      },
+      required: ["city", "tags"],
+    });
+  });
+
+  it("should convert nullable types and unions", () => {
+    expect(toJSONSchema(z.nullable(z.string([{ kind: "email" }])))).toEqual({
+      type: ["string", "null"],
+      format: "email",
+    });
+    expect(toJSONSchema(z.nullable(z.enum(["a", "b"])))).toEqual({
+      type: ["string", "null"],
+      enum: ["a", "b", null],
+    });
+    expect(toJSONSchema(zod("ZodUnion", { options: [z.string(), z.number()] }))).toEqual({
+      anyOf: [{ type: "string" }, { type: "number" }],
+    });
+  });
+
+  it("should keep optional properties optional inside wrappers", () => {
+    const schema = z.object({
+      when: zod("ZodEffects", { schema: z.optional(z.string()) }),
+      note: z.nullable(z.optional(z.string())),
+      ref: zod("ZodBranded", { type: zod("ZodReadonly", { innerType: z.optional(z.string()) }) }),
+      count: zod("ZodPipeline", { in: z.optional(z.string()), out: z.number() }),
+      name: zod("ZodEffects", { schema: z.string() }),
+    });
+
+    expect(toJSONSchema(schema).required).toEqual(["name"]);
+  });
+
+  it("should look through effects", () => {
+    const refined = zod("ZodEffects", { schema: z.boolean() });
+    expect(toJSONSchema(refined)).toEqual({ type: "boolean" });
+  });
+
+  it("should convert numeric native enums to their values", () => {
+    // enum Priority { Low, High }
+    const values = { Low: 0, High: 1, 0: "Low", 1: "High" };
+    expect(toJSONSchema(zod("ZodNativeEnum", { values }))).toEqual({ type: "number", enum: [0, 1] });
+  });
+
+  it("should throw for Zod types with no JSON Schema equivalent", () => {
+    expect(() => toJSONSchema(z.object({ callback: zod("ZodFunction") }))).toThrow(HoneValidationError);
+    expect(() => toJSONSchema(zod("ZodFunction"))).toThrow("Unsupported Zod type in tool parameters: ZodFunction");
+  });
+
+  describe("Zod v4", () => {
+    // v4 schemas keep their definition in `_zod.def`; `_def` is an alias without typeName
+    const zod4 = (toJSONSchema?: Zod4SchemaLike["toJSONSchema"]): Zod4SchemaLike =>
+      ({ _zod: { def: { type: "object" } }, _def: { type: "object" }, toJSONSchema }) as Zod4SchemaLike;
+
+    it("should convert with the schema's own toJSONSchema", () => {
+      const convert = vi.fn(() => ({
+        $schema: "https://json-schema.org/draft/2020-12/schema",
+        type: "object",
+        properties: { city: { type: "string" } },
+        required: ["city"],
+      }));
+      const schema = zod4(convert);
+
+      expect(isZodSchema(schema)).toBe(true);
+      expect(toJSONSchema(schema)).toEqual({
+        type: "object",
+        properties: { city: { type: "string" } },
+        required: ["city"],
+      });
+      expect(convert).toHaveBeenCalledWith({ io: "input" });
+    });
+
+    it("should ask for z.toJSONSchema() when the schema can't convert itself", () => {
+      expect(() => toJSONSchema(zod4())).toThrow(HoneValidationError);
+      expect(() => toJSONSchema(zod4())).toThrow("pass z.toJSONSchema(schema) as the tool parameters");
+    });
+
+    it("should throw a HoneValidationError when the conversion fails", () => {
+      const schema = zod4(() => {
+        throw new Error("Transforms cannot be represented in JSON Schema");
+      });
+
+      expect(() => toJSONSchema(schema)).toThrow(HoneValidationError);
+      expect(() => toJSONSchema(schema)).toThrow(
+        "Unsupported Zod schema in tool parameters: Transforms cannot be represented in JSON Schema"
+      );
+    });
+  });
+});
@@ -0,0 +1,258 @@
+/**
+ * Tool parameter schemas.
+ *
+ * Tool arguments are described with JSON Schema. Zod schemas are accepted too; zod
+ * isn't a dependency, so they're recognized structurally. v3 schemas are converted
+ * here from their `_def`, covering the types that make sense as tool arguments.
+ * v4 schemas convert themselves with their toJSONSchema() method.
+ */
+
+import { HoneValidationError } from "./errors.js";
+import { JSONSchema, Zod4SchemaLike, ZodSchemaLike } from "./types.js";
+
+/** The parts of a Zod schema's `_def` read during conversion */
+type ZodDef = {
+  typeName: string;
+  description?: string;
+  checks?: Array<{ kind: string; value?: number; inclusive?: boolean; regex?: RegExp }>;
+  shape?: () => Record<string, ZodSchemaLike>;
+  type?: ZodSchemaLike;
+  innerType?: ZodSchemaLike;
+  schema?: ZodSchemaLike;
+  in?: ZodSchemaLike;
+  valueType?: ZodSchemaLike;
+  options?: ZodSchemaLike[] | Map<unknown, ZodSchemaLike>;
+  values?: string[] | Record<string, string | number>;
+  value?: unknown;
+  defaultValue?: () => unknown;
+  minLength?: { value: number } | null;
+  maxLength?: { value: number } | null;
+};
+
+/**
+ * Returns true if value is a Zod (v3 or v4) schema.
+ */
+export function isZodSchema(value: unknown): value is ZodSchemaLike | Zod4SchemaLike {
+  return isZod3Schema(value) || isZod4Schema(value);
+}
+
+/**
+ * Converts tool parameters to JSON Schema. JSON Schemas are returned as is.
+ *
+ * @param schema - A JSON Schema or a Zod (v3 or v4) schema
+ * @throws HoneValidationError if the Zod schema uses a type with no JSON Schema equivalent,
+ *   or is a v4 schema without a toJSONSchema() method
+ */
+export function toJSONSchema(schema: JSONSchema | ZodSchemaLike | Zod4SchemaLike): JSONSchema {
+  if (isZod4Schema(schema)) {
+    return zod4ToJSONSchema(schema);
+  }
+  return isZod3Schema(schema) ? zodToJSONSchema(schema) : schema;
+}
+
+function isZod3Schema(value: unknown): value is ZodSchemaLike {
+  if (typeof value !== "object" || value === null || !("_def" in value)) {
+    return false;
+  }
+  const def = (value as { _def: unknown })._def;
+  return typeof def === "object" && def !== null && typeof (def as { typeName?: unknown }).typeName === "string";
+}
+
+function isZod4Schema(value: unknown): value is Zod4SchemaLike {
+  if (typeof value !== "object" || value === null || !("_zod" in value)) {
+    return false;
+  }
+  const internals = (value as { _zod: unknown })._zod;
+  return typeof internals === "object" && internals !== null && "def" in internals;
+}
+
+function zod4ToJSONSchema(schema: Zod4SchemaLike): JSONSchema {
+  // zod/mini schemas have no toJSONSchema() method; z.toJSONSchema() converts them
+  if (typeof schema.toJSONSchema !== "function") {
+    throw new HoneValidationError(
+      "Zod v4 schema has no toJSONSchema() method; pass z.toJSONSchema(schema) as the tool parameters"
+    );
+  }
+
+  let json: JSONSchema;
+  try {
+    // Tool arguments are inputs: properties with defaults are optional
+    json = { ...schema.toJSONSchema({ io: "input" }) };
+  } catch (error) {
+    throw new HoneValidationError(
+      `Unsupported Zod schema in tool parameters: ${error instanceof Error ? error.message : String(error)}`,
+      { cause: error }
+    );
+  }
+  delete json.$schema;
+  return json;
+}
+
+function zodToJSONSchema(schema: ZodSchemaLike): JSONSchema {
+  const def = schema._def as ZodDef;
+  const json = convertZodDef(def);
+  if (def.description) json.description = def.description;
+  return json;
+}
+
+function convertZodDef(def: ZodDef): JSONSchema {
+  switch (def.typeName) {
+    case "ZodString":
+      return stringSchema(def);
+    case "ZodNumber":
+      return numberSchema(def);
+    case "ZodBigInt":
+      return { type: "integer" };
+    case "ZodBoolean":
+      return { type: "boolean" };
+    case "ZodNull":
+      return { type: "null" };
+    case "ZodDate":
+      return { type: "string", format: "date-time" };
+    case "ZodAny":
+    case "ZodUnknown":
+      return {};
+    case "ZodLiteral":
+      return { type: typeof def.value, enum: [def.value] };
+    case "ZodEnum":
+      return { type: "string", enum: def.values as string[] };
+    case "ZodNativeEnum": {
+      // Numeric native enums map names to values and values back to names
+      const values = def.values as Record<string, string | number>;
+      const members = Object.keys(values)
+        .filter((key) => typeof values[values[key]] !== "number")
+        .map((key) => values[key]);
+      const types = [...new Set(members.map((member) => typeof member))];
+      return { type: types.length === 1 ? types[0] : types, enum: members };
+    }
+    case "ZodArray": {
+      const json: JSONSchema = { type: "array", items: zodToJSONSchema(def.type as ZodSchemaLike) };
+      if (def.minLength) json.minItems = def.minLength.value;
+      if (def.maxLength) json.maxItems = def.maxLength.value;
+      return json;
+    }
+    case "ZodObject":
+      return objectSchema(def);
+    case "ZodRecord":
+      return { type: "object", additionalProperties: zodToJSONSchema(def.valueType as ZodSchemaLike) };
+    case "ZodUnion":
+    case "ZodDiscriminatedUnion": {
+      const options = def.options instanceof Map ? [...def.options.values()] : (def.options ?? []);
+      return { anyOf: options.map(zodToJSONSchema) };
+    }
+    case "ZodNullable":
+      return nullable(zodToJSONSchema(def.innerType as ZodSchemaLike));
+    case "ZodDefault":
+      return { ...zodToJSONSchema(def.innerType as ZodSchemaLike), default: def.defaultValue?.() };
+    case "ZodOptional":
+    case "ZodReadonly":
+    case "ZodCatch":
+      // Optional properties are left out of the parent's `required`
+      return zodToJSONSchema(def.innerType as ZodSchemaLike);
+    case "ZodEffects":
+      return zodToJSONSchema(def.schema as ZodSchemaLike);
+    case "ZodBranded":
+      return zodToJSONSchema(def.type as ZodSchemaLike);
+    case "ZodPipeline":
+      return zodToJSONSchema(def.in as ZodSchemaLike);
+    default:
+      throw new HoneValidationError(`Unsupported Zod type in tool parameters: ${def.typeName}`);
+  }
+}
+
+function stringSchema(def: ZodDef): JSONSchema {
+  const json: JSONSchema = { type: "string" };
+  for (const check of def.checks ?? []) {
+    switch (check.kind) {
+      case "min":
+        json.minLength = check.value;
+        break;
+      case "max":
+        json.maxLength = check.value;
+        break;
+      case "length":
+        json.minLength = check.value;
+        json.maxLength = check.value;
+        break;
+      case "email":
+        json.format = "email";
+        break;
+      case "url":
+        json.format = "uri";
+        break;
+      case "uuid":
+        json.format = "uuid";
+        break;
+      case "datetime":
+        json.format = "date-time";
+        break;
+      case "regex":
+        if (check.regex) json.pattern = check.regex.source;
+        break;
+    }
+  }
+  return json;
+}
+
+function numberSchema(def: ZodDef): JSONSchema {
+  const json: JSONSchema = { type: "number" };
+  for (const check of def.checks ?? []) {
+    if (check.kind === "int") {
+      json.type = "integer";
+    } else if (check.kind === "min") {
+      json[check.inclusive ? "minimum" : "exclusiveMinimum"] = check.value;
+    } else if (check.kind === "max") {
+      json[check.inclusive ? "maximum" : "exclusiveMaximum"] = check.value;
+    }
+  }
+  return json;
+}
+
+function objectSchema(def: ZodDef): JSONSchema {
+  const properties: Record<string, JSONSchema> = {};
+  const required: string[] = [];
+
+  for (const [key, property] of Object.entries(def.shape?.() ?? {})) {
+    properties[key] = zodToJSONSchema(property);
+    if (!isOptional(property)) {
+      required.push(key);
+    }
+  }
+
+  const json: JSONSchema = { type: "object", properties };
+  if (required.length > 0) json.required = required;
+  return json;
+}
+
+/**
+ * Returns true if the property may be left out, looking through wrappers that keep
+ * optionality (e.g. `z.string().optional().nullable()` or `.optional().transform(...)`).
+ */
+function isOptional(schema: ZodSchemaLike): boolean {
+  const def = schema._def as ZodDef;
+  switch (def.typeName) {
+    case "ZodOptional":
+    case "ZodDefault":
+      return true;
+    case "ZodNullable":
+    case "ZodReadonly":
+      return isOptional(def.innerType as ZodSchemaLike);
+    case "ZodEffects":
+      return isOptional(def.schema as ZodSchemaLike);
+    case "ZodBranded":
+      return isOptional(def.type as ZodSchemaLike);
+    case "ZodPipeline":
+      return isOptional(def.in as ZodSchemaLike);
+    default:
+      return false;
+  }
+}
+
+function nullable(json: JSONSchema): JSONSchema {
+  if (typeof json.type === "string" && !json.anyOf) {
+    const result: JSONSchema = { ...json, type: [json.type, "null"] };
+    if (json.enum) result.enum = [...json.enum, null];
+    return result;
+  }
+  return { anyOf: [json, { type: "null" }] };
+}
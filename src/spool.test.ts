@@ -0,0 +1,215 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { promises as fs } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { TrackingSpool } from "./spool";
+import { createLogger } from "./logger";
+import { SpanRecord, TrackRequest } from "./types";
+
+describe("TrackingSpool", () => {
+  let directory: string;
+
+  const run = (id: string): TrackRequest => ({
+    id,
+    messages: [{ role: "user", content: id }],
+    sessionId: "session",
+    timestamp: "2025-01-01T00:00:00.000Z",
+  });
+
+  const span = (spanId: string): SpanRecord => ({
+    traceId: "trace",
+    spanId,
+    name: spanId,
+    kind: "tool",
+    startTime: "2025-01-01T00:00:00.000Z",
+    endTime: "2025-01-01T00:00:01.000Z",
+    durationMs: 1000,
+    status: "ok",
+  });
+
+  const createSpool = (maxBytes?: number) =>
+    new TrackingSpool({ directory, maxBytes }, createLogger());
+
+  const senders = (
+    runs: (batch: TrackRequest[]) => Promise<void>,
+    spans = vi.fn(async (_batch: SpanRecord[]) => undefined)
+  ) => ({ runs, spans, isRetryable: () => true });
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), "hone-spool-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it("should append requests as JSON lines", async () => {
+    const spool = createSpool();
+
+    expect(await spool.append([run("a"), run("b")])).toBe(true);
+
+    const contents = await fs.readFile(path.join(directory, "hone-tracking.jsonl"), "utf8");
+    expect(contents.trim().split("\n").map((line) => JSON.parse(line).id)).toEqual(["a", "b"]);
+  });
+
+  it("should create the directory if it does not exist", async () => {
+    const nested = path.join(directory, "nested", "spool");
+    const spool = new TrackingSpool({ directory: nested }, createLogger());
+
+    await spool.append([run("a")]);
+
+    expect(await fs.readdir(nested)).toEqual(["hone-tracking.jsonl"]);
+  });
+
+  it("should replay spooled requests in batches and empty the spool", async () => {
+    const spool = createSpool();
+    const send = vi.fn(async (_batch: TrackRequest[]) => undefined);
+    await spool.append([run("a"), run("b"), run("c")]);
+
+    const delivered = await spool.replay(senders(send), 2);
+
+    expect(delivered).toBe(3);
+    expect(send.mock.calls.map((c) => c[0].map((r) => r.id))).toEqual([["a", "b"], ["c"]]);
+    expect(await fs.readdir(directory)).toEqual([]);
+    expect(spool.pending).toBe(false);
+  });
+
+  it("should keep requests that fail to replay", async () => {
+    const spool = createSpool();
+    const send = vi
+      .fn()
+      .mockResolvedValueOnce(undefined)
+      .mockRejectedValueOnce(new Error("down"));
+    await spool.append([run("a"), run("b"), run("c")]);
+
+    const delivered = await spool.replay(senders(send), 1);
+
+    expect(delivered).toBe(1);
+    // Stops after the first failure and keeps the rest
+    expect(send).toHaveBeenCalledTimes(2);
+    expect(spool.pending).toBe(true);
+
+    const retry = vi.fn(async (_batch: TrackRequest[]) => undefined);
+    await spool.replay(senders(retry), 10);
+    expect(retry.mock.calls[0][0].map((r) => r.id)).toEqual(["b", "c"]);
+  });
+
+  it("should skip corrupt lines", async () => {
+    await fs.writeFile(
+      path.join(directory, "hone-tracking.jsonl"),
+      [JSON.stringify(run("a")), "{not json", JSON.stringify({ foo: 1 }), JSON.stringify(run("b")).slice(0, 10)].join("\n"),
+    );
+    const spool = createSpool();
+    const send = vi.fn(async (_batch: TrackRequest[]) => undefined);
+
+    const delivered = await spool.replay(senders(send), 10);
+
+    expect(delivered).toBe(1);
+    expect(send.mock.calls[0][0].map((r) => r.id)).toEqual(["a"]);
+  });
+
+  it("should replay files left over from an interrupted replay", async () => {
+    await fs.writeFile(
+      path.join(directory, "hone-tracking.jsonl.1-1.replay.jsonl"),
+      JSON.stringify(run("orphan")) + "\n",
+    );
+    const spool = createSpool();
+    const send = vi.fn(async (_batch: TrackRequest[]) => undefined);
+
+    expect(await spool.replay(senders(send), 10)).toBe(1);
+  });
+
+  it("should refuse to append beyond maxBytes", async () => {
+    const spool = createSpool(JSON.stringify(run("a")).length + 1);
+
+    expect(await spool.append([run("a")])).toBe(true);
+    expect(await spool.append([run("b")])).toBe(false);
+  });
+
+  it("should count replay files toward maxBytes", async () => {
+    const lineBytes = JSON.stringify(run("a")).length + 1;
+    await fs.writeFile(
+      path.join(directory, "hone-tracking.jsonl.1-1.replay.jsonl"),
+      JSON.stringify(run("a")) + "\n",
+    );
+    const spool = createSpool(lineBytes * 2);
+
+    expect(await spool.append([run("b")])).toBe(true);
+    expect(await spool.append([run("c")])).toBe(false);
+  });
+
+  it("should keep failed replays at the cap without counting them twice", async () => {
+    const spool = createSpool(JSON.stringify(run("a")).length + 1);
+    await spool.append([run("a")]);
+
+    await spool.replay(senders(vi.fn().mockRejectedValue(new Error("down"))), 10);
+
+    const retry = vi.fn(async (_batch: TrackRequest[]) => undefined);
+    expect(await spool.replay(senders(retry), 10)).toBe(1);
+    expect(retry.mock.calls[0][0].map((r) => r.id)).toEqual(["a"]);
+  });
+
+  it("should replay spans separately from runs", async () => {
+    const spool = createSpool();
+    await spool.append([run("a")]);
+    await spool.appendSpans([span("s1"), span("s2")]);
+    const sendRuns = vi.fn(async (_batch: TrackRequest[]) => undefined);
+    const sendSpans = vi.fn(async (_batch: SpanRecord[]) => undefined);
+
+    const delivered = await spool.replay(senders(sendRuns, sendSpans), 10);
+
+    expect(delivered).toBe(3);
+    expect(sendRuns.mock.calls[0][0].map((r) => r.id)).toEqual(["a"]);
+    expect(sendSpans.mock.calls[0][0].map((s) => s.spanId)).toEqual(["s1", "s2"]);
+    expect(await fs.readdir(directory)).toEqual([]);
+  });
+
+  it("should keep spans that fail to replay", async () => {
+    const spool = createSpool();
+    await spool.append([run("a")]);
+    await spool.appendSpans([span("s1")]);
+
+    const failingSpans = vi.fn().mockRejectedValue(new Error("down"));
+    const delivered = await spool.replay(senders(vi.fn(async () => undefined), failingSpans), 10);
+
+    expect(delivered).toBe(1);
+    const sendRuns = vi.fn(async (_batch: TrackRequest[]) => undefined);
+    const sendSpans = vi.fn(async (_batch: SpanRecord[]) => undefined);
+    expect(await spool.replay(senders(sendRuns, sendSpans), 10)).toBe(1);
+    expect(sendRuns).not.toHaveBeenCalled();
+    expect(sendSpans.mock.calls[0][0].map((s) => s.spanId)).toEqual(["s1"]);
+  });
+
+  it("should discard batches that fail with a non-retryable error and replay the rest", async () => {
+    const spool = createSpool();
+    await spool.append([run("bad"), run("good")]);
+    const rejected = new Error("Invalid request");
+    const send = vi
+      .fn()
+      .mockRejectedValueOnce(rejected)
+      .mockResolvedValueOnce(undefined);
+    const onDiscard = vi.fn();
+
+    const delivered = await spool.replay(
+      { ...senders(send), isRetryable: (error) => error !== rejected, onDiscard },
+      1
+    );
+
+    expect(delivered).toBe(1);
+    expect(send.mock.calls.map((c) => c[0][0].id)).toEqual(["bad", "good"]);
+    expect(onDiscard).toHaveBeenCalledWith(rejected, [expect.objectContaining({ id: "bad" })]);
+    expect(await fs.readdir(directory)).toEqual([]);
+  });
+
+  it("should share a single replay between concurrent calls", async () => {
+    const spool = createSpool();
+    const send = vi.fn(async (_batch: TrackRequest[]) => undefined);
+    await spool.append([run("a")]);
+
+    const [first, second] = await Promise.all([spool.replay(senders(send), 10), spool.replay(senders(send), 10)]);
+
+    expect(first).toBe(1);
+    expect(second).toBe(1);
+    expect(send).toHaveBeenCalledTimes(1);
+  });
+});
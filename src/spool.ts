@@ -0,0 +1,265 @@
+/**
+ * Durable on-disk spool for tracking requests that could not be delivered.
+ *
+ * Failed TrackRequest payloads and span records are appended as JSON lines to a
+ * file in the configured directory and replayed later. Runs are stored as-is and
+ * spans as `{ "span": SpanRecord }`. Reading is corruption-tolerant: lines that
+ * cannot be parsed (e.g. a partial write from a crash) are skipped.
+ */
+
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { SpanRecord, SpoolConfig, TrackRequest } from "./types.js";
+import { HoneLogger } from "./logger.js";
+
+const SPOOL_FILE = "hone-tracking.jsonl";
+const REPLAY_SUFFIX = ".replay.jsonl";
+
+export const DEFAULT_SPOOL_MAX_BYTES = 50 * 1024 * 1024;
+
+/** Sends one replayed batch of each kind */
+export type SpoolSenders = {
+  runs: (batch: TrackRequest[]) => Promise<void>;
+  spans: (batch: SpanRecord[]) => Promise<void>;
+  /** Whether a batch that failed with error is kept for the next replay; others are discarded */
+  isRetryable: (error: unknown) => boolean;
+  /** Called with each batch discarded because its error isn't retryable */
+  onDiscard?: (error: unknown, batch: TrackRequest[] | SpanRecord[]) => void;
+};
+
+/**
+ * Appends and replays spooled tracking requests and spans.
+ */
+export class TrackingSpool {
+  private readonly filePath: string;
+  private readonly maxBytes: number;
+  private writeChain: Promise<unknown> = Promise.resolve();
+  private replaying: Promise<number> | null = null;
+  /** False only once a replay has emptied the spool; files may exist from a previous run */
+  private mayHavePending = true;
+
+  constructor(
+    private config: SpoolConfig,
+    private logger: HoneLogger
+  ) {
+    this.filePath = path.join(config.directory, SPOOL_FILE);
+    this.maxBytes = config.maxBytes ?? DEFAULT_SPOOL_MAX_BYTES;
+  }
+
+  /**
+   * Appends requests to the spool file.
+   *
+   * @returns true if the requests were persisted, false if the size cap was reached
+   */
+  append(requests: TrackRequest[]): Promise<boolean> {
+    return this.enqueueAppend(requests.map(serializeRun));
+  }
+
+  /**
+   * Appends span records to the spool file.
+   *
+   * @returns true if the spans were persisted, false if the size cap was reached
+   */
+  appendSpans(spans: SpanRecord[]): Promise<boolean> {
+    return this.enqueueAppend(spans.map(serializeSpan));
+  }
+
+  /**
+   * Returns true if the spool may have requests waiting to be replayed.
+   * Cheap check used to avoid touching the filesystem after every successful send.
+   */
+  get pending(): boolean {
+    return this.mayHavePending;
+  }
+
+  /**
+   * Sends all spooled requests and spans in batches, runs and spans separately.
+   * Items from batches that fail with a retryable error are written back to the spool;
+   * batches the API rejects are discarded and passed to send.onDiscard.
+   * Concurrent calls share a single replay.
+   *
+   * @param send - Sends one batch of runs or spans
+   * @param batchSize - Maximum items per batch
+   * @returns The number of runs and spans delivered
+   */
+  replay(send: SpoolSenders, batchSize: number): Promise<number> {
+    if (!this.replaying) {
+      this.replaying = this.replayNow(send, batchSize).finally(() => {
+        this.replaying = null;
+      });
+    }
+    return this.replaying;
+  }
+
+  /**
+   * Serializes appends. excludeFile is a replay file whose requests are being re-appended,
+   * left out of the size check because it's removed right after.
+   */
+  private enqueueAppend(lines: string[], excludeFile?: string): Promise<boolean> {
+    const result = this.writeChain.then(() => this.appendNow(lines, excludeFile));
+    this.writeChain = result.catch(() => undefined);
+    return result;
+  }
+
+  private async appendNow(lines: string[], excludeFile?: string): Promise<boolean> {
+    const data = lines.map((line) => line + "\n").join("");
+    const size = await this.currentSize(excludeFile);
+
+    if (size + Buffer.byteLength(data) > this.maxBytes) {
+      this.logger.warn(
+        { count: lines.length, size, maxBytes: this.maxBytes },
+        "Tracking spool full, dropping requests",
+      );
+      return false;
+    }
+
+    await fs.mkdir(this.config.directory, { recursive: true });
+    await fs.appendFile(this.filePath, data, "utf8");
+    this.mayHavePending = true;
+    this.logger.info({ count: lines.length, directory: this.config.directory }, "Spooled tracking requests");
+    return true;
+  }
+
+  private async replayNow(send: SpoolSenders, batchSize: number): Promise<number> {
+    // Move the active file aside so new failures can keep appending during replay
+    await this.writeChain;
+    this.mayHavePending = false;
+    try {
+      await fs.rename(this.filePath, `${this.filePath}.${Date.now()}-${process.pid}${REPLAY_SUFFIX}`);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+    }
+
+    let delivered = 0;
+    for (const file of await this.listReplayFiles()) {
+      const { runs, spans } = await this.readFile(file);
+      const replayedRuns = await this.replayBatches(runs, send.runs, send, batchSize);
+      const replayedSpans = await this.replayBatches(spans, send.spans, send, batchSize);
+      delivered += replayedRuns.delivered + replayedSpans.delivered;
+      const failedRuns = replayedRuns.failed;
+      const failedSpans = replayedSpans.failed;
+
+      if (failedRuns.length > 0 || failedSpans.length > 0) {
+        await this.enqueueAppend([...failedRuns.map(serializeRun), ...failedSpans.map(serializeSpan)], file);
+      }
+      await fs.rm(file, { force: true });
+    }
+
+    if (delivered > 0) {
+      this.logger.info({ count: delivered }, "Replayed spooled tracking requests");
+    }
+    return delivered;
+  }
+
+  /**
+   * Sends items in batches. Returns the number delivered and the items to keep for the next replay.
+   */
+  private async replayBatches<T extends TrackRequest | SpanRecord>(
+    items: T[],
+    send: (batch: T[]) => Promise<void>,
+    senders: SpoolSenders,
+    batchSize: number
+  ): Promise<{ delivered: number; failed: T[] }> {
+    const failed: T[] = [];
+    let delivered = 0;
+
+    for (let i = 0; i < items.length; i += batchSize) {
+      const batch = items.slice(i, i + batchSize);
+      // Once a batch fails, keep the rest for the next replay instead of hammering the API
+      if (failed.length > 0) {
+        failed.push(...batch);
+        continue;
+      }
+      try {
+        await send(batch);
+        delivered += batch.length;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        if (senders.isRetryable(error)) {
+          this.logger.warn({ count: batch.length, error: message }, "Failed to replay spooled tracking requests");
+          failed.push(...batch);
+          continue;
+        }
+        // Resending a batch the API rejected would fail forever and hold back the rest of the spool
+        this.logger.error(
+          { count: batch.length, error: message },
+          "Discarding spooled tracking requests rejected by the API",
+        );
+        try {
+          senders.onDiscard?.(error, batch as TrackRequest[] | SpanRecord[]);
+        } catch (hookError) {
+          this.logger.error(
+            { error: hookError instanceof Error ? hookError.message : String(hookError) },
+            "Tracking spool discard hook threw",
+          );
+        }
+      }
+    }
+    return { delivered, failed };
+  }
+
+  private async readFile(file: string): Promise<{ runs: TrackRequest[]; spans: SpanRecord[] }> {
+    const contents = await fs.readFile(file, "utf8");
+    const runs: TrackRequest[] = [];
+    const spans: SpanRecord[] = [];
+    let skipped = 0;
+
+    for (const line of contents.split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        const parsed = JSON.parse(line) as Partial<TrackRequest> & { span?: SpanRecord };
+        if (parsed && typeof parsed.span?.spanId === "string" && typeof parsed.span.traceId === "string") {
+          spans.push(parsed.span);
+        } else if (parsed && typeof parsed.id === "string" && Array.isArray(parsed.messages)) {
+          runs.push(parsed as TrackRequest);
+        } else {
+          skipped++;
+        }
+      } catch {
+        skipped++;
+      }
+    }
+
+    if (skipped > 0) {
+      this.logger.warn({ file, skipped }, "Skipped corrupt lines in tracking spool");
+    }
+    return { runs, spans };
+  }
+
+  private async listReplayFiles(): Promise<string[]> {
+    try {
+      const entries = await fs.readdir(this.config.directory);
+      return entries
+        .filter((name) => name.startsWith(SPOOL_FILE) && name.endsWith(REPLAY_SUFFIX))
+        .sort()
+        .map((name) => path.join(this.config.directory, name));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+      throw error;
+    }
+  }
+
+  /**
+   * Total size of the active file and the replay files, which count toward maxBytes until removed.
+   */
+  private async currentSize(excludeFile?: string): Promise<number> {
+    const files = [this.filePath, ...(await this.listReplayFiles())].filter((file) => file !== excludeFile);
+    let size = 0;
+    for (const file of files) {
+      try {
+        size += (await fs.stat(file)).size;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+      }
+    }
+    return size;
+  }
+}
+
+function serializeRun(request: TrackRequest): string {
+  return JSON.stringify(request);
+}
+
+function serializeSpan(span: SpanRecord): string {
+  return JSON.stringify({ span });
+}
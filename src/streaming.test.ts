@@ -0,0 +1,287 @@
+import { describe, it, expect } from "vitest";
+import {
+  AnthropicStreamAccumulator,
+  GeminiStreamAccumulator,
+  OpenAIStreamAccumulator,
+  wrapAnthropicStream,
+  wrapGeminiStream,
+  wrapOpenAIStream,
+} from "./streaming";
+import { extractOpenAIUsage } from "./usage";
+import { HoneValidationError } from "./errors";
+
+async function* toStream<T>(chunks: T[]): AsyncGenerator<T> {
+  for (const chunk of chunks) {
+    yield chunk;
+  }
+}
+
+async function collect<T>(stream: AsyncIterable<T>): Promise<T[]> {
+  const chunks: T[] = [];
+  for await (const chunk of stream) {
+    chunks.push(chunk);
+  }
+  return chunks;
+}
+
+const openAIChunk = (delta: Record<string, unknown>, extra: Record<string, unknown> = {}) =>
+  ({
+    id: "chatcmpl-1",
+    object: "chat.completion.chunk",
+    created: 1700000000,
+    model: "gpt-4o",
+    choices: [{ index: 0, delta, finish_reason: null }],
+    ...extra,
+  }) as any;
+
+describe("streaming", () => {
+  describe("OpenAIStreamAccumulator", () => {
+    it("should concatenate content deltas", () => {
+      const accumulator = new OpenAIStreamAccumulator();
+      accumulator.add(openAIChunk({ role: "assistant", content: "" }));
+      accumulator.add(openAIChunk({ content: "Hello" }));
+      accumulator.add(openAIChunk({ content: ", world" }));
+      accumulator.add({
+        ...openAIChunk({}),
+        choices: [{ index: 0, delta: {}, finish_reason: "stop" }],
+      });
+
+      const response = accumulator.toResponse();
+
+      expect(response.id).toBe("chatcmpl-1");
+      expect(response.model).toBe("gpt-4o");
+      expect(response.choices[0].message.content).toBe("Hello, world");
+      expect(response.choices[0].finish_reason).toBe("stop");
+      expect(accumulator.toMessages()).toEqual([{ role: "assistant", content: "Hello, world" }]);
+    });
+
+    it("should assemble streamed tool call arguments by index", () => {
+      const accumulator = new OpenAIStreamAccumulator();
+      accumulator.add(
+        openAIChunk({
+          role: "assistant",
+          tool_calls: [{ index: 0, id: "call_1", type: "function", function: { name: "get_weather", arguments: "" } }],
+        }),
+      );
+      accumulator.add(openAIChunk({ tool_calls: [{ index: 0, function: { arguments: '{"loc' } }] }));
+      accumulator.add(
+        openAIChunk({
+          tool_calls: [
+            { index: 0, function: { arguments: 'ation":"SF"}' } },
+            { index: 1, id: "call_2", type: "function", function: { name: "get_time", arguments: "{}" } },
+          ],
+        }),
+      );
+
+      expect(accumulator.toMessages()).toEqual([
+        {
+          role: "assistant",
+          content: "",
+          tool_calls: [
+            { id: "call_1", name: "get_weather", arguments: '{"location":"SF"}' },
+            { id: "call_2", name: "get_time", arguments: "{}" },
+          ],
+        },
+      ]);
+    });
+
+    it("should capture usage from the final chunk", () => {
+      const accumulator = new OpenAIStreamAccumulator();
+      accumulator.add(openAIChunk({ content: "Hi" }));
+      accumulator.add({
+        ...openAIChunk({}),
+        choices: [],
+        usage: { prompt_tokens: 5, completion_tokens: 1, total_tokens: 6 },
+      });
+
+      expect(extractOpenAIUsage(accumulator.toResponse())).toEqual({
+        inputTokens: 5,
+        outputTokens: 1,
+        totalTokens: 6,
+      });
+    });
+  });
+
+  describe("AnthropicStreamAccumulator", () => {
+    const events = [
+      {
+        type: "message_start",
+        message: {
+          id: "msg_1",
+          type: "message",
+          role: "assistant",
+          model: "claude-sonnet-4-20250514",
+          content: [],
+          stop_reason: null,
+          stop_sequence: null,
+          usage: { input_tokens: 20, output_tokens: 1 },
+        },
+      },
+      { type: "content_block_start", index: 0, content_block: { type: "text", text: "" } },
+      { type: "content_block_delta", index: 0, delta: { type: "text_delta", text: "Let me " } },
+      { type: "content_block_delta", index: 0, delta: { type: "text_delta", text: "check." } },
+      { type: "content_block_stop", index: 0 },
+      {
+        type: "content_block_start",
+        index: 1,
+        content_block: { type: "tool_use", id: "toolu_1", name: "get_weather", input: {} },
+      },
+      { type: "content_block_delta", index: 1, delta: { type: "input_json_delta", partial_json: '{"location":' } },
+      { type: "content_block_delta", index: 1, delta: { type: "input_json_delta", partial_json: '"SF"}' } },
+      { type: "content_block_stop", index: 1 },
+      {
+        type: "message_delta",
+        delta: { stop_reason: "tool_use", stop_sequence: null },
+        usage: { output_tokens: 42 },
+      },
+      { type: "message_stop" },
+    ] as any[];
+
+    it("should assemble text and tool use blocks", () => {
+      const accumulator = new AnthropicStreamAccumulator();
+      events.forEach((event) => accumulator.add(event));
+
+      const response = accumulator.toResponse();
+
+      expect(response.stop_reason).toBe("tool_use");
+      expect(response.usage).toMatchObject({ input_tokens: 20, output_tokens: 42 });
+      expect(accumulator.toMessages()).toEqual([
+        {
+          role: "assistant",
+          content: "Let me check.",
+          tool_calls: [{ id: "toolu_1", name: "get_weather", arguments: '{"location":"SF"}' }],
+        },
+      ]);
+    });
+
+    it("should not mutate the original events", () => {
+      const accumulator = new AnthropicStreamAccumulator();
+      events.forEach((event) => accumulator.add(event));
+
+      expect(events[0].message.usage.output_tokens).toBe(1);
+      expect(events[1].content_block.text).toBe("");
+    });
+
+    it("should parse tool input when the stream ends without a block stop", () => {
+      const accumulator = new AnthropicStreamAccumulator();
+      events.slice(0, 8).forEach((event) => accumulator.add(event));
+
+      const block = accumulator.toResponse().content[1] as any;
+      expect(block.input).toEqual({ location: "SF" });
+    });
+
+    it("should throw if the stream did not start with message_start", () => {
+      const accumulator = new AnthropicStreamAccumulator();
+      expect(() => accumulator.add(events[1])).toThrow("message_start");
+      expect(() => accumulator.add(events[1])).toThrow(HoneValidationError);
+    });
+  });
+
+  describe("GeminiStreamAccumulator", () => {
+    it("should merge text parts and keep function calls", () => {
+      const accumulator = new GeminiStreamAccumulator();
+      accumulator.add({ candidates: [{ index: 0, content: { role: "model", parts: [{ text: "Checking" }] } }] } as any);
+      accumulator.add({ candidates: [{ index: 0, content: { role: "model", parts: [{ text: " now" }] } }] } as any);
+      accumulator.add({
+        candidates: [
+          {
+            index: 0,
+            content: { role: "model", parts: [{ functionCall: { name: "get_weather", args: { location: "SF" } } }] },
+            finishReason: "STOP",
+          },
+        ],
+        usageMetadata: { promptTokenCount: 10, candidatesTokenCount: 5, totalTokenCount: 15 },
+      } as any);
+
+      const { response } = accumulator.toResponse();
+
+      expect(response.candidates![0].content.parts).toEqual([
+        { text: "Checking now" },
+        { functionCall: { name: "get_weather", args: { location: "SF" } } },
+      ]);
+      expect(response.candidates![0].finishReason).toBe("STOP");
+      expect(response.usageMetadata?.totalTokenCount).toBe(15);
+      expect(response.text()).toBe("Checking now");
+      expect(response.functionCalls()).toEqual([{ name: "get_weather", args: { location: "SF" } }]);
+
+      const messages = accumulator.toMessages();
+      expect(messages[0].content).toBe("Checking now");
+      expect(messages[0].tool_calls![0].name).toBe("get_weather");
+    });
+  });
+
+  describe("GeminiStreamAccumulator thoughts", () => {
+    it("should merge consecutive thought parts separately from text", () => {
+      const accumulator = new GeminiStreamAccumulator();
+      const chunk = (parts: unknown[]) => ({ candidates: [{ index: 0, content: { role: "model", parts } }] }) as any;
+      accumulator.add(chunk([{ text: "Let me ", thought: true }]));
+      accumulator.add(chunk([{ text: "think.", thought: true }]));
+      accumulator.add(chunk([{ text: "Done" }]));
+
+      expect(accumulator.toMessages()).toEqual([
+        { role: "assistant", content: "Done", reasoning: "Let me think." },
+      ]);
+    });
+  });
+
+  describe("wrap*Stream", () => {
+    it("should pass OpenAI chunks through unchanged and resolve the final response", async () => {
+      const chunks = [openAIChunk({ role: "assistant", content: "Hi" }), openAIChunk({ content: "!" })];
+      const stream = wrapOpenAIStream(toStream(chunks));
+
+      expect(await collect(stream)).toEqual(chunks);
+      expect((await stream.finalResponse()).choices[0].message.content).toBe("Hi!");
+      expect(await stream.finalMessages()).toEqual([{ role: "assistant", content: "Hi!" }]);
+    });
+
+    it("should accept a Gemini stream result", async () => {
+      const chunks = [{ candidates: [{ index: 0, content: { role: "model", parts: [{ text: "Hi" }] } }] }] as any[];
+      const stream = wrapGeminiStream({ stream: toStream(chunks), response: Promise.resolve(chunks[0]) } as any);
+
+      await collect(stream);
+
+      expect(await stream.finalMessages()).toEqual([{ role: "assistant", content: "Hi" }]);
+    });
+
+    it("should resolve the partial response when the caller stops early", async () => {
+      let closed = false;
+      async function* source() {
+        try {
+          yield openAIChunk({ role: "assistant", content: "Hi" });
+          yield openAIChunk({ content: " there" });
+        } finally {
+          closed = true;
+        }
+      }
+      const stream = wrapOpenAIStream(source());
+
+      for await (const chunk of stream) {
+        expect(chunk.choices[0].delta.content).toBe("Hi");
+        break;
+      }
+
+      expect((await stream.finalResponse()).choices[0].message.content).toBe("Hi");
+      expect(await stream.finalMessages()).toEqual([{ role: "assistant", content: "Hi" }]);
+      expect(closed).toBe(true);
+    });
+
+    it("should reject the final response when the stream fails", async () => {
+      async function* failing() {
+        yield { type: "message_start", message: { content: [], usage: {} } } as any;
+        throw new Error("connection reset");
+      }
+      const stream = wrapAnthropicStream(failing());
+
+      await expect(collect(stream)).rejects.toThrow("connection reset");
+      await expect(stream.finalResponse()).rejects.toThrow("connection reset");
+    });
+
+    it("should only be iterable once", async () => {
+      const stream = wrapOpenAIStream(toStream([openAIChunk({ content: "Hi" })]));
+      await collect(stream);
+
+      await expect(collect(stream)).rejects.toThrow("only be iterated once");
+      await expect(collect(stream)).rejects.toBeInstanceOf(HoneValidationError);
+    });
+  });
+});
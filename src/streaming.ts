@@ -0,0 +1,487 @@
+/**
+ * Streaming support for tracking.
+ *
+ * Accumulators reassemble provider stream chunks into the same response objects
+ * returned by non-streaming calls, so they can be passed to the extractors and
+ * to track() unchanged. The wrap*Stream helpers pass chunks through to the
+ * caller while accumulating them in the background.
+ *
+ * @example
+ * ```typescript
+ * const stream = wrapOpenAIStream(
+ *   await openai.chat.completions.create({ model: "gpt-4o", messages, stream: true })
+ * );
+ *
+ * for await (const chunk of stream) {
+ *   process.stdout.write(chunk.choices[0]?.delta.content ?? "");
+ * }
+ *
+ * const response = await stream.finalResponse();
+ * await hone.track("convo", { provider: "openai", messages, response }, { sessionId });
+ * ```
+ */
+
+import { Message } from "./types.js";
+import { HoneValidationError } from "./errors.js";
+import { extractAnthropicMessages, extractGeminiMessages, extractOpenAIMessages } from "./tools.js";
+
+// Import types from provider SDKs (dev dependencies)
+import type {
+  ChatCompletion,
+  ChatCompletionChunk,
+  ChatCompletionMessageToolCall,
+} from "openai/resources/chat/completions";
+import type {
+  ContentBlock,
+  Message as AnthropicMessageResponse,
+  MessageStreamEvent,
+} from "@anthropic-ai/sdk/resources/messages";
+import type {
+  EnhancedGenerateContentResponse,
+  FunctionCall,
+  GenerateContentCandidate,
+  GenerateContentResponse,
+  GenerateContentResult,
+  GenerateContentStreamResult,
+  Part,
+} from "@google/generative-ai";
+
+/**
+ * An async iterable that yields a provider's stream chunks unchanged and
+ * assembles them into a complete response.
+ */
+export type TrackedStream<TChunk, TResponse> = AsyncIterable<TChunk> & {
+  /**
+   * Resolves with the assembled response once iteration ends: when the stream has been
+   * fully consumed, or with the partial response if the caller stops early (break/return).
+   * Rejects if the underlying stream throws.
+   */
+  finalResponse(): Promise<TResponse>;
+  /** The assembled response as a normalized Message[], once the stream has been consumed */
+  finalMessages(): Promise<Message[]>;
+};
+
+/**
+ * Common interface of the stream accumulators.
+ */
+export type StreamAccumulator<TChunk, TResponse> = {
+  add(chunk: TChunk): void;
+  toResponse(): TResponse;
+  toMessages(): Message[];
+};
+
+// =============================================================================
+// OpenAI
+// =============================================================================
+
+type OpenAIChoiceState = {
+  role: string;
+  content: string;
+  refusal: string;
+  finishReason: ChatCompletionChunk.Choice["finish_reason"];
+  toolCalls: Map<number, { id: string; name: string; arguments: string }>;
+};
+
+/**
+ * Reassembles OpenAI ChatCompletionChunk events into a ChatCompletion.
+ * Tool call arguments streamed in fragments are concatenated per tool call index.
+ * Usage is only present when the request set `stream_options: { include_usage: true }`.
+ */
+export class OpenAIStreamAccumulator implements StreamAccumulator<ChatCompletionChunk, ChatCompletion> {
+  private id = "";
+  private model = "";
+  private created = 0;
+  private usage: ChatCompletion["usage"];
+  private systemFingerprint: string | undefined;
+  private choices = new Map<number, OpenAIChoiceState>();
+
+  add(chunk: ChatCompletionChunk): void {
+    this.id ||= chunk.id;
+    this.model ||= chunk.model;
+    this.created ||= chunk.created;
+    this.systemFingerprint ??= chunk.system_fingerprint ?? undefined;
+    if (chunk.usage) {
+      this.usage = chunk.usage;
+    }
+
+    for (const choice of chunk.choices) {
+      let state = this.choices.get(choice.index);
+      if (!state) {
+        state = { role: "assistant", content: "", refusal: "", finishReason: null, toolCalls: new Map() };
+        this.choices.set(choice.index, state);
+      }
+
+      const delta = choice.delta;
+      if (delta.role) state.role = delta.role;
+      if (delta.content) state.content += delta.content;
+      if (delta.refusal) state.refusal += delta.refusal;
+      if (choice.finish_reason) state.finishReason = choice.finish_reason;
+
+      for (const toolCall of delta.tool_calls ?? []) {
+        let call = state.toolCalls.get(toolCall.index);
+        if (!call) {
+          call = { id: "", name: "", arguments: "" };
+          state.toolCalls.set(toolCall.index, call);
+        }
+        if (toolCall.id) call.id = toolCall.id;
+        if (toolCall.function?.name) call.name += toolCall.function.name;
+        if (toolCall.function?.arguments) call.arguments += toolCall.function.arguments;
+      }
+    }
+  }
+
+  toResponse(): ChatCompletion {
+    const choices = [...this.choices.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([index, state]) => {
+        const toolCalls: ChatCompletionMessageToolCall[] = [...state.toolCalls.entries()]
+          .sort(([a], [b]) => a - b)
+          .map(([, call]) => ({
+            id: call.id,
+            type: "function" as const,
+            function: { name: call.name, arguments: call.arguments },
+          }));
+
+        return {
+          index,
+          // null if the stream ended before a finish reason arrived
+          finish_reason: state.finishReason as ChatCompletion.Choice["finish_reason"],
+          logprobs: null,
+          message: {
+            role: state.role as "assistant",
+            content: state.content || null,
+            refusal: state.refusal || null,
+            ...(toolCalls.length > 0 && { tool_calls: toolCalls }),
+          },
+        };
+      });
+
+    return {
+      id: this.id,
+      object: "chat.completion",
+      created: this.created,
+      model: this.model,
+      choices,
+      ...(this.usage && { usage: this.usage }),
+      ...(this.systemFingerprint && { system_fingerprint: this.systemFingerprint }),
+    };
+  }
+
+  toMessages(): Message[] {
+    return extractOpenAIMessages(this.toResponse());
+  }
+}
+
+// =============================================================================
+// Anthropic
+// =============================================================================
+
+/**
+ * Reassembles Anthropic MessageStreamEvent events into a Message.
+ * Tool input JSON streamed in fragments is parsed once the block completes.
+ */
+export class AnthropicStreamAccumulator
+  implements StreamAccumulator<MessageStreamEvent, AnthropicMessageResponse>
+{
+  private message: AnthropicMessageResponse | null = null;
+  private partialJson = new Map<number, string>();
+
+  add(event: MessageStreamEvent): void {
+    switch (event.type) {
+      case "message_start":
+        this.message = {
+          ...event.message,
+          content: [...event.message.content],
+          usage: { ...event.message.usage },
+        };
+        break;
+      case "content_block_start":
+        this.requireMessage().content[event.index] = { ...event.content_block } as ContentBlock;
+        break;
+      case "content_block_delta":
+        this.applyDelta(event.index, event.delta);
+        break;
+      case "content_block_stop":
+        this.finishToolInput(event.index);
+        break;
+      case "message_delta": {
+        const message = this.requireMessage();
+        message.stop_reason = event.delta.stop_reason;
+        message.stop_sequence = event.delta.stop_sequence;
+        // Delta usage is cumulative; null fields were not reported in this event
+        for (const [key, value] of Object.entries(event.usage)) {
+          if (value !== null && value !== undefined) {
+            (message.usage as unknown as Record<string, unknown>)[key] = value;
+          }
+        }
+        break;
+      }
+      case "message_stop":
+        break;
+    }
+  }
+
+  toResponse(): AnthropicMessageResponse {
+    const message = this.requireMessage();
+    for (const index of [...this.partialJson.keys()]) {
+      this.finishToolInput(index);
+    }
+    return { ...message, content: message.content.filter(Boolean) };
+  }
+
+  toMessages(): Message[] {
+    return extractAnthropicMessages(this.toResponse());
+  }
+
+  private applyDelta(
+    index: number,
+    delta: Extract<MessageStreamEvent, { type: "content_block_delta" }>["delta"]
+  ): void {
+    const block = this.requireMessage().content[index] as unknown as Record<string, unknown> | undefined;
+    if (!block) {
+      return;
+    }
+
+    switch (delta.type) {
+      case "text_delta":
+        block.text = ((block.text as string | undefined) ?? "") + delta.text;
+        break;
+      case "input_json_delta":
+        this.partialJson.set(index, (this.partialJson.get(index) ?? "") + delta.partial_json);
+        break;
+      case "thinking_delta":
+        block.thinking = ((block.thinking as string | undefined) ?? "") + delta.thinking;
+        break;
+      case "signature_delta":
+        block.signature = delta.signature;
+        break;
+      case "citations_delta":
+        block.citations = [...((block.citations as unknown[] | null) ?? []), delta.citation];
+        break;
+    }
+  }
+
+  private finishToolInput(index: number): void {
+    const json = this.partialJson.get(index);
+    if (json === undefined) {
+      return;
+    }
+    this.partialJson.delete(index);
+
+    const block = this.requireMessage().content[index] as unknown as Record<string, unknown> | undefined;
+    if (!block) {
+      return;
+    }
+    try {
+      block.input = json ? JSON.parse(json) : {};
+    } catch {
+      // Truncated stream: keep the raw fragment rather than dropping the call
+      block.input = json;
+    }
+  }
+
+  private requireMessage(): AnthropicMessageResponse {
+    if (!this.message) {
+      throw new HoneValidationError("Anthropic stream did not start with a message_start event");
+    }
+    return this.message;
+  }
+}
+
+// =============================================================================
+// Gemini
+// =============================================================================
+
+/**
+ * Reassembles Gemini generateContentStream chunks into a GenerateContentResult.
+ * Consecutive text (or thought) parts of a candidate are merged; function calls are kept as separate parts.
+ */
+export class GeminiStreamAccumulator
+  implements StreamAccumulator<GenerateContentResponse, GenerateContentResult>
+{
+  private candidates = new Map<number, GenerateContentCandidate>();
+  private last: GenerateContentResponse | null = null;
+
+  add(chunk: GenerateContentResponse): void {
+    this.last = chunk;
+
+    (chunk.candidates ?? []).forEach((candidate, position) => {
+      const index = candidate.index ?? position;
+      const existing = this.candidates.get(index);
+      if (!existing) {
+        this.candidates.set(index, {
+          ...candidate,
+          index,
+          content: { role: candidate.content?.role ?? "model", parts: [...(candidate.content?.parts ?? [])] },
+        });
+        return;
+      }
+
+      for (const part of candidate.content?.parts ?? []) {
+        const previous = existing.content.parts[existing.content.parts.length - 1];
+        const kind = textKind(part);
+        if (kind && previous && textKind(previous) === kind) {
+          existing.content.parts[existing.content.parts.length - 1] = {
+            ...previous,
+            text: (previous.text ?? "") + (part.text ?? ""),
+          } as Part;
+        } else {
+          existing.content.parts.push(part);
+        }
+      }
+      if (candidate.finishReason) existing.finishReason = candidate.finishReason;
+      if (candidate.finishMessage) existing.finishMessage = candidate.finishMessage;
+      if (candidate.safetyRatings) existing.safetyRatings = candidate.safetyRatings;
+      if (candidate.citationMetadata) existing.citationMetadata = candidate.citationMetadata;
+    });
+  }
+
+  toResponse(): GenerateContentResult {
+    // Fields other than candidates (usage, model version, prompt feedback) are taken from the last chunk
+    const rest: GenerateContentResponse = { ...this.last };
+    delete rest.candidates;
+    const candidates = [...this.candidates.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([, candidate]) => candidate);
+
+    return { response: enhanceGeminiResponse({ ...rest, candidates }) };
+  }
+
+  toMessages(): Message[] {
+    return extractGeminiMessages(this.toResponse());
+  }
+}
+
+/**
+ * Classifies plain text and thought summary parts so consecutive parts of the same kind can be merged.
+ * Returns undefined for parts carrying anything else.
+ */
+function textKind(part: Part): "text" | "thought" | undefined {
+  if (typeof part.text !== "string") {
+    return undefined;
+  }
+  const keys = Object.keys(part);
+  if (keys.every((key) => key === "text")) {
+    return "text";
+  }
+  if (keys.every((key) => key === "text" || key === "thought") && (part as { thought?: boolean }).thought) {
+    return "thought";
+  }
+  return undefined;
+}
+
+/**
+ * Adds the helper methods the Gemini SDK attaches to responses.
+ */
+function enhanceGeminiResponse(response: GenerateContentResponse): EnhancedGenerateContentResponse {
+  const parts = () => response.candidates?.[0]?.content.parts ?? [];
+  const functionCalls = () => {
+    const calls = parts()
+      .map((part) => part.functionCall)
+      .filter((call): call is FunctionCall => Boolean(call));
+    return calls.length > 0 ? calls : undefined;
+  };
+
+  return {
+    ...response,
+    text: () =>
+      parts()
+        .map((part) => part.text ?? "")
+        .join(""),
+    functionCall: () => functionCalls()?.[0],
+    functionCalls,
+  };
+}
+
+// =============================================================================
+// Pass-through wrappers
+// =============================================================================
+
+/**
+ * Wraps a stream so chunks pass through to the caller while being accumulated.
+ * The stream can only be iterated once.
+ */
+function trackStream<TChunk, TResponse>(
+  stream: AsyncIterable<TChunk>,
+  accumulator: StreamAccumulator<TChunk, TResponse>
+): TrackedStream<TChunk, TResponse> {
+  let resolve!: (response: TResponse) => void;
+  let reject!: (error: unknown) => void;
+  const final = new Promise<TResponse>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  // Avoid unhandled rejections when the caller never asks for the final response
+  final.catch(() => undefined);
+
+  let iterated = false;
+
+  return {
+    async *[Symbol.asyncIterator]() {
+      if (iterated) {
+        throw new HoneValidationError("Tracked stream can only be iterated once");
+      }
+      iterated = true;
+
+      try {
+        for await (const chunk of stream) {
+          accumulator.add(chunk);
+          yield chunk;
+        }
+      } catch (error) {
+        reject(error);
+        throw error;
+      } finally {
+        // Also runs when the caller stops early, settling with what was received so far
+        try {
+          resolve(accumulator.toResponse());
+        } catch (error) {
+          reject(error);
+        }
+      }
+    },
+    finalResponse: () => final,
+    finalMessages: async () => {
+      await final;
+      return accumulator.toMessages();
+    },
+  };
+}
+
+/**
+ * Wraps an OpenAI chat completion stream for tracking.
+ *
+ * @param stream - The stream returned by `openai.chat.completions.create({ stream: true })`
+ * @returns The same chunks, plus finalResponse() resolving to a ChatCompletion
+ */
+export function wrapOpenAIStream(
+  stream: AsyncIterable<ChatCompletionChunk>
+): TrackedStream<ChatCompletionChunk, ChatCompletion> {
+  return trackStream(stream, new OpenAIStreamAccumulator());
+}
+
+/**
+ * Wraps an Anthropic message stream for tracking.
+ *
+ * @param stream - The stream returned by `anthropic.messages.create({ stream: true })`
+ *   or `anthropic.messages.stream()`
+ * @returns The same events, plus finalResponse() resolving to a Message
+ */
+export function wrapAnthropicStream(
+  stream: AsyncIterable<MessageStreamEvent>
+): TrackedStream<MessageStreamEvent, AnthropicMessageResponse> {
+  return trackStream(stream, new AnthropicStreamAccumulator());
+}
+
+/**
+ * Wraps a Gemini content stream for tracking.
+ *
+ * @param result - The result of `model.generateContentStream()`, or its `stream`
+ * @returns The same chunks, plus finalResponse() resolving to a GenerateContentResult
+ */
+export function wrapGeminiStream(
+  result: GenerateContentStreamResult | AsyncIterable<GenerateContentResponse>
+): TrackedStream<GenerateContentResponse, GenerateContentResult> {
+  const stream = "stream" in result ? result.stream : result;
+  return trackStream<GenerateContentResponse, GenerateContentResult>(stream, new GeminiStreamAccumulator());
+}
@@ -0,0 +1,143 @@
+import { describe, it, expect } from "vitest";
+import { renderTemplate, renderEntityV2Request } from "./template";
+import { formatEntityV2Request, getAgentNode } from "./agent";
+import { EntityV2Request } from "./types";
+import { HoneValidationError } from "./errors";
+
+describe("template", () => {
+  describe("renderTemplate", () => {
+    it("should substitute variables", () => {
+      expect(renderTemplate("Hello, {{name}}!", { name: "Alice" })).toEqual({
+        text: "Hello, Alice!",
+        missing: [],
+      });
+    });
+
+    it("should ignore whitespace inside braces", () => {
+      const { text } = renderTemplate("{{ a }}-{{b }}-{{  c}}", { a: "1", b: "2", c: "3" });
+      expect(text).toBe("1-2-3");
+    });
+
+    it("should substitute repeated variables", () => {
+      const { text } = renderTemplate("{{x}} and {{x}}", { x: "y" });
+      expect(text).toBe("y and y");
+    });
+
+    it("should leave missing variables untouched and report them once", () => {
+      const result = renderTemplate("{{name}} {{name}} {{age}}", {});
+      expect(result.text).toBe("{{name}} {{name}} {{age}}");
+      expect(result.missing).toEqual(["name", "age"]);
+    });
+
+    it("should render escaped placeholders literally", () => {
+      const { text, missing } = renderTemplate("Use \\{{name}} for {{name}}", { name: "Bob" });
+      expect(text).toBe("Use {{name}} for Bob");
+      expect(missing).toEqual([]);
+    });
+
+    it("should not re-evaluate substituted values", () => {
+      const { text } = renderTemplate("{{a}}", { a: "{{b}}", b: "nope" });
+      expect(text).toBe("{{b}}");
+    });
+
+    it("should support dots and dashes in variable names", () => {
+      const { text } = renderTemplate("{{user.name}} {{tone-guide}}", {
+        "user.name": "Ann",
+        "tone-guide": "calm",
+      });
+      expect(text).toBe("Ann calm");
+    });
+
+    it("should treat empty string values as present", () => {
+      const result = renderTemplate("[{{a}}]", { a: "" });
+      expect(result).toEqual({ text: "[]", missing: [] });
+    });
+  });
+
+  describe("renderEntityV2Request", () => {
+    it("should render a request built by formatEntityV2Request", () => {
+      const node = getAgentNode("main", {
+        model: "gpt-4",
+        provider: "openai",
+        defaultPrompt: "Guidelines: {{guidelines}} for {{company}}",
+        params: {
+          company: "Acme",
+          guidelines: {
+            defaultPrompt: "Be {{tone}}",
+            params: { tone: "friendly" },
+          },
+        },
+      });
+
+      const result = renderEntityV2Request(formatEntityV2Request(node));
+
+      expect(result).toEqual({
+        evaluatedPrompt: "Guidelines: Be friendly for Acme",
+        missingVariables: [],
+      });
+    });
+
+    it("should render deeply nested agents, tools and prompts", () => {
+      const request: EntityV2Request = {
+        id: "root",
+        type: "agent",
+        prompt: "A({{tool}})",
+        params: {
+          tool: {
+            id: "tool",
+            type: "tool",
+            prompt: "T({{prompt}})",
+            params: {
+              prompt: { id: "prompt", type: "prompt", prompt: "P" },
+            },
+          },
+        },
+      };
+
+      expect(renderEntityV2Request(request).evaluatedPrompt).toBe("A(T(P))");
+    });
+
+    it("should report missing variables with their entity path", () => {
+      const request: EntityV2Request = {
+        id: "root",
+        type: "agent",
+        prompt: "{{child}} {{missingRoot}}",
+        params: {
+          child: { id: "child", type: "prompt", prompt: "{{missingChild}}" },
+        },
+      };
+
+      const result = renderEntityV2Request(request);
+
+      expect(result.evaluatedPrompt).toBe("{{missingChild}} {{missingRoot}}");
+      expect(result.missingVariables).toEqual([
+        { name: "missingChild", entityId: "child", entityType: "prompt", path: ["root", "child"] },
+        { name: "missingRoot", entityId: "root", entityType: "agent", path: ["root"] },
+      ]);
+    });
+
+    it("should throw in strict mode when variables are missing", () => {
+      const request: EntityV2Request = {
+        id: "root",
+        type: "prompt",
+        prompt: "Hello {{name}}",
+      };
+
+      expect(() => renderEntityV2Request(request, { strict: true })).toThrow(
+        "Missing template variables: root: {{name}}"
+      );
+      expect(() => renderEntityV2Request(request, { strict: true })).toThrow(HoneValidationError);
+    });
+
+    it("should not throw in strict mode when all variables are present", () => {
+      const request: EntityV2Request = {
+        id: "root",
+        type: "prompt",
+        prompt: "Hello {{name}}",
+        params: { name: "Ann" },
+      };
+
+      expect(renderEntityV2Request(request, { strict: true }).evaluatedPrompt).toBe("Hello Ann");
+    });
+  });
+});
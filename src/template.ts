@@ -0,0 +1,145 @@
+/**
+ * Local template rendering for the Hone SDK.
+ *
+ * Mirrors the server-side evaluation performed by /api/evaluate so prompts
+ * can be rendered and tested without network access.
+ *
+ * Template rules:
+ * - Variables use the form `{{variableName}}`; whitespace inside the braces is ignored.
+ * - Variable names may contain letters, digits, `_`, `-` and `.`.
+ * - Param values are inserted verbatim and are never re-evaluated.
+ * - `\{{` escapes a placeholder and renders as a literal `{{`.
+ * - Variables without a matching param are left untouched and reported as missing.
+ */
+
+import { EntityType, EntityV2Request } from "./types.js";
+import { HoneValidationError } from "./errors.js";
+
+/**
+ * A variable referenced by a template that had no matching param.
+ */
+export type MissingVariable = {
+  /** The variable name as written in the template */
+  name: string;
+  /** The id of the entity whose template referenced the variable */
+  entityId: string;
+  /** The type of entity whose template referenced the variable */
+  entityType: EntityType;
+  /** Entity ids from the root request down to the entity that referenced the variable */
+  path: string[];
+};
+
+export type RenderTemplateOptions = {
+  /** Throw an error instead of reporting missing variables. Defaults to false. */
+  strict?: boolean;
+};
+
+/**
+ * The result of rendering an EntityV2Request locally.
+ */
+export type RenderResult = {
+  /** The fully evaluated prompt, equivalent to EntityV2Response.evaluatedPrompt */
+  evaluatedPrompt: string;
+  /** Variables referenced in any template of the tree without a matching param */
+  missingVariables: MissingVariable[];
+};
+
+const PLACEHOLDER_PATTERN = /\\\{\{|\{\{\s*([\w.-]+)\s*\}\}/g;
+
+/**
+ * Renders a single template string with the given values.
+ *
+ * @param template - The template containing `{{variable}}` placeholders
+ * @param values - Values to substitute, keyed by variable name
+ * @returns The rendered text and the names of variables without a value
+ *
+ * @example
+ * ```typescript
+ * renderTemplate("Hello, {{name}}!", { name: "Alice" });
+ * // { text: "Hello, Alice!", missing: [] }
+ * ```
+ */
+export function renderTemplate(
+  template: string,
+  values: Record<string, string>
+): { text: string; missing: string[] } {
+  const missing: string[] = [];
+
+  const text = template.replace(PLACEHOLDER_PATTERN, (match, name?: string) => {
+    // Escaped placeholder: drop the backslash, keep the braces
+    if (name === undefined) {
+      return "{{";
+    }
+    if (Object.prototype.hasOwnProperty.call(values, name)) {
+      return values[name];
+    }
+    if (!missing.includes(name)) {
+      missing.push(name);
+    }
+    return match;
+  });
+
+  return { text, missing };
+}
+
+/**
+ * Renders an EntityV2Request tree (as produced by formatEntityV2Request) locally.
+ * Nested agent/tool/prompt params are rendered depth-first and substituted into
+ * their parent's template, exactly like the server does for entities with no
+ * stored version.
+ *
+ * @param request - The request tree to render
+ * @param options - Rendering options
+ * @returns The evaluated prompt and any missing variables
+ * @throws Error if `strict` is set and any variable is missing
+ *
+ * @example
+ * ```typescript
+ * const node = getAgentNode("greeting", {
+ *   model: "gpt-4o",
+ *   provider: "openai",
+ *   defaultPrompt: "Hello, {{userName}}!",
+ *   params: { userName: "Alice" },
+ * });
+ *
+ * const { evaluatedPrompt } = renderEntityV2Request(formatEntityV2Request(node));
+ * // "Hello, Alice!"
+ * ```
+ */
+export function renderEntityV2Request(
+  request: EntityV2Request,
+  options: RenderTemplateOptions = {}
+): RenderResult {
+  const missingVariables: MissingVariable[] = [];
+
+  function renderNode(node: EntityV2Request, path: string[]): string {
+    const nodePath = [...path, node.id];
+    const values: Record<string, string> = {};
+
+    for (const [key, value] of Object.entries(node.params ?? {})) {
+      values[key] = typeof value === "string" ? value : renderNode(value, nodePath);
+    }
+
+    const { text, missing } = renderTemplate(node.prompt, values);
+    for (const name of missing) {
+      missingVariables.push({
+        name,
+        entityId: node.id,
+        entityType: node.type,
+        path: nodePath,
+      });
+    }
+    return text;
+  }
+
+  const evaluatedPrompt = renderNode(request, []);
+
+  if (options.strict && missingVariables.length > 0) {
+    const names = missingVariables
+      .map((v) => `${v.path.join(".")}: {{${v.name}}}`)
+      .join(", ");
+    throw new HoneValidationError(`Missing template variables: ${names}`);
+  }
+
+  return { evaluatedPrompt, missingVariables };
+}
@@ -5,6 +5,17 @@ import {
   extractOpenAIMessages,
   extractAnthropicMessages,
   extractGeminiMessages,
+  extractOpenAIMetadata,
+  extractOpenAIResponsesMessages,
+  extractOpenAIResponsesMetadata,
+  normalizeOpenAIResponsesInput,
+  normalizeOpenAIMessages,
+  normalizeAnthropicMessages,
+  normalizeGeminiContents,
+  GeminiToolCallIds,
+  fromOpenAIResponses,
+  extractAnthropicMetadata,
+  extractGeminiMetadata,
   toolResult,
   fromOpenAI,
   fromAnthropic,
@@ -372,7 +383,7 @@ describe("Tool tracking helpers", () => {
       expect(messages[0].tool_calls![0].name).toBe("get_weather");
       expect(messages[0].tool_calls![0].arguments).toBe('{"location":"San Francisco"}');
       // Gemini IDs are generated
-      expect(messages[0].tool_calls![0].id).toMatch(/^gemini_get_weather_0_/);
+      expect(messages[0].tool_calls![0].id).toBe("gemini_get_weather_0");
     });
 
     it("should combine text and function calls", () => {
@@ -442,8 +453,477 @@ describe("Tool tracking helpers", () => {
       expect(messages[0].tool_calls![1].name).toBe("get_time");
     });
 
-    it("fromGemini should be an alias", () => {
-      expect(fromGemini).toBe(extractGeminiMessages);
+    it("fromGemini should be an alias that can be passed to map", () => {
+      const responses = [
+        wrapGeminiResponse([
+          { content: { role: "model", parts: [{ functionCall: { name: "get_weather", args: {} } }] } },
+        ]),
+        wrapGeminiResponse([{ content: { role: "model", parts: [{ text: "Sunny" }] } }]),
+      ] as any[];
+
+      expect(responses.flatMap(fromGemini)).toEqual(
+        responses.flatMap((response) => extractGeminiMessages(response))
+      );
+    });
+  });
+
+  describe("Gemini tool call ids", () => {
+    const weatherContents = [
+      { role: "user", parts: [{ text: "Weather in SF and NYC?" }] },
+      {
+        role: "model",
+        parts: [
+          { functionCall: { name: "get_weather", args: { location: "SF" } } },
+          { functionCall: { name: "get_weather", args: { location: "NYC" } } },
+        ],
+      },
+      {
+        role: "function",
+        parts: [
+          { functionResponse: { name: "get_weather", response: { temp: 72 } } },
+          { functionResponse: { name: "get_weather", response: { temp: 55 } } },
+        ],
+      },
+    ];
+
+    it("should pair function responses with their calls in order", () => {
+      const messages = normalizeGeminiContents(weatherContents as any);
+
+      expect(messages[1].tool_calls!.map((tc) => tc.id)).toEqual([
+        "gemini_get_weather_0",
+        "gemini_get_weather_1",
+      ]);
+      expect(messages[2]).toEqual({
+        role: "tool",
+        content: '{"temp":72}',
+        tool_call_id: "gemini_get_weather_0",
+      });
+      expect(messages[3].tool_call_id).toBe("gemini_get_weather_1");
+    });
+
+    it("should produce the same ids on every call", () => {
+      expect(normalizeGeminiContents(weatherContents as any)).toEqual(
+        normalizeGeminiContents(weatherContents as any)
+      );
+    });
+
+    it("should continue numbering from the contents into the response", () => {
+      const ids = new GeminiToolCallIds();
+      normalizeGeminiContents(weatherContents as any, ids);
+      const messages = extractGeminiMessages(
+        {
+          response: {
+            candidates: [
+              {
+                content: {
+                  role: "model",
+                  parts: [{ functionCall: { name: "get_weather", args: { location: "LA" } } }],
+                },
+              },
+            ],
+          },
+        } as any,
+        ids
+      );
+
+      expect(messages[0].tool_calls![0].id).toBe("gemini_get_weather_2");
+    });
+
+    it("should use native ids when present", () => {
+      const messages = normalizeGeminiContents([
+        {
+          role: "model",
+          parts: [
+            { functionCall: { id: "call_a", name: "get_weather", args: {} } },
+            { functionCall: { id: "call_b", name: "get_weather", args: {} } },
+          ],
+        },
+        {
+          role: "function",
+          parts: [
+            { functionResponse: { id: "call_b", name: "get_weather", response: {} } },
+            { functionResponse: { name: "get_weather", response: {} } },
+          ],
+        },
+      ] as any);
+
+      expect(messages[0].tool_calls!.map((tc) => tc.id)).toEqual(["call_a", "call_b"]);
+      expect(messages[1].tool_call_id).toBe("call_b");
+      expect(messages[2].tool_call_id).toBe("call_a");
+    });
+
+    it("should give unmatched responses a fresh id", () => {
+      const ids = new GeminiToolCallIds();
+      expect(ids.response({ name: "lookup" })).toBe("gemini_lookup_0");
+      expect(ids.call({ name: "lookup" })).toBe("gemini_lookup_1");
+    });
+  });
+
+  describe("response metadata", () => {
+    it("should extract OpenAI model, finish reason and id", () => {
+      const response = {
+        id: "chatcmpl-123",
+        model: "gpt-4o-2024-08-06",
+        choices: [{ message: { role: "assistant", content: "Hi" }, finish_reason: "length" }],
+      };
+
+      expect(extractOpenAIMetadata(response as any)).toEqual({
+        model: "gpt-4o-2024-08-06",
+        finishReason: "length",
+        responseId: "chatcmpl-123",
+      });
+    });
+
+    it("should extract Anthropic model, stop reason and id", () => {
+      const response = {
+        id: "msg_123",
+        model: "claude-sonnet-4-20250514",
+        stop_reason: "max_tokens",
+        content: [],
+      };
+
+      expect(extractAnthropicMetadata(response as any)).toEqual({
+        model: "claude-sonnet-4-20250514",
+        finishReason: "max_tokens",
+        responseId: "msg_123",
+      });
+    });
+
+    it("should extract Gemini model version, finish reason and id", () => {
+      const response = {
+        response: {
+          modelVersion: "gemini-2.0-flash",
+          responseId: "resp_123",
+          candidates: [{ content: { role: "model", parts: [] }, finishReason: "MAX_TOKENS" }],
+        },
+      };
+
+      expect(extractGeminiMetadata(response as any)).toEqual({
+        model: "gemini-2.0-flash",
+        finishReason: "MAX_TOKENS",
+        responseId: "resp_123",
+      });
+    });
+
+    it("should leave missing fields undefined", () => {
+      expect(extractGeminiMetadata({ response: {} } as any)).toEqual({
+        model: undefined,
+        finishReason: undefined,
+        responseId: undefined,
+      });
+    });
+  });
+
+  describe("OpenAI Responses API", () => {
+    it("should treat string input as a user message", () => {
+      expect(normalizeOpenAIResponsesInput("Hello")).toEqual([{ role: "user", content: "Hello" }]);
+    });
+
+    it("should normalize input items including tool calls and outputs", () => {
+      const input = [
+        { role: "developer", content: "Be brief" },
+        { role: "user", content: [{ type: "input_text", text: "Weather in SF?" }] },
+        { type: "reasoning", id: "rs_1", summary: [] },
+        {
+          type: "message",
+          id: "msg_1",
+          role: "assistant",
+          status: "completed",
+          content: [{ type: "output_text", text: "Checking.", annotations: [] }],
+        },
+        { type: "function_call", call_id: "call_1", name: "get_weather", arguments: '{"location":"SF"}' },
+        { type: "function_call_output", call_id: "call_1", output: '{"temp":72}' },
+      ];
+
+      expect(normalizeOpenAIResponsesInput(input as any)).toEqual([
+        { role: "system", content: "Be brief" },
+        { role: "user", content: "Weather in SF?" },
+        {
+          role: "assistant",
+          content: "Checking.",
+          tool_calls: [{ id: "call_1", name: "get_weather", arguments: '{"location":"SF"}' }],
+        },
+        { role: "tool", content: '{"temp":72}', tool_call_id: "call_1" },
+      ]);
+    });
+
+    it("should extract parallel function calls from output items", () => {
+      const response = {
+        output: [
+          { type: "reasoning", id: "rs_1", summary: [] },
+          { type: "function_call", call_id: "call_1", name: "get_weather", arguments: "{}" },
+          { type: "function_call", call_id: "call_2", name: "get_time", arguments: "{}" },
+        ],
+      };
+
+      const messages = extractOpenAIResponsesMessages(response as any);
+
+      expect(messages).toHaveLength(1);
+      expect(messages[0].role).toBe("assistant");
+      expect(messages[0].tool_calls!.map((tc) => tc.id)).toEqual(["call_1", "call_2"]);
+    });
+
+    it("should include refusals as assistant content", () => {
+      const response = {
+        output: [
+          {
+            type: "message",
+            role: "assistant",
+            content: [{ type: "refusal", refusal: "I can't help with that." }],
+          },
+        ],
+      };
+
+      expect(extractOpenAIResponsesMessages(response as any)).toEqual([
+        { role: "assistant", content: "I can't help with that." },
+      ]);
+    });
+
+    it("should use the incomplete reason as the finish reason", () => {
+      const response = {
+        id: "resp_1",
+        model: "gpt-4.1",
+        status: "incomplete",
+        incomplete_details: { reason: "max_output_tokens" },
+        output: [],
+      };
+
+      expect(extractOpenAIResponsesMetadata(response as any)).toEqual({
+        model: "gpt-4.1",
+        finishReason: "max_output_tokens",
+        responseId: "resp_1",
+      });
+    });
+
+    it("fromOpenAIResponses should be an alias", () => {
+      expect(fromOpenAIResponses).toBe(extractOpenAIResponsesMessages);
+    });
+  });
+
+  describe("multimodal content", () => {
+    it("should keep OpenAI image, audio and file parts", () => {
+      const messages = normalizeOpenAIMessages([
+        {
+          role: "user",
+          content: [
+            { type: "text", text: "Compare these" },
+            { type: "image_url", image_url: { url: "https://example.com/a.png", detail: "low" } },
+            { type: "image_url", image_url: { url: "data:image/jpeg;base64,AAAA" } },
+            { type: "input_audio", input_audio: { data: "UklGR", format: "wav" } },
+            { type: "file", file: { file_id: "file-123", filename: "report.pdf" } },
+          ],
+        },
+      ]);
+
+      expect(messages[0].content).toBe("Compare these");
+      expect(messages[0].parts).toEqual([
+        { type: "text", text: "Compare these" },
+        { type: "image", url: "https://example.com/a.png", detail: "low" },
+        { type: "image", data: "AAAA", mimeType: "image/jpeg" },
+        { type: "audio", data: "UklGR", mimeType: "audio/wav" },
+        { type: "file", fileId: "file-123", filename: "report.pdf" },
+      ]);
+    });
+
+    it("should not add parts to text-only messages", () => {
+      const messages = normalizeOpenAIMessages([{ role: "user", content: [{ type: "text", text: "Hi" }] }]);
+
+      expect(messages).toEqual([{ role: "user", content: "Hi" }]);
+    });
+
+    it("should keep an image-only user message instead of an empty one", () => {
+      const messages = normalizeAnthropicMessages([
+        {
+          role: "user",
+          content: [{ type: "image", source: { type: "base64", media_type: "image/png", data: "iVBOR" } }],
+        },
+      ]);
+
+      expect(messages).toEqual([
+        {
+          role: "user",
+          content: "",
+          parts: [{ type: "image", data: "iVBOR", mimeType: "image/png" }],
+        },
+      ]);
+    });
+
+    it("should keep Anthropic documents and images in tool results", () => {
+      const messages = normalizeAnthropicMessages([
+        {
+          role: "user",
+          content: [
+            {
+              type: "document",
+              title: "Invoice",
+              source: { type: "base64", media_type: "application/pdf", data: "JVBERi0" },
+            },
+            {
+              type: "tool_result",
+              tool_use_id: "toolu_1",
+              content: [
+                { type: "text", text: "Screenshot taken" },
+                { type: "image", source: { type: "url", url: "https://example.com/s.png" } },
+              ],
+            },
+          ],
+        },
+      ]);
+
+      expect(messages[0].parts).toEqual([
+        { type: "file", data: "JVBERi0", mimeType: "application/pdf", filename: "Invoice" },
+      ]);
+      expect(messages[1]).toEqual({
+        role: "tool",
+        content: "Screenshot taken",
+        parts: [
+          { type: "text", text: "Screenshot taken" },
+          { type: "image", url: "https://example.com/s.png" },
+        ],
+        tool_call_id: "toolu_1",
+      });
+    });
+
+    it("should keep Gemini inline data and file data", () => {
+      const messages = normalizeGeminiContents([
+        {
+          role: "user",
+          parts: [
+            { text: "Transcribe" },
+            { inlineData: { mimeType: "audio/mp3", data: "SUQz" } },
+            { fileData: { mimeType: "application/pdf", fileUri: "gs://bucket/doc.pdf" } },
+          ],
+        },
+      ]);
+
+      expect(messages[0].parts).toEqual([
+        { type: "text", text: "Transcribe" },
+        { type: "audio", data: "SUQz", mimeType: "audio/mp3" },
+        { type: "file", url: "gs://bucket/doc.pdf", mimeType: "application/pdf" },
+      ]);
+    });
+
+    it("should keep Responses API image and file inputs", () => {
+      const messages = normalizeOpenAIResponsesInput([
+        {
+          role: "user",
+          content: [
+            { type: "input_text", text: "Summarize" },
+            { type: "input_image", detail: "auto", image_url: "https://example.com/chart.png" },
+            { type: "input_file", filename: "q3.pdf", file_data: "data:application/pdf;base64,JVBERi0" },
+          ],
+        },
+      ] as any);
+
+      expect(messages[0].parts).toEqual([
+        { type: "text", text: "Summarize" },
+        { type: "image", url: "https://example.com/chart.png", detail: "auto" },
+        { type: "file", filename: "q3.pdf", data: "JVBERi0", mimeType: "application/pdf" },
+      ]);
+    });
+  });
+
+  describe("reasoning", () => {
+    it("should keep Anthropic thinking blocks as reasoning", () => {
+      const response = {
+        role: "assistant",
+        content: [
+          { type: "thinking", thinking: "The user wants weather, so call the tool.", signature: "sig" },
+          { type: "redacted_thinking", data: "encrypted" },
+          { type: "text", text: "Let me check." },
+          { type: "tool_use", id: "toolu_1", name: "get_weather", input: { location: "SF" } },
+        ],
+      };
+
+      const messages = extractAnthropicMessages(response as any);
+
+      expect(messages[0].reasoning).toBe("The user wants weather, so call the tool.\n[redacted]");
+      expect(messages[0].content).toBe("Let me check.");
+      expect(messages[0].tool_calls).toHaveLength(1);
+    });
+
+    it("should keep thinking blocks in Anthropic input messages", () => {
+      const messages = normalizeAnthropicMessages([
+        {
+          role: "assistant",
+          content: [
+            { type: "thinking", thinking: "Need the tool.", signature: "sig" },
+            { type: "tool_use", id: "toolu_1", name: "get_weather", input: {} },
+          ],
+        },
+      ]);
+
+      expect(messages[0]).toMatchObject({ role: "assistant", reasoning: "Need the tool." });
+    });
+
+    it("should mark redacted thinking in Anthropic input messages", () => {
+      const messages = normalizeAnthropicMessages([
+        {
+          role: "assistant",
+          content: [
+            { type: "redacted_thinking", data: "encrypted" },
+            { type: "text", text: "Done." },
+          ],
+        },
+      ]);
+
+      expect(messages[0]).toMatchObject({ role: "assistant", content: "Done.", reasoning: "[redacted]" });
+    });
+
+    it("should separate Gemini thought parts from the answer", () => {
+      const response = {
+        response: {
+          candidates: [
+            {
+              content: {
+                role: "model",
+                parts: [{ text: "Considering units...", thought: true }, { text: "It's 72°F." }],
+              },
+            },
+          ],
+        },
+      };
+
+      expect(extractGeminiMessages(response as any)).toEqual([
+        { role: "assistant", content: "It's 72°F.", reasoning: "Considering units..." },
+      ]);
+      expect(
+        normalizeGeminiContents([
+          { role: "model", parts: [{ text: "Thinking", thought: true } as any, { text: "Answer" }] },
+        ]),
+      ).toEqual([{ role: "assistant", content: "Answer", reasoning: "Thinking" }]);
+    });
+
+    it("should attach OpenAI reasoning summaries to the following output", () => {
+      const response = {
+        output: [
+          {
+            type: "reasoning",
+            id: "rs_1",
+            summary: [{ type: "summary_text", text: "Look up the weather first." }],
+          },
+          { type: "function_call", call_id: "call_1", name: "get_weather", arguments: "{}" },
+        ],
+      };
+
+      expect(extractOpenAIResponsesMessages(response as any)).toEqual([
+        {
+          role: "assistant",
+          content: "",
+          tool_calls: [{ id: "call_1", name: "get_weather", arguments: "{}" }],
+          reasoning: "Look up the weather first.",
+        },
+      ]);
+    });
+
+    it("should keep trailing reasoning with no output", () => {
+      const response = {
+        output: [{ type: "reasoning", id: "rs_1", summary: [{ type: "summary_text", text: "Hmm." }] }],
+      };
+
+      expect(extractOpenAIResponsesMessages(response as any)).toEqual([
+        { role: "assistant", content: "", reasoning: "Hmm." },
+      ]);
     });
   });
 });
@@ -5,12 +5,26 @@
  * that include function calling / tool use.
  */
 
-import { Message, ToolCall } from "./types.js";
+import { ContentPart, Message, ResponseMetadata, ToolCall } from "./types.js";
+import {
+  mediaPartFromData,
+  mediaPartFromUrl,
+  mediaTypeFromMime,
+  partsToMessageContent,
+} from "./content.js";
 
 // Import types from provider SDKs (dev dependencies)
 import type { ChatCompletion } from "openai/resources/chat/completions";
 import type { Message as AnthropicMessageResponse } from "@anthropic-ai/sdk/resources/messages";
 import type { GenerateContentResult } from "@google/generative-ai";
+import type {
+  Response as OpenAIResponse,
+  ResponseInput,
+  ResponseInputItem,
+} from "openai/resources/responses/responses";
+
+/** Stands in for redacted reasoning in Message.reasoning; its content is encrypted */
+export const REDACTED_REASONING = "[redacted]";
 
 /**
  * Creates an assistant message containing tool calls.
@@ -144,6 +158,12 @@ export function extractAnthropicMessages(response: AnthropicMessageResponse): Me
     .map((block) => (block as { type: "text"; text: string }).text)
     .join("\n");
 
+  // Extract reasoning from thinking blocks, marking redacted ones
+  const reasoning = response.content
+    .filter((block) => block.type === "thinking" || block.type === "redacted_thinking")
+    .map((block) => (block.type === "thinking" ? block.thinking : REDACTED_REASONING))
+    .join("\n");
+
   // Extract tool use blocks
   const toolUseBlocks = response.content.filter(
     (block) => block.type === "tool_use"
@@ -159,12 +179,14 @@ export function extractAnthropicMessages(response: AnthropicMessageResponse): Me
     messages.push({
       role: "assistant",
       content: textContent,
+      ...(reasoning && { reasoning }),
       tool_calls: toolCalls,
     });
   } else {
     messages.push({
       role: response.role as Message["role"],
       content: textContent,
+      ...(reasoning && { reasoning }),
     });
   }
 
@@ -175,10 +197,12 @@ export function extractAnthropicMessages(response: AnthropicMessageResponse): Me
  * Extracts messages from a Google Gemini response.
  *
  * Handles both text responses and function call parts.
- * Note: Gemini doesn't provide unique IDs for function calls, so we generate
- * them using the format `gemini_{functionName}_{index}`.
+ * Function calls without a native `id` get deterministic ids of the form
+ * `gemini_{functionName}_{n}`. Pass the GeminiToolCallIds used to normalize the
+ * preceding contents so ids continue from, and pair with, the earlier turns.
  *
  * @param response - The Gemini GenerateContentResponse object
+ * @param ids - Tool call id allocator shared across a conversation
  * @returns Array of Message objects ready to be tracked
  *
  * @example
@@ -197,7 +221,10 @@ export function extractAnthropicMessages(response: AnthropicMessageResponse): Me
  * await hone.track("conversation", [...existingMessages, ...messages], { sessionId });
  * ```
  */
-export function extractGeminiMessages(response: GenerateContentResult): Message[] {
+export function extractGeminiMessages(
+  response: GenerateContentResult,
+  ids: GeminiToolCallIds = new GeminiToolCallIds()
+): Message[] {
   const messages: Message[] = [];
 
   const candidates = response.response.candidates;
@@ -208,45 +235,48 @@ export function extractGeminiMessages(response: GenerateContentResult): Message[
   for (const candidate of candidates) {
     if (!candidate.content?.parts) continue;
 
-    const textParts: string[] = [];
-    const functionCalls: Array<{
-      name: string;
-      args: Record<string, unknown>;
-    }> = [];
+    const parts: ContentPart[] = [];
+    const toolCalls: ToolCall[] = [];
+
+    const thoughts: string[] = [];
 
     for (const part of candidate.content.parts) {
-      if ("text" in part && part.text) {
-        textParts.push(part.text);
+      const thought = geminiThoughtText(part);
+      if (thought !== undefined) {
+        thoughts.push(thought);
+      } else if ("text" in part && part.text) {
+        parts.push({ type: "text", text: part.text });
+      } else if ("inlineData" in part && part.inlineData) {
+        // Generated images/audio
+        const { mimeType, data } = part.inlineData;
+        parts.push({ type: mediaTypeFromMime(mimeType), data, mimeType });
       } else if ("functionCall" in part && part.functionCall) {
-        functionCalls.push({
+        toolCalls.push({
+          id: ids.call(part.functionCall),
           name: part.functionCall.name,
-          args: (part.functionCall.args || {}) as Record<string, unknown>,
+          arguments: JSON.stringify(part.functionCall.args || {}),
         });
       }
     }
 
-    const textContent = textParts.join("\n");
-
-    if (functionCalls.length > 0) {
-      // Gemini doesn't provide tool call IDs, so we generate them
-      const toolCalls: ToolCall[] = functionCalls.map((fc, index) => ({
-        id: `gemini_${fc.name}_${index}_${Date.now()}`,
-        name: fc.name,
-        arguments: JSON.stringify(fc.args),
-      }));
+    const content = {
+      ...partsToMessageContent(parts),
+      ...(thoughts.length > 0 && { reasoning: thoughts.join("\n") }),
+    };
 
+    if (toolCalls.length > 0) {
       messages.push({
         role: "assistant",
-        content: textContent,
+        ...content,
         tool_calls: toolCalls,
       });
-    } else if (textContent) {
+    } else if (parts.length > 0 || thoughts.length > 0) {
       messages.push({
         role:
           candidate.content.role === "model"
             ? "assistant"
             : (candidate.content.role as Message["role"]) || "assistant",
-        content: textContent,
+        ...content,
       });
     }
   }
@@ -254,13 +284,102 @@ export function extractGeminiMessages(response: GenerateContentResult): Message[
   return messages;
 }
 
+/**
+ * Extracts messages from an OpenAI Responses API response.
+ *
+ * Output `message` items become assistant messages, and `function_call` items are
+ * attached to the preceding assistant message as tool calls. Reasoning summaries are
+ * attached to the assistant message that follows them.
+ *
+ * @param response - The OpenAI Responses API response object
+ * @returns Array of Message objects ready to be tracked
+ *
+ * @example
+ * ```typescript
+ * const response = await openai.responses.create({ model: "gpt-4.1", input, tools });
+ *
+ * const messages = extractOpenAIResponsesMessages(response);
+ * await hone.track("conversation", [...existingMessages, ...messages], { sessionId });
+ * ```
+ */
+export function extractOpenAIResponsesMessages(response: OpenAIResponse): Message[] {
+  return responseItemsToMessages(response.output);
+}
+
+/**
+ * Extracts the model, finish reason and response id from an OpenAI chat completion.
+ * The finish reason is taken from the first choice.
+ *
+ * @param response - The OpenAI chat completion response object
+ * @returns Metadata to attach to a tracked run
+ */
+export function extractOpenAIMetadata(response: ChatCompletion): ResponseMetadata {
+  return {
+    model: response.model,
+    finishReason: response.choices[0]?.finish_reason ?? undefined,
+    responseId: response.id,
+  };
+}
+
+/**
+ * Extracts the model, status and response id from an OpenAI Responses API response.
+ * For incomplete responses the finish reason is the incomplete reason, e.g. "max_output_tokens".
+ *
+ * @param response - The OpenAI Responses API response object
+ * @returns Metadata to attach to a tracked run
+ */
+export function extractOpenAIResponsesMetadata(response: OpenAIResponse): ResponseMetadata {
+  return {
+    model: response.model,
+    finishReason:
+      response.status === "incomplete"
+        ? (response.incomplete_details?.reason ?? response.status)
+        : response.status,
+    responseId: response.id,
+  };
+}
+
+/**
+ * Extracts the model, stop reason and message id from an Anthropic Claude response.
+ *
+ * @param response - The Anthropic message response object
+ * @returns Metadata to attach to a tracked run
+ */
+export function extractAnthropicMetadata(response: AnthropicMessageResponse): ResponseMetadata {
+  return {
+    model: response.model,
+    finishReason: response.stop_reason ?? undefined,
+    responseId: response.id,
+  };
+}
+
+/**
+ * Extracts the model version, finish reason and response id from a Google Gemini response.
+ * The finish reason is taken from the first candidate.
+ *
+ * @param response - The Gemini GenerateContentResult object
+ * @returns Metadata to attach to a tracked run
+ */
+export function extractGeminiMetadata(response: GenerateContentResult): ResponseMetadata {
+  // Returned by the API but not yet part of the SDK's types
+  const { modelVersion, responseId } = response.response as {
+    modelVersion?: string;
+    responseId?: string;
+  };
+  return {
+    model: modelVersion,
+    finishReason: response.response.candidates?.[0]?.finishReason,
+    responseId,
+  };
+}
+
 // =============================================================================
 // Input Message Normalizers (for zero-friction tracking)
 // =============================================================================
 
 import type { ChatCompletionMessageParam } from "openai/resources/chat/completions";
 import type { MessageParam } from "@anthropic-ai/sdk/resources/messages";
-import type { Content } from "@google/generative-ai";
+import type { Content, Part } from "@google/generative-ai";
 
 /**
  * Normalizes OpenAI input messages to Hone's Message format.
@@ -274,18 +393,9 @@ export function normalizeOpenAIMessages(messages: ChatCompletionMessageParam[]):
   for (const m of messages) {
     // Handle different message types
     if (m.role === "system" || m.role === "user" || m.role === "assistant") {
-      const content = typeof m.content === "string"
-        ? m.content
-        : Array.isArray(m.content)
-          ? m.content
-              .filter((c): c is { type: "text"; text: string } => c.type === "text")
-              .map((c) => c.text)
-              .join("\n")
-          : "";
-
       const message: Message = {
         role: m.role,
-        content: content || "",
+        ...partsToMessageContent(openAIContentParts(m.content)),
       };
 
       // Handle tool calls on assistant messages
@@ -303,7 +413,7 @@ export function normalizeOpenAIMessages(messages: ChatCompletionMessageParam[]):
     } else if (m.role === "tool") {
       result.push({
         role: "tool",
-        content: typeof m.content === "string" ? m.content : "",
+        ...partsToMessageContent(openAIContentParts(m.content)),
         tool_call_id: m.tool_call_id,
       });
     }
@@ -312,6 +422,163 @@ export function normalizeOpenAIMessages(messages: ChatCompletionMessageParam[]):
   return result;
 }
 
+/**
+ * Converts OpenAI message content (a string or content parts) to ContentParts.
+ * Refusal parts are skipped.
+ */
+function openAIContentParts(
+  content: ChatCompletionMessageParam["content"]
+): ContentPart[] {
+  if (typeof content === "string") {
+    return [{ type: "text", text: content }];
+  }
+  if (!Array.isArray(content)) {
+    return [];
+  }
+
+  const parts: ContentPart[] = [];
+  for (const part of content) {
+    if (part.type === "text") {
+      parts.push({ type: "text", text: part.text });
+    } else if (part.type === "image_url") {
+      const detail = part.image_url.detail;
+      parts.push(mediaPartFromUrl("image", part.image_url.url, detail ? { detail } : {}));
+    } else if (part.type === "input_audio") {
+      parts.push({
+        type: "audio",
+        data: part.input_audio.data,
+        mimeType: `audio/${part.input_audio.format}`,
+      });
+    } else if (part.type === "file") {
+      const { file_data, file_id, filename } = part.file;
+      const extra = { ...(file_id && { fileId: file_id }), ...(filename && { filename }) };
+      parts.push(file_data ? mediaPartFromData("file", file_data, extra) : { type: "file", ...extra });
+    }
+  }
+  return parts;
+}
+
+/**
+ * Normalizes OpenAI Responses API input to Hone's Message format.
+ * Note: Instructions should be passed separately to track().
+ *
+ * @param input - A string or array of Responses API input items
+ * @returns Array of normalized Message objects
+ */
+export function normalizeOpenAIResponsesInput(input: string | ResponseInput): Message[] {
+  if (typeof input === "string") {
+    return [{ role: "user", content: input }];
+  }
+  return responseItemsToMessages(input);
+}
+
+/**
+ * Converts Responses API items (input or output) to Messages.
+ * Function calls are grouped onto the assistant message they follow,
+ * and function call outputs become tool messages.
+ */
+function responseItemsToMessages(items: Array<ResponseInputItem>): Message[] {
+  const result: Message[] = [];
+  // Reasoning items precede the assistant output they led to
+  let reasoning: string[] = [];
+
+  const attachReasoning = (message: Message) => {
+    if (reasoning.length > 0) {
+      message.reasoning = [message.reasoning, ...reasoning].filter(Boolean).join("\n");
+      reasoning = [];
+    }
+    return message;
+  };
+
+  for (const item of items) {
+    // Easy input messages may omit the type
+    if (item.type === "message" || (item.type === undefined && "role" in item)) {
+      const message = item as Extract<ResponseInputItem, { role: string }>;
+      const normalized: Message = {
+        role: message.role === "developer" ? "system" : message.role,
+        ...partsToMessageContent(responseContentParts(message.content)),
+      };
+      result.push(normalized.role === "assistant" ? attachReasoning(normalized) : normalized);
+    } else if (item.type === "function_call" || item.type === "custom_tool_call") {
+      const toolCall: ToolCall = {
+        id: item.call_id,
+        name: item.name,
+        arguments: item.type === "function_call" ? item.arguments : item.input,
+      };
+      const previous = result[result.length - 1];
+      if (previous?.role === "assistant") {
+        previous.tool_calls = [...(previous.tool_calls ?? []), toolCall];
+        attachReasoning(previous);
+      } else {
+        result.push(attachReasoning({ role: "assistant", content: "", tool_calls: [toolCall] }));
+      }
+    } else if (item.type === "reasoning") {
+      // Prefer the summary; raw reasoning content is only returned by some models
+      const texts = (item.summary.length > 0 ? item.summary : (item.content ?? [])).map((part) => part.text);
+      reasoning.push(...texts.filter(Boolean));
+    } else if (item.type === "function_call_output" || item.type === "custom_tool_call_output") {
+      result.push({
+        role: "tool",
+        ...partsToMessageContent(responseContentParts(item.output)),
+        tool_call_id: item.call_id,
+      });
+    }
+    // Built-in tool calls and item references carry no conversation text
+  }
+
+  if (reasoning.length > 0) {
+    // Reasoning with no output after it, e.g. an incomplete response
+    result.push(attachReasoning({ role: "assistant", content: "" }));
+  }
+
+  return result;
+}
+
+/**
+ * Converts Responses API content to ContentParts.
+ * Handles input_text, output_text, refusal, input_image, input_file and input_audio parts.
+ */
+function responseContentParts(content: string | Array<{ type: string }>): ContentPart[] {
+  if (typeof content === "string") {
+    return [{ type: "text", text: content }];
+  }
+
+  const parts: ContentPart[] = [];
+  for (const part of content as Array<Record<string, unknown> & { type: string }>) {
+    if (typeof part.text === "string") {
+      parts.push({ type: "text", text: part.text });
+    } else if (typeof part.refusal === "string") {
+      parts.push({ type: "text", text: part.refusal });
+    } else if (part.type === "input_image") {
+      const extra = {
+        ...(typeof part.file_id === "string" && { fileId: part.file_id }),
+        ...(typeof part.detail === "string" && { detail: part.detail }),
+      };
+      parts.push(
+        typeof part.image_url === "string"
+          ? mediaPartFromUrl("image", part.image_url, extra)
+          : { type: "image", ...extra }
+      );
+    } else if (part.type === "input_file") {
+      const extra = {
+        ...(typeof part.file_id === "string" && { fileId: part.file_id }),
+        ...(typeof part.filename === "string" && { filename: part.filename }),
+      };
+      if (typeof part.file_data === "string") {
+        parts.push(mediaPartFromData("file", part.file_data, extra));
+      } else if (typeof part.file_url === "string") {
+        parts.push(mediaPartFromUrl("file", part.file_url, extra));
+      } else {
+        parts.push({ type: "file", ...extra });
+      }
+    } else if (part.type === "input_audio") {
+      const audio = part.input_audio as { data: string; format: string };
+      parts.push({ type: "audio", data: audio.data, mimeType: `audio/${audio.format}` });
+    }
+  }
+  return parts;
+}
+
 /**
  * Normalizes Anthropic input messages to Hone's Message format.
  * Note: System prompt should be passed separately to track().
@@ -330,13 +597,16 @@ export function normalizeAnthropicMessages(messages: MessageParam[]): Message[]
       });
     } else if (Array.isArray(m.content)) {
       // Handle content blocks
-      const textParts: string[] = [];
+      const parts: ContentPart[] = [];
+      const thinking: string[] = [];
       const toolCalls: ToolCall[] = [];
-      const toolResults: Array<{ tool_use_id: string; content: string }> = [];
+      const toolResults: Array<{ tool_use_id: string; parts: ContentPart[] }> = [];
 
       for (const block of m.content) {
-        if (block.type === "text") {
-          textParts.push(block.text);
+        if (block.type === "thinking") {
+          thinking.push(block.thinking);
+        } else if (block.type === "redacted_thinking") {
+          thinking.push(REDACTED_REASONING);
         } else if (block.type === "tool_use") {
           toolCalls.push({
             id: block.id,
@@ -344,27 +614,27 @@ export function normalizeAnthropicMessages(messages: MessageParam[]): Message[]
             arguments: JSON.stringify(block.input),
           });
         } else if (block.type === "tool_result") {
-          const content = typeof block.content === "string"
-            ? block.content
-            : Array.isArray(block.content)
-              ? block.content
-                  .filter((c): c is { type: "text"; text: string } => c.type === "text")
-                  .map((c) => c.text)
-                  .join("\n")
-              : "";
           toolResults.push({
             tool_use_id: block.tool_use_id,
-            content,
+            parts:
+              typeof block.content === "string"
+                ? [{ type: "text", text: block.content }]
+                : anthropicContentParts(block.content ?? []),
           });
+        } else {
+          parts.push(...anthropicContentParts([block]));
         }
       }
 
-      // Add text/tool_calls as assistant or user message
-      if (textParts.length > 0 || toolCalls.length > 0) {
+      // Add text/media/tool_calls as assistant or user message
+      if (parts.length > 0 || toolCalls.length > 0 || thinking.length > 0) {
         const message: Message = {
           role: m.role as "user" | "assistant",
-          content: textParts.join("\n"),
+          ...partsToMessageContent(parts),
         };
+        if (thinking.length > 0) {
+          message.reasoning = thinking.join("\n");
+        }
         if (toolCalls.length > 0) {
           message.tool_calls = toolCalls;
         }
@@ -375,7 +645,7 @@ export function normalizeAnthropicMessages(messages: MessageParam[]): Message[]
       for (const tr of toolResults) {
         result.push({
           role: "tool",
-          content: tr.content,
+          ...partsToMessageContent(tr.parts),
           tool_call_id: tr.tool_use_id,
         });
       }
@@ -385,33 +655,90 @@ export function normalizeAnthropicMessages(messages: MessageParam[]): Message[]
   return result;
 }
 
+/**
+ * Converts Anthropic text, image and document blocks to ContentParts.
+ * Other block types are skipped.
+ */
+function anthropicContentParts(blocks: Array<{ type: string }>): ContentPart[] {
+  const parts: ContentPart[] = [];
+
+  for (const block of blocks as Array<Record<string, unknown> & { type: string }>) {
+    if (block.type === "text" && typeof block.text === "string") {
+      parts.push({ type: "text", text: block.text });
+    } else if (block.type === "image" || block.type === "document") {
+      const source = block.source as Record<string, unknown> & { type: string };
+      const type = block.type === "image" ? "image" : "file";
+      const extra = {
+        ...(typeof source.media_type === "string" && { mimeType: source.media_type }),
+        ...(typeof block.title === "string" && { filename: block.title }),
+      };
+
+      if (source.type === "base64" && typeof source.data === "string") {
+        parts.push({ type, data: source.data, ...extra });
+      } else if (source.type === "text" && typeof source.data === "string") {
+        // Plain text documents are stored base64-encoded like other payloads
+        parts.push({ type, data: Buffer.from(source.data).toString("base64"), ...extra });
+      } else if (source.type === "url" && typeof source.url === "string") {
+        parts.push({ type, url: source.url, ...extra });
+      } else if (source.type === "file" && typeof source.file_id === "string") {
+        parts.push({ type, fileId: source.file_id, ...extra });
+      } else if (source.type === "content") {
+        parts.push(
+          ...(typeof source.content === "string"
+            ? [{ type: "text" as const, text: source.content }]
+            : anthropicContentParts(source.content as Array<{ type: string }>))
+        );
+      }
+    }
+  }
+
+  return parts;
+}
+
 /**
  * Normalizes Gemini input contents to Hone's Message format.
  * Note: System instruction should be passed separately to track().
  *
+ * Each functionResponse is paired with the earliest unanswered functionCall of the
+ * same name (or matched by native `id` when present), so calls and results share a tool call id.
+ *
  * @param contents - Array of Gemini Content
+ * @param ids - Tool call id allocator; pass the same one to extractGeminiMessages for the response
  * @returns Array of normalized Message objects
  */
-export function normalizeGeminiContents(contents: Content[]): Message[] {
+export function normalizeGeminiContents(
+  contents: Content[],
+  ids: GeminiToolCallIds = new GeminiToolCallIds()
+): Message[] {
   const result: Message[] = [];
 
   for (const c of contents) {
-    const textParts: string[] = [];
+    const parts: ContentPart[] = [];
     const toolCalls: ToolCall[] = [];
-    const toolResults: Array<{ name: string; content: string }> = [];
+    const toolResults: Array<{ id: string; content: string }> = [];
+    const thoughts: string[] = [];
 
     for (const part of c.parts) {
-      if ("text" in part && part.text) {
-        textParts.push(part.text);
+      const thought = geminiThoughtText(part);
+      if (thought !== undefined) {
+        thoughts.push(thought);
+      } else if ("text" in part && part.text) {
+        parts.push({ type: "text", text: part.text });
+      } else if ("inlineData" in part && part.inlineData) {
+        const { mimeType, data } = part.inlineData;
+        parts.push({ type: mediaTypeFromMime(mimeType), data, mimeType });
+      } else if ("fileData" in part && part.fileData) {
+        const { mimeType, fileUri } = part.fileData;
+        parts.push({ type: mediaTypeFromMime(mimeType), url: fileUri, mimeType });
       } else if ("functionCall" in part && part.functionCall) {
         toolCalls.push({
-          id: `gemini_${part.functionCall.name}_${Date.now()}`,
+          id: ids.call(part.functionCall),
           name: part.functionCall.name,
           arguments: JSON.stringify(part.functionCall.args),
         });
       } else if ("functionResponse" in part && part.functionResponse) {
         toolResults.push({
-          name: part.functionResponse.name,
+          id: ids.response(part.functionResponse),
           content: JSON.stringify(part.functionResponse.response),
         });
       }
@@ -420,11 +747,14 @@ export function normalizeGeminiContents(contents: Content[]): Message[] {
     // Map Gemini's "model" role to "assistant"
     const role = c.role === "model" ? "assistant" : "user";
 
-    if (textParts.length > 0 || toolCalls.length > 0) {
+    if (parts.length > 0 || toolCalls.length > 0 || thoughts.length > 0) {
       const message: Message = {
         role: role as Message["role"],
-        content: textParts.join("\n"),
+        ...partsToMessageContent(parts),
       };
+      if (thoughts.length > 0) {
+        message.reasoning = thoughts.join("\n");
+      }
       if (toolCalls.length > 0) {
         message.tool_calls = toolCalls;
       }
@@ -436,7 +766,7 @@ export function normalizeGeminiContents(contents: Content[]): Message[] {
       result.push({
         role: "tool",
         content: tr.content,
-        tool_call_id: tr.name, // Gemini uses function name, not ID
+        tool_call_id: tr.id,
       });
     }
   }
@@ -444,6 +774,66 @@ export function normalizeGeminiContents(contents: Content[]): Message[] {
   return result;
 }
 
+/**
+ * Assigns Gemini tool call ids deterministically across a conversation.
+ *
+ * Gemini function calls usually have no id, and function responses identify
+ * their call only by name. Calls without a native `id` are numbered per function
+ * name (`gemini_get_weather_0`, `gemini_get_weather_1`, ...), and each response is
+ * paired with the earliest unanswered call of the same name. Native ids are used
+ * as-is when present. The same conversation always produces the same ids.
+ */
+export class GeminiToolCallIds {
+  private counts = new Map<string, number>();
+  private pending = new Map<string, string[]>();
+
+  /**
+   * Returns the id for a function call and records it as awaiting a response.
+   */
+  call(functionCall: { name: string; id?: string }): string {
+    const id = functionCall.id ?? this.next(functionCall.name);
+    this.queue(functionCall.name).push(id);
+    return id;
+  }
+
+  /**
+   * Returns the id of the call a function response answers.
+   * Responses with no matching call get a fresh id.
+   */
+  response(functionResponse: { name: string; id?: string }): string {
+    const queue = this.queue(functionResponse.name);
+    if (functionResponse.id) {
+      const index = queue.indexOf(functionResponse.id);
+      if (index !== -1) queue.splice(index, 1);
+      return functionResponse.id;
+    }
+    return queue.shift() ?? this.next(functionResponse.name);
+  }
+
+  private next(name: string): string {
+    const count = this.counts.get(name) ?? 0;
+    this.counts.set(name, count + 1);
+    return `gemini_${name}_${count}`;
+  }
+
+  private queue(name: string): string[] {
+    let queue = this.pending.get(name);
+    if (!queue) {
+      queue = [];
+      this.pending.set(name, queue);
+    }
+    return queue;
+  }
+}
+
+/**
+ * Returns the text of a Gemini thought summary part (`{ text, thought: true }`),
+ * which thinking models return alongside the answer, or undefined for other parts.
+ */
+function geminiThoughtText(part: Part): string | undefined {
+  return (part as { thought?: boolean }).thought === true ? part.text : undefined;
+}
+
 // =============================================================================
 // Short Aliases (Recommended)
 // =============================================================================
@@ -484,10 +874,23 @@ export const fromAnthropic = extractAnthropicMessages;
 /**
  * Short alias for extractGeminiMessages.
  * Extracts messages from a Google Gemini response.
+ * Takes only the response, so it can be passed to map(); call extractGeminiMessages
+ * to share a tool call id allocator across a conversation.
  *
  * @example
  * ```typescript
  * messages.push(...fromGemini(response));
  * ```
  */
-export const fromGemini = extractGeminiMessages;
+export const fromGemini = (response: GenerateContentResult): Message[] => extractGeminiMessages(response);
+
+/**
+ * Short alias for extractOpenAIResponsesMessages.
+ * Extracts messages from an OpenAI Responses API response.
+ *
+ * @example
+ * ```typescript
+ * messages.push(...fromOpenAIResponses(response));
+ * ```
+ */
+export const fromOpenAIResponses = extractOpenAIResponsesMessages;
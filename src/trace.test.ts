@@ -0,0 +1,80 @@
+import { describe, it, expect } from "vitest";
+import { Span, getActiveSpan, runInSpan } from "./trace";
+import { SpanRecord } from "./types";
+
+describe("Span", () => {
+  const collect = () => {
+    const records: SpanRecord[] = [];
+    return { records, onEnd: (record: SpanRecord) => records.push(record) };
+  };
+
+  it("should record timings, input, output and attributes", () => {
+    const { records, onEnd } = collect();
+    const span = new Span(
+      "search",
+      { kind: "retrieval", input: { query: "refunds" }, startTime: new Date("2026-01-01T00:00:00.000Z") },
+      onEnd
+    );
+    span.setAttributes({ index: "docs" }).setAttributes({ topK: 5 });
+    span.end({ output: ["doc-1"], endTime: new Date("2026-01-01T00:00:01.500Z") });
+
+    expect(records).toEqual([
+      {
+        traceId: span.traceId,
+        spanId: span.spanId,
+        name: "search",
+        kind: "retrieval",
+        startTime: "2026-01-01T00:00:00.000Z",
+        endTime: "2026-01-01T00:00:01.500Z",
+        durationMs: 1500,
+        status: "ok",
+        input: { query: "refunds" },
+        output: ["doc-1"],
+        attributes: { index: "docs", topK: 5 },
+      },
+    ]);
+    expect(span.traceId).toMatch(/^[0-9a-f]{32}$/);
+    expect(span.spanId).toMatch(/^[0-9a-f]{16}$/);
+  });
+
+  it("should nest under the active span", () => {
+    const { onEnd } = collect();
+    const parent = new Span("agent", { kind: "agent" }, onEnd);
+
+    const child = runInSpan(parent, () => {
+      expect(getActiveSpan()).toBe(parent);
+      return new Span("tool", { kind: "tool" }, onEnd);
+    });
+
+    expect(child.traceId).toBe(parent.traceId);
+    expect(child.parentSpanId).toBe(parent.spanId);
+    expect(getActiveSpan()).toBeUndefined();
+  });
+
+  it("should prefer an explicit parent", () => {
+    const { onEnd } = collect();
+    const parent = new Span("agent", { kind: "agent" }, onEnd);
+    const other = new Span("other", { kind: "agent" }, onEnd);
+
+    const child = runInSpan(other, () => new Span("llm", { kind: "llm", parent }, onEnd));
+
+    expect(child.parentSpanId).toBe(parent.spanId);
+  });
+
+  it("should record errors", () => {
+    const { records, onEnd } = collect();
+    new Span("tool", { kind: "tool" }, onEnd).end({ error: new Error("Timed out") });
+
+    expect(records[0]).toMatchObject({ status: "error", error: "Timed out" });
+  });
+
+  it("should only end once", () => {
+    const { records, onEnd } = collect();
+    const span = new Span("tool", { kind: "tool" }, onEnd);
+    span.end();
+    span.end({ output: "late" });
+
+    expect(records).toHaveLength(1);
+    expect(span.isEnded).toBe(true);
+  });
+});
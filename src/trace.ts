@@ -0,0 +1,157 @@
+/**
+ * Hierarchical traces for multi-step agent runs.
+ *
+ * A trace is a tree of spans: model calls, tool calls, retrievals and (sub-)agent runs.
+ * hone.span() runs a function inside a span and makes it the active span, so spans
+ * started and runs tracked within it nest under it automatically. Finished spans are
+ * sent to /insert_spans through the tracking queue.
+ *
+ * @example
+ * ```typescript
+ * await hone.span("support-agent", { kind: "agent", input: question }, async (agentSpan) => {
+ *   for (let step = 0; step < maxSteps; step++) {
+ *     const toolCall = await hone.span("plan", { kind: "llm" }, () => callModel(messages));
+ *     if (!toolCall) break;
+ *     await hone.span(toolCall.name, { kind: "tool", input: toolCall.arguments }, () => runTool(toolCall));
+ *   }
+ *   agentSpan.setOutput(answer);
+ * });
+ * ```
+ */
+
+import { AsyncLocalStorage } from "node:async_hooks";
+import { randomBytes } from "node:crypto";
+import { SpanEndOptions, SpanKind, SpanOptions, SpanRecord, SpanStatus } from "./types.js";
+
+const storage = new AsyncLocalStorage<Span>();
+
+/**
+ * Returns the active span, or undefined outside hone.span().
+ */
+export function getActiveSpan(): Span | undefined {
+  return storage.getStore();
+}
+
+/**
+ * Runs fn with span as the active span.
+ */
+export function runInSpan<T>(span: Span, fn: () => T): T {
+  return storage.run(span, fn);
+}
+
+/**
+ * Generates a trace id: 16 random bytes as hex, as in W3C Trace Context.
+ */
+export function generateTraceId(): string {
+  return randomBytes(16).toString("hex");
+}
+
+/**
+ * Generates a span id: 8 random bytes as hex, as in W3C Trace Context.
+ */
+export function generateSpanId(): string {
+  return randomBytes(8).toString("hex");
+}
+
+/**
+ * A unit of work within a trace. Create spans with hone.span() or hone.startSpan().
+ */
+export class Span {
+  readonly traceId: string;
+  readonly spanId: string;
+  readonly parentSpanId?: string;
+  readonly name: string;
+  readonly kind: SpanKind;
+  readonly startTime: Date;
+  private readonly sessionId?: string;
+  private input: unknown;
+  private output: unknown;
+  private attributes?: Record<string, unknown>;
+  private status: SpanStatus = "ok";
+  private error?: string;
+  private ended = false;
+
+  /**
+   * @param name - The span name
+   * @param options - Kind, input, attributes, parent and session
+   * @param onEnd - Receives the span's record when it ends
+   */
+  constructor(
+    name: string,
+    options: SpanOptions,
+    private readonly onEnd: (record: SpanRecord) => void
+  ) {
+    const parent = options.parent ?? getActiveSpan();
+    this.traceId = parent?.traceId ?? generateTraceId();
+    this.spanId = generateSpanId();
+    if (parent) this.parentSpanId = parent.spanId;
+    this.name = name;
+    this.kind = options.kind;
+    this.startTime = options.startTime ?? new Date();
+    this.sessionId = options.sessionId;
+    this.input = options.input;
+    if (options.attributes) this.attributes = { ...options.attributes };
+  }
+
+  /** Whether end() has been called */
+  get isEnded(): boolean {
+    return this.ended;
+  }
+
+  setInput(input: unknown): this {
+    this.input = input;
+    return this;
+  }
+
+  setOutput(output: unknown): this {
+    this.output = output;
+    return this;
+  }
+
+  /** Merges attributes into the span's attributes */
+  setAttributes(attributes: Record<string, unknown>): this {
+    this.attributes = { ...this.attributes, ...attributes };
+    return this;
+  }
+
+  /** Marks the span as failed with the error's message */
+  recordError(error: unknown): this {
+    this.status = "error";
+    this.error = error instanceof Error ? error.message : String(error);
+    return this;
+  }
+
+  /**
+   * Ends the span and sends it. Calls after the first are ignored.
+   */
+  end(options: SpanEndOptions = {}): void {
+    if (this.ended) {
+      return;
+    }
+    this.ended = true;
+
+    if (options.output !== undefined) this.output = options.output;
+    if (options.error !== undefined) this.recordError(options.error);
+    this.onEnd(this.toRecord(options.endTime ?? new Date()));
+  }
+
+  private toRecord(endTime: Date): SpanRecord {
+    const record: SpanRecord = {
+      traceId: this.traceId,
+      spanId: this.spanId,
+      name: this.name,
+      kind: this.kind,
+      startTime: this.startTime.toISOString(),
+      endTime: endTime.toISOString(),
+      durationMs: endTime.getTime() - this.startTime.getTime(),
+      status: this.status,
+    };
+    if (this.parentSpanId) record.parentSpanId = this.parentSpanId;
+    if (this.error !== undefined) record.error = this.error;
+    if (this.input !== undefined) record.input = this.input;
+    if (this.output !== undefined) record.output = this.output;
+    if (this.attributes) record.attributes = this.attributes;
+    if (this.sessionId) record.sessionId = this.sessionId;
+    return record;
+  }
+}
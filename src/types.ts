@@ -1,13 +1,206 @@
 // types.ts - Hone SDK types
 
 import type { AIProviderValue } from "./providers.js";
+import type { Span } from "./trace.js";
+import type { HoneLogger, LogLevel } from "./logger.js";
 
 export type HoneConfig = {
   apiKey: string;
   baseUrl?: string;
   timeout?: number;
+  /**
+   * Fall back to rendering the local `defaultPrompt` tree when the API is unavailable.
+   * Hyperparameters are taken from the options passed to agent().
+   * Defaults to true. Set to false to have agent(), tool() and prompt() throw instead.
+   */
+  fallback?: boolean;
+  /**
+   * Called whenever a result is served from the local fallback instead of the API.
+   * Useful for alerting, since prompt() returns a plain string with no source indicator.
+   */
+  onFallback?: (error: unknown, context: FallbackContext) => void;
+  /**
+   * Retry policy for failed API requests.
+   * Pass true to use the defaults, or a RetryConfig to customize them.
+   * Retries are disabled unless this is set.
+   */
+  retry?: RetryConfig | boolean;
+  /**
+   * Cache evaluated agents, tools and prompts in memory.
+   * Pass true to use the defaults, or a CacheConfig to customize them.
+   * Caching is disabled unless this is set.
+   */
+  cache?: CacheConfig | boolean;
+  /**
+   * Logger for SDK diagnostics (requests, retries, fallbacks, cache refreshes).
+   * The SDK logs nothing unless a logger is provided.
+   */
+  logger?: HoneLogger;
+  /** Minimum level passed to the logger. Defaults to "info". */
+  logLevel?: LogLevel;
+  /** How track() sends conversations to Hone. Defaults to synchronous sends. */
+  tracking?: TrackingConfig;
+  /**
+   * Per-model token prices used to compute the cost of tracked conversations.
+   * Cost is omitted for models with no matching entry.
+   */
+  pricing?: PriceTable;
+  /**
+   * Emit OpenTelemetry spans for agent(), tool() and prompt() evaluations and for
+   * tracked runs, using the GenAI semantic conventions. Disabled unless set.
+   */
+  telemetry?: TelemetryConfig;
+};
+
+/**
+ * Tracking delivery configuration.
+ *
+ * In "background" mode track() enqueues the conversation and returns immediately;
+ * queued conversations are sent in batches by size or interval.
+ */
+export type TrackingConfig = {
+  /**
+   * - "sync": track() awaits the /insert_runs request and throws on failure (unless spooled)
+   * - "background": track() enqueues and returns; failures go to onFlushError
+   * Defaults to "sync".
+   */
+  mode?: "sync" | "background";
+  /** Maximum conversations per batch; reaching it triggers a flush. Defaults to 50. */
+  maxBatchSize?: number;
+  /** Time in ms between automatic flushes. Defaults to 5000. */
+  flushInterval?: number;
+  /** Maximum conversations held in memory. Defaults to 1000. */
+  maxQueueSize?: number;
+  /**
+   * Which conversation to drop when the queue is full.
+   * - "oldest": drop the oldest queued conversation
+   * - "newest": drop the conversation being tracked
+   * Defaults to "oldest".
+   */
+  dropPolicy?: "oldest" | "newest";
+  /** Flush remaining conversations on process "beforeExit". Defaults to true. */
+  flushOnExit?: boolean;
+  /**
+   * Called when a batch of conversations or spans fails to send (after retries)
+   * and could not be spooled, or when a spooled batch is rejected by the API on replay.
+   * The batch is not re-queued.
+   */
+  onFlushError?: (error: unknown, batch: TrackRequest[] | SpanRecord[]) => void;
+  /** Called for each conversation or span dropped because its queue is full. */
+  onDrop?: (item: TrackRequest | SpanRecord) => void;
+  /** Persist conversations and spans that fail to send with a retryable error to disk and replay them later. */
+  spool?: SpoolConfig;
+  /** How inline images, audio and files are sent. Defaults to "include". */
+  binaryContent?: BinaryContentMode;
+  /** Send model reasoning (Message.reasoning) with tracked conversations. Defaults to true. */
+  includeReasoning?: boolean;
+};
+
+/**
+ * File-backed spool for conversations and spans that could not be delivered.
+ * Failed requests are appended to a JSONL file and replayed on startup and
+ * after the next successful send.
+ */
+export type SpoolConfig = {
+  /** Directory for spool files. Created if it does not exist. */
+  directory: string;
+  /** Maximum total size of the spool files in bytes, including files being replayed; failures beyond it are dropped. Defaults to 50 MB. */
+  maxBytes?: number;
+  /** Replay spooled conversations and spans when the client is created. Defaults to true. */
+  replayOnStartup?: boolean;
 };
 
+/**
+ * In-memory cache configuration for evaluation results.
+ * Entries are keyed on the full request (id, params, defaultPrompt, hyperparameters, extra).
+ */
+export type CacheConfig = {
+  /** Time in ms a cached result is served without contacting the API. Defaults to 60000. */
+  ttl?: number;
+  /** Maximum number of cached results; the least recently used are evicted first. Defaults to 1000. */
+  maxEntries?: number;
+  /**
+   * Additional time in ms after the TTL during which a stale result is still served
+   * while a background request refreshes it. Defaults to 0 (disabled).
+   */
+  staleWhileRevalidate?: number;
+};
+
+/**
+ * Retry behavior for a group of API requests.
+ * All fields are optional; unset fields use the defaults shown.
+ */
+export type RetryPolicy = {
+  /** Total number of attempts, including the first request. Defaults to 3. */
+  maxAttempts?: number;
+  /** Base delay in ms for exponential backoff (baseDelay * 2^(attempt - 1)). Defaults to 250. */
+  baseDelay?: number;
+  /** Upper bound in ms for any single delay, including Retry-After values. Defaults to 10000. */
+  maxDelay?: number;
+  /**
+   * Randomization applied to the backoff delay.
+   * - "full": random delay between 0 and the backoff value
+   * - "none": use the exact backoff value
+   * Defaults to "full".
+   */
+  jitter?: "full" | "none";
+  /** HTTP status codes that should be retried. Defaults to [408, 429, 500, 502, 503, 504]. */
+  retryOnStatus?: number[];
+  /** Retry when the request fails before a response is received. Defaults to true. */
+  retryOnNetworkError?: boolean;
+  /** Retry when the request times out. Defaults to true. */
+  retryOnTimeout?: boolean;
+  /** Wait for the duration given by a Retry-After response header. Defaults to true. */
+  respectRetryAfter?: boolean;
+};
+
+/**
+ * Which group of requests a retry policy applies to.
+ * - "evaluate": agent(), tool() and prompt()
+ * - "track": track()
+ */
+export type RetryScope = "evaluate" | "track";
+
+/**
+ * Retry configuration for the client.
+ * Top-level fields apply to every request; per-scope entries override them.
+ *
+ * @example
+ * ```typescript
+ * new Hone({
+ *   apiKey,
+ *   retry: {
+ *     maxAttempts: 4,
+ *     evaluate: { maxAttempts: 2 }, // keep agent() latency bounded
+ *     track: false, // never retry tracking
+ *   },
+ * });
+ * ```
+ */
+export type RetryConfig = RetryPolicy & {
+  /** Overrides for agent(), tool() and prompt(). Pass false to disable retries for them. */
+  evaluate?: RetryPolicy | boolean;
+  /** Overrides for track(). Pass false to disable retries for tracking. */
+  track?: RetryPolicy | boolean;
+};
+
+/**
+ * Context passed to HoneConfig.onFallback.
+ */
+export type FallbackContext = {
+  /** The id of the agent, tool, or prompt that fell back */
+  id: string;
+  /** The type of entity that fell back */
+  type: EntityType;
+};
+
+/**
+ * Where an evaluated result came from.
+ * - "api": evaluated by the Hone API
+ * - "fallback": rendered locally from defaultPrompt because the API was unavailable
+ */
+export type ResultSource = "api" | "fallback";
+
 // =============================================================================
 // Entity Types
 // =============================================================================
@@ -146,6 +339,16 @@ export type BaseAgentResult = {
   stopSequences: string[];
   /** Array of allowed tool IDs */
   tools: string[];
+  /** Whether this result came from the Hone API or the local fallback */
+  source: ResultSource;
+  /** The agent ID this result was evaluated for */
+  agentId: string;
+  /** Resolved major version of the agent, or null if the API didn't report one */
+  majorVersion: number | null;
+  /** Resolved minor version of the agent, or null for fallback results */
+  minorVersion: number | null;
+  /** Identifier of this evaluation, or null for fallback results. Pass it to track() to attribute runs. */
+  evaluationId: string | null;
 };
 
 /**
@@ -168,7 +371,7 @@ export type HoneAgent = <TExtra extends Record<string, unknown> = Record<string,
 
 /**
  * Options for fetching a tool.
- * Tools don't have hyperparameters - they're just versioned text templates.
+ * Tools don't have hyperparameters - they're versioned descriptions with an optional argument schema.
  */
 export type GetToolOptions = {
   /**
@@ -199,6 +402,19 @@ export type GetToolOptions = {
    * ```
    */
   defaultPrompt: string;
+  /**
+   * The default JSON Schema for the tool's arguments, used if none is found in the database.
+   * A Zod (v3 or v4) schema is converted to JSON Schema.
+   *
+   * @example
+   * ```typescript
+   * tool("get_weather", {
+   *   defaultPrompt: "Get the current weather for a city",
+   *   parameters: z.object({ city: z.string().describe("City name") }),
+   * })
+   * ```
+   */
+  parameters?: JSONSchema | ZodSchemaLike | Zod4SchemaLike;
 };
 
 /**
@@ -208,6 +424,41 @@ export type GetToolOptions = {
 export type ToolResult = {
   /** The fully evaluated prompt with all parameters substituted */
   prompt: string;
+  /** Whether this result came from the Hone API or the local fallback */
+  source: ResultSource;
+  /** The tool ID this result was evaluated for; used as the function name in tool definitions */
+  toolId: string;
+  /** JSON Schema for the tool's arguments, or null if the tool has none */
+  parameters: JSONSchema | null;
+};
+
+/**
+ * A JSON Schema, as used for tool arguments.
+ */
+export type JSONSchema = {
+  type?: string | string[];
+  description?: string;
+  properties?: Record<string, JSONSchema>;
+  required?: string[];
+  items?: JSONSchema;
+  enum?: unknown[];
+  anyOf?: JSONSchema[];
+  [keyword: string]: unknown;
+};
+
+/**
+ * A Zod (v3) schema. zod isn't a dependency; schemas are recognized by their `_def.typeName`.
+ */
+export type ZodSchemaLike = {
+  _def: { typeName: string; description?: string };
+};
+
+/**
+ * A Zod v4 schema, recognized by its `_zod` internals and converted with its own toJSONSchema().
+ */
+export type Zod4SchemaLike = {
+  _zod: { def: { type: string } };
+  toJSONSchema?: (params?: { io?: "input" | "output" }) => JSONSchema;
 };
 
 export type HoneTool = (
@@ -284,23 +535,172 @@ export type ToolCall = {
   arguments: string;
 };
 
+/**
+ * A text segment of a message.
+ */
+export type TextPart = {
+  type: "text";
+  text: string;
+};
+
+/**
+ * An image, audio clip or file attached to a message.
+ * The payload is referenced by url, inline base64 data, or a provider file id.
+ */
+export type MediaPart = {
+  type: "image" | "audio" | "file";
+  /** Remote URL or provider file URI */
+  url?: string;
+  /** Base64-encoded payload */
+  data?: string;
+  /** Provider file id, e.g. OpenAI or Anthropic file uploads */
+  fileId?: string;
+  mimeType?: string;
+  filename?: string;
+  /** Provider-specific image detail level, e.g. "low" or "high" */
+  detail?: string;
+  /** Decoded payload size in bytes, set when data was redacted or hashed */
+  size?: number;
+  /** SHA-256 of the decoded payload, set when data was hashed */
+  sha256?: string;
+};
+
+export type ContentPart = TextPart | MediaPart;
+
+/**
+ * How inline binary payloads (base64 images, audio, files) are sent with tracked conversations.
+ * - "include": send payloads as-is
+ * - "redact": drop payloads, keeping type, mime type and size
+ * - "hash": replace payloads with their SHA-256, keeping type, mime type and size
+ */
+export type BinaryContentMode = "include" | "redact" | "hash";
+
 export type Message = {
   role: "user" | "assistant" | "system" | "tool";
+  /** Text of the message. For multimodal messages, the text parts joined by newlines. */
   content: string;
+  /** Structured content, present when the message includes images, audio or files */
+  parts?: ContentPart[];
+  /**
+   * Reasoning the model produced before answering: Anthropic thinking, Gemini thought
+   * parts or OpenAI reasoning summaries. Redacted reasoning, whose content is encrypted,
+   * appears as a "[redacted]" line; other encrypted reasoning is not included.
+   */
+  reasoning?: string;
   /** Tool calls requested by the assistant (present when role is "assistant") */
   tool_calls?: ToolCall[];
   /** ID of the tool call this message is responding to (present when role is "tool") */
   tool_call_id?: string;
 };
 
-export type TrackConversationOptions = {
-  sessionId: string;
+/**
+ * Token counts normalized across providers.
+ * inputTokens includes cached tokens and outputTokens includes reasoning tokens,
+ * so the breakdown fields are subsets rather than additions.
+ */
+export type TokenUsage = {
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  /** Input tokens read from the provider's prompt cache */
+  cachedTokens?: number;
+  /** Output tokens spent on reasoning/thinking */
+  reasoningTokens?: number;
+};
+
+/**
+ * Token prices for a model, in USD per million tokens.
+ */
+export type ModelPricing = {
+  input: number;
+  output: number;
+  /** Price for cached input tokens. Defaults to the input price. */
+  cachedInput?: number;
+};
+
+/**
+ * Prices keyed by model id. A key also matches dated or suffixed variants,
+ * e.g. "gpt-4o" matches "gpt-4o-2024-08-06"; the longest matching key wins.
+ */
+export type PriceTable = Record<string, ModelPricing>;
+
+/**
+ * Response details recorded on a tracked run.
+ * finishReason is the provider's raw value, e.g. "length" (OpenAI),
+ * "max_tokens" (Anthropic) or "MAX_TOKENS" (Gemini).
+ */
+export type ResponseMetadata = {
+  model?: string;
+  finishReason?: string;
+  responseId?: string;
+};
+
+/**
+ * Options for tracking a conversation.
+ *
+ * @typeParam TMetadata - Type for custom metadata stored with the run
+ */
+export type TrackConversationOptions<
+  TMetadata extends Record<string, unknown> = Record<string, unknown>,
+> = {
+  /** Defaults to the session opened by hone.withSession() */
+  sessionId?: string;
+  /** Your identifier for the end user, for slicing runs by customer */
+  userId?: string;
+  /** Deployment environment, e.g. "production" or "staging" */
+  environment?: string;
+  /** Release or version of your application */
+  release?: string;
+  /** Free-form labels for filtering runs */
+  tags?: string[];
+  /** Custom data stored with the run, e.g. { tier: "enterprise" } */
+  metadata?: TMetadata;
+  /**
+   * Token usage for the conversation.
+   * Extracted automatically from provider responses; pass it for Message[] input.
+   */
+  usage?: TokenUsage;
+  /**
+   * Model that produced the conversation, also used to look up pricing.
+   * Taken from the provider response when not set.
+   */
+  model?: string;
+  /** Provider finish/stop reason. Taken from the provider response when not set. */
+  finishReason?: string;
+  /** Provider response id. Taken from the provider response when not set. */
+  responseId?: string;
+  /** When the model call started. Accepts a Date, ISO string or epoch milliseconds. */
+  startTime?: Date | string | number;
+  /** When the model call finished. Accepts a Date, ISO string or epoch milliseconds. */
+  endTime?: Date | string | number;
+  /** Latency of the model call. Computed from startTime and endTime when not set. */
+  durationMs?: number;
+  /**
+   * The agent that produced the conversation: the result of hone.agent(), or its evaluationId.
+   * Attributes the run to the exact prompt version.
+   */
+  agent?: AgentResult | string;
+  /** Trace to link the run to. Defaults to the active span's trace. */
+  traceId?: string;
+  /** Span to link the run to. Defaults to the active span. */
+  spanId?: string;
 };
 
-export type HoneTrack = (
+/**
+ * Agent version a tracked run is attributed to.
+ */
+export type TrackedAgent = {
+  id?: string;
+  majorVersion?: number;
+  minorVersion?: number;
+  evaluationId?: string;
+  source?: ResultSource;
+};
+
+export type HoneTrack = <TMetadata extends Record<string, unknown> = Record<string, unknown>>(
   id: string,
   input: TrackInput,
-  options: TrackConversationOptions
+  options: TrackConversationOptions<TMetadata>
 ) => Promise<void>;
 
 export type TrackRequest = {
@@ -308,10 +708,161 @@ export type TrackRequest = {
   messages: Message[];
   sessionId: string;
   timestamp: string;
+  usage?: TokenUsage;
+  /** Cost in USD, computed from HoneConfig.pricing */
+  cost?: number;
+  model?: string;
+  finishReason?: string;
+  responseId?: string;
+  /** ISO 8601 */
+  startTime?: string;
+  /** ISO 8601 */
+  endTime?: string;
+  durationMs?: number;
+  agent?: TrackedAgent;
+  userId?: string;
+  environment?: string;
+  release?: string;
+  tags?: string[];
+  metadata?: Record<string, unknown>;
+  /** Trace of the span the run was tracked in */
+  traceId?: string;
+  /** Span the run was tracked in */
+  spanId?: string;
+};
+
+/**
+ * Batched track request sent to /insert_runs/batch by background tracking and spool replay.
+ * /insert_runs takes a single TrackRequest; batches go to their own endpoint.
+ */
+export type TrackBatchRequest = {
+  runs: TrackRequest[];
 };
 
 export type TrackResponse = void;
 
+// =============================================================================
+// Trace Types
+// =============================================================================
+
+/**
+ * What a span represents: a model call, a tool call, a retrieval, or an agent (or sub-agent) run.
+ */
+export type SpanKind = "llm" | "tool" | "retrieval" | "agent";
+
+export type SpanStatus = "ok" | "error";
+
+/**
+ * Options for starting a span.
+ */
+export type SpanOptions = {
+  kind: SpanKind;
+  input?: unknown;
+  attributes?: Record<string, unknown>;
+  /** Defaults to the active span, i.e. the innermost enclosing hone.span() */
+  parent?: Span;
+  /** Defaults to the session opened by hone.withSession() */
+  sessionId?: string;
+  /** Defaults to now */
+  startTime?: Date;
+};
+
+/**
+ * Options for ending a span.
+ */
+export type SpanEndOptions = {
+  output?: unknown;
+  /** Marks the span as failed */
+  error?: unknown;
+  /** Defaults to now */
+  endTime?: Date;
+};
+
+/**
+ * A finished span as sent to /insert_spans.
+ */
+export type SpanRecord = {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  kind: SpanKind;
+  /** ISO 8601 */
+  startTime: string;
+  /** ISO 8601 */
+  endTime: string;
+  durationMs: number;
+  status: SpanStatus;
+  /** Error message when status is "error" */
+  error?: string;
+  input?: unknown;
+  output?: unknown;
+  attributes?: Record<string, unknown>;
+  sessionId?: string;
+};
+
+/**
+ * Batch of spans sent to /insert_spans.
+ */
+export type SpanBatchRequest = {
+  spans: SpanRecord[];
+};
+
+export type HoneSpan = <T>(
+  name: string,
+  options: SpanOptions,
+  fn: (span: Span) => T | Promise<T>
+) => Promise<T>;
+
+// =============================================================================
+// Feedback Types
+// =============================================================================
+
+/**
+ * Who produced a piece of feedback.
+ * - "user": an end user, e.g. a rating widget
+ * - "model": an LLM grader
+ * - "heuristic": an automated rule or check
+ */
+export type FeedbackSource = "user" | "model" | "heuristic";
+
+/**
+ * Feedback on a tracked conversation. At least one of thumbs, score, label or comment is required.
+ *
+ * @typeParam TMetadata - Type for custom metadata stored with the feedback
+ */
+export type FeedbackOptions<TMetadata extends Record<string, unknown> = Record<string, unknown>> = {
+  /** Session of the tracked conversation. Defaults to the session opened by hone.withSession(). */
+  sessionId?: string;
+  /** Name of what is being measured, e.g. "helpfulness". Distinguishes multiple scores on one run. */
+  name?: string;
+  thumbs?: "up" | "down";
+  /** Numeric score; the scale is up to you */
+  score?: number;
+  /** Categorical outcome, e.g. "resolved" or "escalated" */
+  label?: string;
+  comment?: string;
+  /** Defaults to "user" */
+  source?: FeedbackSource;
+  /** Your identifier for whoever gave the feedback */
+  userId?: string;
+  metadata?: TMetadata;
+};
+
+export type HoneFeedback = <TMetadata extends Record<string, unknown> = Record<string, unknown>>(
+  id: string,
+  feedback: FeedbackOptions<TMetadata>
+) => Promise<void>;
+
+export type FeedbackRequest = Omit<FeedbackOptions, "source"> & {
+  /** ID of the tracked conversation */
+  id: string;
+  source: FeedbackSource;
+  timestamp: string;
+};
+
+export type FeedbackResponse = void;
+
 // =============================================================================
 // Provider-Specific Input Types (for zero-friction tracking)
 // =============================================================================
@@ -320,6 +871,7 @@ export type TrackResponse = void;
 import type { ChatCompletionMessageParam, ChatCompletion } from "openai/resources/chat/completions";
 import type { MessageParam, Message as AnthropicMessage } from "@anthropic-ai/sdk/resources/messages";
 import type { Content, GenerateContentResult } from "@google/generative-ai";
+import type { Response as OpenAIResponse, ResponseInput } from "openai/resources/responses/responses";
 
 /**
  * Track input for OpenAI conversations.
@@ -331,6 +883,18 @@ export type TrackOpenAIInput = {
   response: ChatCompletion;
 };
 
+/**
+ * Track input for OpenAI Responses API conversations.
+ * Pass your input and response exactly as-is from the OpenAI SDK.
+ */
+export type TrackOpenAIResponsesInput = {
+  provider: "openai-responses";
+  input: string | ResponseInput;
+  /** Defaults to the instructions echoed on the response, when they are a string */
+  instructions?: string;
+  response: OpenAIResponse;
+};
+
 /**
  * Track input for Anthropic conversations.
  * Pass your messages, system prompt, and response exactly as-is from the Anthropic SDK.
@@ -353,6 +917,226 @@ export type TrackGeminiInput = {
   response: GenerateContentResult;
 };
 
+// =============================================================================
+// Context Types
+// =============================================================================
+
+/**
+ * The session context opened by hone.withSession().
+ * track(), feedback() and the client wrappers use it for whatever their options don't set.
+ */
+export type HoneContext = {
+  sessionId: string;
+  userId?: string;
+  /** Merged into the metadata of runs and feedback; explicit metadata wins on conflicts */
+  metadata?: Record<string, unknown>;
+};
+
+/**
+ * Context for hone.withSession() besides the session id.
+ */
+export type SessionOptions = Omit<HoneContext, "sessionId">;
+
+export type HoneWithSession = {
+  <T>(sessionId: string, fn: () => T): T;
+  <T>(sessionId: string, options: SessionOptions, fn: () => T): T;
+};
+
+/**
+ * Options for honeExpress() and honeFastify(), resolving the session context for a request.
+ */
+export type SessionMiddlewareOptions<TRequest = HttpRequestLike> = {
+  /** Requests without a session id are passed through without a context */
+  sessionId: (request: TRequest) => string | undefined;
+  userId?: (request: TRequest) => string | undefined;
+  metadata?: (request: TRequest) => Record<string, unknown> | undefined;
+};
+
+/**
+ * The part of an Express or Fastify request the middleware options see by default.
+ */
+export type HttpRequestLike = {
+  headers: Record<string, string | string[] | undefined>;
+};
+
+// =============================================================================
+// OpenTelemetry Types
+// =============================================================================
+// Structural types matching @opentelemetry/api and @opentelemetry/sdk-trace-base,
+// which are not dependencies.
+
+export type OTelAttributeValue = string | number | boolean | Array<string | number | boolean>;
+export type OTelAttributes = Record<string, OTelAttributeValue | undefined>;
+
+/** OpenTelemetry `Span` */
+export type OTelSpan = {
+  setAttributes(attributes: OTelAttributes): unknown;
+  /** code: 0 = unset, 1 = ok, 2 = error */
+  setStatus(status: { code: number; message?: string }): unknown;
+  recordException(exception: Error | string): void;
+  end(endTime?: Date): void;
+};
+
+/** OpenTelemetry `Tracer`, e.g. from `trace.getTracer("hone")` */
+export type OTelTracer = {
+  startSpan(
+    name: string,
+    options?: { kind?: number; attributes?: OTelAttributes; startTime?: Date }
+  ): OTelSpan;
+};
+
+/** OpenTelemetry high-resolution time: [seconds, nanoseconds] */
+export type OTelHrTime = [number, number];
+
+/** OpenTelemetry SDK `ReadableSpan`, as passed to span exporters */
+export type OTelReadableSpan = {
+  name: string;
+  spanContext(): { traceId: string; spanId: string };
+  /** SDK 1.x */
+  parentSpanId?: string;
+  /** SDK 2.x */
+  parentSpanContext?: { spanId: string };
+  startTime: OTelHrTime;
+  endTime: OTelHrTime;
+  status: { code: number; message?: string };
+  attributes: OTelAttributes;
+};
+
+/** OpenTelemetry SDK `ExportResult`. code: 0 = success, 1 = failed */
+export type OTelExportResult = { code: number; error?: Error };
+
+export type TelemetryConfig = {
+  tracer: OTelTracer;
+};
+
+/**
+ * Options for HoneSpanExporter.
+ */
+export type HoneSpanExporterOptions = {
+  /** Id to track ingested runs under. Defaults to gen_ai.agent.name, then the span name. */
+  id?: string;
+};
+
+// =============================================================================
+// Client Wrapper Types
+// =============================================================================
+
+/**
+ * Options for wrapOpenAI, wrapAnthropic and wrapGemini.
+ */
+export type WrapClientOptions<TMetadata extends Record<string, unknown> = Record<string, unknown>> = {
+  /** Id to track the wrapped client's conversations under */
+  id: string;
+  /**
+   * Resolves the session id when a call is made, e.g. from the current request.
+   * Defaults to the session opened by hone.withSession(). Calls without a session id aren't tracked.
+   */
+  sessionId?: () => string | undefined;
+  /** Additional track options for each call (userId, tags, metadata, agent, ...) */
+  trackOptions?: () => Omit<TrackConversationOptions<TMetadata>, "sessionId">;
+  /** Called when tracking a call fails. Tracking errors never reach the caller. */
+  onError?: (error: unknown) => void;
+};
+
+// =============================================================================
+// Provider Request Builder Types
+// =============================================================================
+
+/**
+ * Options for the provider request builders (toOpenAIChatParams, toAnthropicParams, toGeminiParams).
+ */
+export type ProviderParamsOptions = {
+  /**
+   * Called for each hyperparameter the provider doesn't support, and when the agent
+   * is configured for a different provider. Warnings are discarded unless set.
+   */
+  onWarning?: (message: string) => void;
+  /**
+   * max_tokens for toAnthropicParams when the agent has no maxTokens, since Anthropic
+   * requires it. Defaults to 4096.
+   */
+  defaultMaxTokens?: number;
+};
+
+// =============================================================================
+// Vercel AI SDK Types
+// =============================================================================
+// Structural types matching the `ai` package (v4), which is not a dependency.
+
+/** Binary content as accepted by the AI SDK: base64 string, bytes or a URL */
+export type AISDKDataContent = string | Uint8Array | ArrayBuffer | URL;
+
+/** AI SDK message content part */
+export type AISDKContentPart =
+  | { type: "text"; text: string }
+  | { type: "image"; image: AISDKDataContent; mimeType?: string }
+  | { type: "file"; data: AISDKDataContent; mimeType: string; filename?: string }
+  | { type: "reasoning"; text: string }
+  | { type: "redacted-reasoning"; data: string }
+  | { type: "tool-call"; toolCallId: string; toolName: string; args: unknown }
+  | { type: "tool-result"; toolCallId: string; toolName: string; result: unknown; isError?: boolean };
+
+/** AI SDK `CoreMessage` */
+export type AISDKMessage =
+  | { role: "system"; content: string }
+  | { role: "user" | "assistant"; content: string | AISDKContentPart[] }
+  | { role: "tool"; content: AISDKContentPart[] };
+
+/** AI SDK token usage. Counts are NaN when the provider didn't report them. */
+export type AISDKUsage = {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+};
+
+/** One generation step of an AI SDK result */
+export type AISDKStep = {
+  text: string;
+  reasoning?: string;
+  toolCalls?: Array<{ toolCallId: string; toolName: string; args: unknown }>;
+  toolResults?: Array<{ toolCallId: string; toolName: string; result: unknown }>;
+  finishReason?: string;
+};
+
+/** AI SDK `GenerateTextResult` */
+export type AISDKResult = AISDKStep & {
+  usage?: AISDKUsage;
+  /** All steps of a multi-step (tool calling) generation */
+  steps?: AISDKStep[];
+  response?: { id?: string; modelId?: string };
+};
+
+/** AI SDK `StreamTextResult`: the same fields, resolved once the stream finishes */
+export type AISDKStreamResult = {
+  [K in keyof AISDKResult]-?: PromiseLike<AISDKResult[K]>;
+};
+
+/**
+ * Call settings for generateText/streamText built from an AgentResult.
+ * Unset hyperparameters are omitted so the provider defaults apply.
+ */
+export type AISDKCallSettings = {
+  system: string;
+  temperature?: number;
+  maxTokens?: number;
+  topP?: number;
+  frequencyPenalty?: number;
+  presencePenalty?: number;
+  stopSequences?: string[];
+};
+
+/**
+ * Track input for Vercel AI SDK conversations.
+ * Pass your messages and the generateText or streamText result as-is.
+ */
+export type TrackAISDKInput = {
+  provider: "ai-sdk";
+  messages: AISDKMessage[];
+  system?: string;
+  /** A generateText result, or a streamText result whose stream has been consumed */
+  result: AISDKResult | AISDKStreamResult;
+};
+
 /**
  * Union type for all track inputs.
  * Accepts either the normalized Message[] format or provider-specific formats.
@@ -361,20 +1145,28 @@ export type TrackGeminiInput = {
  * // OpenAI - just pass what you have
  * await hone.track("convo", { provider: "openai", messages, response }, { sessionId })
  *
+ * // OpenAI Responses API
+ * await hone.track("convo", { provider: "openai-responses", input, instructions, response }, { sessionId })
+ *
  * // Anthropic
  * await hone.track("convo", { provider: "anthropic", messages, system, response }, { sessionId })
  *
  * // Gemini
  * await hone.track("convo", { provider: "gemini", contents, systemInstruction, response }, { sessionId })
  *
+ * // Vercel AI SDK
+ * await hone.track("convo", { provider: "ai-sdk", messages, system, result }, { sessionId })
+ *
  * // Or use the normalized format directly
  * await hone.track("convo", normalizedMessages, { sessionId })
  */
 export type TrackInput =
   | Message[]
   | TrackOpenAIInput
+  | TrackOpenAIResponsesInput
   | TrackAnthropicInput
-  | TrackGeminiInput;
+  | TrackGeminiInput
+  | TrackAISDKInput;
 
 // =============================================================================
 // Client Interface
@@ -408,7 +1200,7 @@ export type HoneClient = {
    *
    * @param id The unique identifier for the conversation to track.
    * @param input Either a Message[] array or a provider-specific input object.
-   * @param options TrackConversationOptions including sessionId.
+   * @param options TrackConversationOptions. sessionId is required unless called within hone.withSession().
    *
    * @example
    * // OpenAI - just pass your messages and response
@@ -424,6 +1216,67 @@ export type HoneClient = {
    * await hone.track("convo", normalizedMessages, { sessionId })
    */
   track: HoneTrack;
+  /**
+   * Records feedback (thumbs, score, label or comment) against a tracked conversation.
+   *
+   * @param id The ID the conversation was tracked under.
+   * @param feedback FeedbackOptions with at least one of thumbs, score, label or comment.
+   *
+   * @example
+   * await hone.feedback("convo", { sessionId, thumbs: "up", comment: "Solved my issue" })
+   *
+   * // Model-graded score
+   * await hone.feedback("convo", { sessionId, name: "faithfulness", score: 0.8, source: "model" })
+   */
+  feedback: HoneFeedback;
+  /**
+   * Runs fn with a session context. Within it, including across awaits, track(), feedback()
+   * and wrapped clients use the session id, user id and metadata unless their options set them.
+   *
+   * @param sessionId The session to attribute runs and feedback to.
+   * @param options Optional userId and metadata for the session.
+   * @param fn The function to run. Its return value (or promise) is returned.
+   *
+   * @example
+   * await hone.withSession(req.sessionId, { userId: req.user.id }, async () => {
+   *   await hone.track("convo", { provider: "openai", messages, response });
+   * });
+   */
+  withSession: HoneWithSession;
+  /**
+   * Runs fn inside a span. Spans started and runs tracked within fn, including across
+   * awaits, are nested under it. The span fails if fn throws, and ends when fn settles.
+   *
+   * @param name The span name, e.g. the tool or step being run.
+   * @param options The span kind plus optional input and attributes.
+   * @param fn The function to run. Receives the span, e.g. to set its output.
+   *
+   * @example
+   * await hone.span("support-agent", { kind: "agent", input: question }, async (span) => {
+   *   const docs = await hone.span("search", { kind: "retrieval" }, () => search(question));
+   *   span.setOutput(await answer(question, docs));
+   * });
+   */
+  span: HoneSpan;
+  /**
+   * Starts a span that is ended manually with span.end(). It nests under the active span
+   * but does not become active itself; pass it as options.parent to nest spans under it.
+   */
+  startSpan: (name: string, options: SpanOptions) => Span;
+  /**
+   * Queues finished spans for /insert_spans, e.g. spans converted from another tracing system.
+   */
+  recordSpans: (spans: SpanRecord[]) => void;
+  /**
+   * Sends all conversations queued by background tracking.
+   * Resolves immediately in sync tracking mode.
+   */
+  flush: () => Promise<void>;
+  /**
+   * Flushes queued conversations and stops background tracking.
+   * Call before a short-lived process exits.
+   */
+  shutdown: () => Promise<void>;
 };
 
 // =============================================================================
@@ -441,6 +1294,8 @@ export type EntityNode = Hyperparameters & {
   params: SimpleParams;
   prompt: string;
   children: EntityNode[];
+  /** JSON Schema for a tool's arguments */
+  parameters?: JSONSchema;
 };
 
 /**
@@ -490,6 +1345,8 @@ export type EntityV2RequestData = {
   presencePenalty?: number;
   stopSequences?: string[];
   tools?: string[];
+  /** JSON Schema for a tool's arguments */
+  parameters?: JSONSchema;
   [key: string]: unknown;
 };
 
@@ -501,6 +1358,12 @@ export type EntityV2Response = {
   template: string;
   type: EntityType;
   data: EntityV2ResponseData;
+  /** Resolved major version of the root entity */
+  majorVersion?: number;
+  /** Resolved minor version of the root entity */
+  minorVersion?: number;
+  /** Identifier of this evaluation */
+  evaluationId?: string;
 };
 
 /**
@@ -516,6 +1379,8 @@ export type EntityV2ResponseData = {
   presencePenalty: number | null;
   stopSequences: string[];
   tools: string[];
+  /** JSON Schema for a tool's arguments, for tools */
+  parameters?: JSONSchema | null;
   [key: string]: unknown;
 };
 
@@ -0,0 +1,162 @@
+import { describe, it, expect } from "vitest";
+import {
+  computeCost,
+  extractAnthropicUsage,
+  extractGeminiUsage,
+  extractOpenAIUsage,
+  extractOpenAIResponsesUsage,
+  findModelPricing,
+} from "./usage";
+
+describe("usage", () => {
+  describe("extractOpenAIUsage", () => {
+    it("should normalize usage including cached and reasoning tokens", () => {
+      const response = {
+        model: "o3-mini",
+        choices: [],
+        usage: {
+          prompt_tokens: 100,
+          completion_tokens: 50,
+          total_tokens: 150,
+          prompt_tokens_details: { cached_tokens: 40 },
+          completion_tokens_details: { reasoning_tokens: 20 },
+        },
+      };
+
+      expect(extractOpenAIUsage(response as any)).toEqual({
+        inputTokens: 100,
+        outputTokens: 50,
+        totalTokens: 150,
+        cachedTokens: 40,
+        reasoningTokens: 20,
+      });
+    });
+
+    it("should return undefined when usage is missing", () => {
+      expect(extractOpenAIUsage({ choices: [] } as any)).toBeUndefined();
+    });
+  });
+
+  describe("extractOpenAIResponsesUsage", () => {
+    it("should normalize usage including cached and reasoning tokens", () => {
+      const response = {
+        usage: {
+          input_tokens: 200,
+          output_tokens: 80,
+          total_tokens: 280,
+          input_tokens_details: { cached_tokens: 0 },
+          output_tokens_details: { reasoning_tokens: 64 },
+        },
+      };
+
+      expect(extractOpenAIResponsesUsage(response as any)).toEqual({
+        inputTokens: 200,
+        outputTokens: 80,
+        totalTokens: 280,
+        reasoningTokens: 64,
+      });
+    });
+  });
+
+  describe("extractAnthropicUsage", () => {
+    it("should fold cache reads and writes into input tokens", () => {
+      const response = {
+        content: [],
+        usage: {
+          input_tokens: 10,
+          output_tokens: 30,
+          cache_read_input_tokens: 100,
+          cache_creation_input_tokens: 5,
+        },
+      };
+
+      expect(extractAnthropicUsage(response as any)).toEqual({
+        inputTokens: 115,
+        outputTokens: 30,
+        totalTokens: 145,
+        cachedTokens: 100,
+      });
+    });
+
+    it("should handle null cache fields", () => {
+      const response = {
+        content: [],
+        usage: { input_tokens: 10, output_tokens: 5, cache_read_input_tokens: null, cache_creation_input_tokens: null },
+      };
+
+      expect(extractAnthropicUsage(response as any)).toEqual({
+        inputTokens: 10,
+        outputTokens: 5,
+        totalTokens: 15,
+      });
+    });
+  });
+
+  describe("extractGeminiUsage", () => {
+    it("should normalize usage metadata and count thinking tokens as output", () => {
+      const response = {
+        response: {
+          usageMetadata: {
+            promptTokenCount: 80,
+            candidatesTokenCount: 20,
+            thoughtsTokenCount: 12,
+            totalTokenCount: 112,
+            cachedContentTokenCount: 30,
+          },
+        },
+      };
+
+      expect(extractGeminiUsage(response as any)).toEqual({
+        inputTokens: 80,
+        outputTokens: 32,
+        totalTokens: 112,
+        cachedTokens: 30,
+        reasoningTokens: 12,
+      });
+    });
+
+    it("should return undefined when usage metadata is missing", () => {
+      expect(extractGeminiUsage({ response: {} } as any)).toBeUndefined();
+    });
+  });
+
+  describe("findModelPricing", () => {
+    const pricing = {
+      "gpt-4o": { input: 2.5, output: 10 },
+      "gpt-4o-mini": { input: 0.15, output: 0.6 },
+    };
+
+    it("should prefer an exact match", () => {
+      expect(findModelPricing(pricing, "gpt-4o")).toBe(pricing["gpt-4o"]);
+    });
+
+    it("should match the longest prefix", () => {
+      expect(findModelPricing(pricing, "gpt-4o-mini-2024-07-18")).toBe(pricing["gpt-4o-mini"]);
+      expect(findModelPricing(pricing, "gpt-4o-2024-08-06")).toBe(pricing["gpt-4o"]);
+    });
+
+    it("should return undefined for unknown models", () => {
+      expect(findModelPricing(pricing, "claude-sonnet-4")).toBeUndefined();
+    });
+  });
+
+  describe("computeCost", () => {
+    it("should price input and output tokens per million", () => {
+      const cost = computeCost(
+        { inputTokens: 1_000_000, outputTokens: 500_000, totalTokens: 1_500_000 },
+        { input: 2, output: 8 },
+      );
+
+      expect(cost).toBe(6);
+    });
+
+    it("should price cached tokens at the cached input rate", () => {
+      const cost = computeCost(
+        { inputTokens: 1_000_000, outputTokens: 0, totalTokens: 1_000_000, cachedTokens: 400_000 },
+        { input: 2, output: 8, cachedInput: 0.5 },
+      );
+
+      expect(cost).toBeCloseTo(1.4);
+    });
+  });
+});
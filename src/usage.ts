@@ -0,0 +1,173 @@
+/**
+ * Token usage extraction and cost calculation.
+ *
+ * Each provider reports usage in its own shape; these helpers normalize it to
+ * TokenUsage so tracked conversations can be compared and priced uniformly.
+ */
+
+import { ModelPricing, PriceTable, TokenUsage } from "./types.js";
+
+// Import types from provider SDKs (dev dependencies)
+import type { ChatCompletion } from "openai/resources/chat/completions";
+import type { Message as AnthropicMessageResponse } from "@anthropic-ai/sdk/resources/messages";
+import type { GenerateContentResult } from "@google/generative-ai";
+import type { Response as OpenAIResponse } from "openai/resources/responses/responses";
+
+/**
+ * Extracts token usage from an OpenAI chat completion response.
+ *
+ * @param response - The OpenAI chat completion response object
+ * @returns Normalized usage, or undefined if the response has none
+ */
+export function extractOpenAIUsage(response: ChatCompletion): TokenUsage | undefined {
+  const usage = response.usage;
+  if (!usage) {
+    return undefined;
+  }
+
+  const result: TokenUsage = {
+    inputTokens: usage.prompt_tokens,
+    outputTokens: usage.completion_tokens,
+    totalTokens: usage.total_tokens,
+  };
+  const cachedTokens = usage.prompt_tokens_details?.cached_tokens;
+  if (cachedTokens) {
+    result.cachedTokens = cachedTokens;
+  }
+  const reasoningTokens = usage.completion_tokens_details?.reasoning_tokens;
+  if (reasoningTokens) {
+    result.reasoningTokens = reasoningTokens;
+  }
+  return result;
+}
+
+/**
+ * Extracts token usage from an OpenAI Responses API response.
+ *
+ * @param response - The OpenAI Responses API response object
+ * @returns Normalized usage, or undefined if the response has none
+ */
+export function extractOpenAIResponsesUsage(response: OpenAIResponse): TokenUsage | undefined {
+  const usage = response.usage;
+  if (!usage) {
+    return undefined;
+  }
+
+  const result: TokenUsage = {
+    inputTokens: usage.input_tokens,
+    outputTokens: usage.output_tokens,
+    totalTokens: usage.total_tokens,
+  };
+  const cachedTokens = usage.input_tokens_details?.cached_tokens;
+  if (cachedTokens) {
+    result.cachedTokens = cachedTokens;
+  }
+  const reasoningTokens = usage.output_tokens_details?.reasoning_tokens;
+  if (reasoningTokens) {
+    result.reasoningTokens = reasoningTokens;
+  }
+  return result;
+}
+
+/**
+ * Extracts token usage from an Anthropic Claude response.
+ * Anthropic reports cache reads and writes separately from input_tokens;
+ * both are folded into inputTokens.
+ *
+ * @param response - The Anthropic message response object
+ * @returns Normalized usage, or undefined if the response has none
+ */
+export function extractAnthropicUsage(
+  response: AnthropicMessageResponse
+): TokenUsage | undefined {
+  const usage = response.usage;
+  if (!usage) {
+    return undefined;
+  }
+
+  const cachedTokens = usage.cache_read_input_tokens ?? 0;
+  const inputTokens =
+    usage.input_tokens + cachedTokens + (usage.cache_creation_input_tokens ?? 0);
+
+  const result: TokenUsage = {
+    inputTokens,
+    outputTokens: usage.output_tokens,
+    totalTokens: inputTokens + usage.output_tokens,
+  };
+  if (cachedTokens) {
+    result.cachedTokens = cachedTokens;
+  }
+  return result;
+}
+
+/**
+ * Extracts token usage from a Google Gemini response.
+ * Thinking tokens, when reported, are counted as output.
+ *
+ * @param response - The Gemini GenerateContentResult object
+ * @returns Normalized usage, or undefined if the response has none
+ */
+export function extractGeminiUsage(response: GenerateContentResult): TokenUsage | undefined {
+  const usage = response.response.usageMetadata;
+  if (!usage) {
+    return undefined;
+  }
+
+  // Reported by thinking models but not yet part of the SDK's types
+  const reasoningTokens = (usage as { thoughtsTokenCount?: number }).thoughtsTokenCount ?? 0;
+
+  const result: TokenUsage = {
+    inputTokens: usage.promptTokenCount,
+    outputTokens: (usage.candidatesTokenCount ?? 0) + reasoningTokens,
+    totalTokens: usage.totalTokenCount,
+  };
+  if (usage.cachedContentTokenCount) {
+    result.cachedTokens = usage.cachedContentTokenCount;
+  }
+  if (reasoningTokens) {
+    result.reasoningTokens = reasoningTokens;
+  }
+  return result;
+}
+
+/**
+ * Finds the pricing entry for a model.
+ * Tries an exact match first, then the longest key that prefixes the model id.
+ *
+ * @example
+ * ```typescript
+ * findModelPricing({ "gpt-4o": {...}, "gpt-4o-mini": {...} }, "gpt-4o-mini-2024-07-18");
+ * // returns the "gpt-4o-mini" entry
+ * ```
+ */
+export function findModelPricing(pricing: PriceTable, model: string): ModelPricing | undefined {
+  if (pricing[model]) {
+    return pricing[model];
+  }
+
+  let match: string | undefined;
+  for (const key of Object.keys(pricing)) {
+    if (model.startsWith(key) && (!match || key.length > match.length)) {
+      match = key;
+    }
+  }
+  return match ? pricing[match] : undefined;
+}
+
+/**
+ * Computes the cost of a request in USD.
+ *
+ * @param usage - Normalized token usage
+ * @param pricing - Prices per million tokens
+ */
+export function computeCost(usage: TokenUsage, pricing: ModelPricing): number {
+  const cachedTokens = usage.cachedTokens ?? 0;
+  const uncachedTokens = usage.inputTokens - cachedTokens;
+
+  return (
+    (uncachedTokens * pricing.input +
+      cachedTokens * (pricing.cachedInput ?? pricing.input) +
+      usage.outputTokens * pricing.output) /
+    1_000_000
+  );
+}
@@ -0,0 +1,321 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { wrapAnthropic, wrapGemini, wrapOpenAI } from "./wrappers";
+import { HoneClient } from "./types";
+import { runWithHoneContext } from "./context";
+
+async function* toStream<T>(chunks: T[]): AsyncGenerator<T> {
+  for (const chunk of chunks) {
+    yield chunk;
+  }
+}
+
+// Lets the background tracking callbacks run
+const settle = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+const completion = {
+  id: "chatcmpl-1",
+  model: "gpt-4o",
+  choices: [{ index: 0, message: { role: "assistant", content: "Hi there" }, finish_reason: "stop" }],
+};
+
+describe("client wrappers", () => {
+  let track: ReturnType<typeof vi.fn>;
+  let hone: HoneClient;
+  const options = { id: "assistant", sessionId: () => "session-1" };
+
+  beforeEach(() => {
+    track = vi.fn().mockResolvedValue(undefined);
+    hone = { track } as unknown as HoneClient;
+  });
+
+  describe("wrapOpenAI", () => {
+    it("should track non-streaming calls and return the response unchanged", async () => {
+      const create = vi.fn().mockResolvedValue(completion);
+      const client = wrapOpenAI({ chat: { completions: { create } } }, hone, options);
+      const messages = [{ role: "user", content: "Hello" }];
+
+      const response = await client.chat.completions.create({ model: "gpt-4o", messages } as any);
+      messages.push({ role: "assistant", content: "Hi there" });
+      await settle();
+
+      expect(response).toBe(completion);
+      expect(track).toHaveBeenCalledTimes(1);
+      const [id, input, trackOptions] = track.mock.calls[0];
+      expect(id).toBe("assistant");
+      expect(input).toEqual({
+        provider: "openai",
+        messages: [{ role: "user", content: "Hello" }],
+        response: completion,
+      });
+      expect(trackOptions.sessionId).toBe("session-1");
+      expect(trackOptions.startTime).toBeInstanceOf(Date);
+      expect(trackOptions.endTime).toBeInstanceOf(Date);
+    });
+
+    it("should track streaming calls once the stream is consumed", async () => {
+      const chunks = [
+        { id: "chatcmpl-1", model: "gpt-4o", choices: [{ index: 0, delta: { role: "assistant", content: "Hi" } }] },
+        { id: "chatcmpl-1", model: "gpt-4o", choices: [{ index: 0, delta: { content: "!" }, finish_reason: "stop" }] },
+      ];
+      const controller = new AbortController();
+      const stream = Object.assign(toStream(chunks), { controller });
+      const client = wrapOpenAI(
+        { chat: { completions: { create: vi.fn().mockResolvedValue(stream) } } },
+        hone,
+        options
+      );
+
+      const result = (await client.chat.completions.create({
+        model: "gpt-4o",
+        messages: [{ role: "user", content: "Hello" }],
+        stream: true,
+      } as any)) as typeof stream;
+      expect(result.controller).toBe(controller);
+
+      const received: unknown[] = [];
+      for await (const chunk of result) {
+        received.push(chunk);
+      }
+      await settle();
+
+      expect(received).toEqual(chunks);
+      expect(track).toHaveBeenCalledTimes(1);
+      expect(track.mock.calls[0][1].response.choices[0].message.content).toBe("Hi!");
+    });
+
+    it("should track the partial response when the caller stops reading early", async () => {
+      const chunks = [
+        { id: "chatcmpl-1", model: "gpt-4o", choices: [{ index: 0, delta: { role: "assistant", content: "Hi" } }] },
+        { id: "chatcmpl-1", model: "gpt-4o", choices: [{ index: 0, delta: { content: "!" } }] },
+      ];
+      const client = wrapOpenAI(
+        { chat: { completions: { create: vi.fn().mockResolvedValue(toStream(chunks)) } } },
+        hone,
+        options
+      );
+
+      const result = (await client.chat.completions.create({ messages: [], stream: true } as any)) as any;
+      for await (const chunk of result) {
+        expect(chunk).toBe(chunks[0]);
+        break;
+      }
+      await settle();
+
+      expect(track).toHaveBeenCalledTimes(1);
+      expect(track.mock.calls[0][1].response.choices[0].message.content).toBe("Hi");
+    });
+
+    it("should not leave an unhandled rejection when only pass-through methods are used", async () => {
+      const unhandled = vi.fn();
+      process.on("unhandledRejection", unhandled);
+      const failed = Promise.reject(new Error("api down"));
+      const apiPromise = Object.assign(failed, { withResponse: () => failed.catch(() => "handled") });
+      const client = wrapOpenAI(
+        { chat: { completions: { create: vi.fn().mockReturnValue(apiPromise) } } },
+        hone,
+        options
+      );
+
+      const result = client.chat.completions.create({ messages: [], stream: true } as any) as any;
+      expect(await result.withResponse()).toBe("handled");
+      await settle();
+      process.off("unhandledRejection", unhandled);
+
+      expect(unhandled).not.toHaveBeenCalled();
+      expect(track).not.toHaveBeenCalled();
+    });
+
+    it("should keep the other methods of the returned promise", async () => {
+      const apiPromise = Object.assign(Promise.resolve(toStream([])), {
+        withResponse: () => "raw",
+      });
+      const client = wrapOpenAI(
+        { chat: { completions: { create: vi.fn().mockReturnValue(apiPromise) } } },
+        hone,
+        options
+      );
+
+      const result = client.chat.completions.create({ messages: [], stream: true } as any) as any;
+      expect(result.withResponse()).toBe("raw");
+      await result;
+    });
+
+    it("should not track calls without a session id", async () => {
+      const client = wrapOpenAI(
+        { chat: { completions: { create: vi.fn().mockResolvedValue(completion) } } },
+        hone,
+        { id: "assistant", sessionId: () => undefined }
+      );
+
+      await client.chat.completions.create({ messages: [] } as any);
+      await settle();
+
+      expect(track).not.toHaveBeenCalled();
+    });
+
+    it("should fall back to the session context", async () => {
+      const client = wrapOpenAI(
+        { chat: { completions: { create: vi.fn().mockResolvedValue(completion) } } },
+        hone,
+        { id: "assistant" }
+      );
+
+      await runWithHoneContext({ sessionId: "session-2" }, () =>
+        client.chat.completions.create({ messages: [] } as any)
+      );
+      await settle();
+
+      expect(track.mock.calls[0][2].sessionId).toBe("session-2");
+    });
+
+    it("should report tracking errors without failing the call", async () => {
+      const error = new Error("tracking failed");
+      track.mockRejectedValueOnce(error);
+      const onError = vi.fn();
+      const client = wrapOpenAI(
+        { chat: { completions: { create: vi.fn().mockResolvedValue(completion) } } },
+        hone,
+        { ...options, onError }
+      );
+
+      await expect(client.chat.completions.create({ messages: [] } as any)).resolves.toBe(completion);
+      await settle();
+
+      expect(onError).toHaveBeenCalledWith(error);
+    });
+
+    it("should pass other properties through to the client", () => {
+      const models = { list: vi.fn() };
+      const client = wrapOpenAI(
+        { chat: { completions: { create: vi.fn() } }, models },
+        hone,
+        options
+      );
+
+      expect(client.models).toBe(models);
+    });
+
+    it("should merge trackOptions into each call", async () => {
+      const client = wrapOpenAI(
+        { chat: { completions: { create: vi.fn().mockResolvedValue(completion) } } },
+        hone,
+        { ...options, trackOptions: () => ({ userId: "user-1", tags: ["beta"] }) }
+      );
+
+      await client.chat.completions.create({ messages: [] } as any);
+      await settle();
+
+      expect(track.mock.calls[0][2]).toMatchObject({ sessionId: "session-1", userId: "user-1", tags: ["beta"] });
+    });
+  });
+
+  describe("wrapAnthropic", () => {
+    it("should track calls with the system prompt", async () => {
+      const message = { id: "msg_1", role: "assistant", content: [{ type: "text", text: "Hi" }] };
+      const client = wrapAnthropic({ messages: { create: vi.fn().mockResolvedValue(message) } }, hone, options);
+
+      await client.messages.create({
+        model: "claude-sonnet-4-5",
+        max_tokens: 100,
+        system: [{ type: "text", text: "Be brief" }],
+        messages: [{ role: "user", content: "Hello" }],
+      } as any);
+      await settle();
+
+      expect(track.mock.calls[0][1]).toEqual({
+        provider: "anthropic",
+        messages: [{ role: "user", content: "Hello" }],
+        system: "Be brief",
+        response: message,
+      });
+    });
+
+    it("should track streaming calls once the stream is consumed", async () => {
+      const events = [
+        {
+          type: "message_start",
+          message: { id: "msg_1", role: "assistant", content: [], usage: { input_tokens: 5, output_tokens: 0 } },
+        },
+        { type: "content_block_start", index: 0, content_block: { type: "text", text: "" } },
+        { type: "content_block_delta", index: 0, delta: { type: "text_delta", text: "Hi" } },
+        { type: "content_block_stop", index: 0 },
+        { type: "message_delta", delta: { stop_reason: "end_turn" }, usage: { output_tokens: 1 } },
+        { type: "message_stop" },
+      ];
+      const client = wrapAnthropic(
+        { messages: { create: vi.fn().mockResolvedValue(toStream(events)) } },
+        hone,
+        options
+      );
+
+      const stream = (await client.messages.create({ messages: [], stream: true } as any)) as any;
+      for await (const event of stream) {
+        void event;
+      }
+      await settle();
+
+      expect(track.mock.calls[0][1].response.content).toEqual([{ type: "text", text: "Hi" }]);
+    });
+  });
+
+  describe("wrapGemini", () => {
+    const result = { response: { candidates: [{ content: { role: "model", parts: [{ text: "Hi" }] } }] } };
+
+    it("should track generateContent with the model's system instruction", async () => {
+      const model = wrapGemini(
+        {
+          generateContent: vi.fn().mockResolvedValue(result),
+          generateContentStream: vi.fn(),
+          systemInstruction: { role: "system", parts: [{ text: "Be brief" }] },
+        },
+        hone,
+        options
+      );
+
+      await model.generateContent("Hello");
+      await settle();
+
+      expect(track.mock.calls[0][1]).toEqual({
+        provider: "gemini",
+        contents: [{ role: "user", parts: [{ text: "Hello" }] }],
+        systemInstruction: "Be brief",
+        response: result,
+      });
+    });
+
+    it("should track generateContentStream once the response resolves", async () => {
+      const contents = [{ role: "user", parts: [{ text: "Hello" }] }];
+      const model = wrapGemini(
+        {
+          generateContent: vi.fn(),
+          generateContentStream: vi.fn().mockResolvedValue({
+            stream: toStream([result.response]),
+            response: Promise.resolve(result.response),
+          }),
+        },
+        hone,
+        options
+      );
+
+      await model.generateContentStream({ contents });
+      await settle();
+
+      expect(track.mock.calls[0][1]).toEqual({
+        provider: "gemini",
+        contents,
+        systemInstruction: undefined,
+        response: result,
+      });
+    });
+
+    it("should wrap models created by the client", async () => {
+      const model = { generateContent: vi.fn().mockResolvedValue(result), generateContentStream: vi.fn() };
+      const genAI = wrapGemini({ getGenerativeModel: vi.fn().mockReturnValue(model) }, hone, options);
+
+      await genAI.getGenerativeModel({ model: "gemini-2.0-flash" }).generateContent("Hello");
+      await settle();
+
+      expect(track).toHaveBeenCalledTimes(1);
+    });
+  });
+});
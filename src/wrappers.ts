@@ -0,0 +1,355 @@
+/**
+ * Auto-instrumentation for provider SDK clients.
+ *
+ * wrapOpenAI, wrapAnthropic and wrapGemini return a proxy of the client whose
+ * completion methods track every call with hone.track(), streaming or not.
+ * Everything else passes through to the client unchanged, and tracking never
+ * delays or fails the call: it runs after the response arrives, and its errors
+ * go to options.onError.
+ *
+ * @example
+ * ```typescript
+ * const openai = wrapOpenAI(new OpenAI(), hone, {
+ *   id: "support-bot",
+ *   sessionId: () => currentRequest().sessionId,
+ * });
+ *
+ * // Tracked as { provider: "openai", messages, response }
+ * await openai.chat.completions.create({ model: "gpt-4o", messages });
+ * ```
+ */
+
+import { HoneClient, TrackConversationOptions, TrackInput, WrapClientOptions } from "./types.js";
+import { wrapAnthropicStream, wrapOpenAIStream, TrackedStream } from "./streaming.js";
+import { getHoneContext } from "./context.js";
+
+// Import types from provider SDKs (dev dependencies)
+import type {
+  ChatCompletion,
+  ChatCompletionChunk,
+  ChatCompletionCreateParams,
+} from "openai/resources/chat/completions";
+import type {
+  Message as AnthropicMessageResponse,
+  MessageCreateParams,
+  MessageStreamEvent,
+} from "@anthropic-ai/sdk/resources/messages";
+import type {
+  Content,
+  GenerateContentRequest,
+  GenerateContentResult,
+  GenerateContentStreamResult,
+  Part,
+} from "@google/generative-ai";
+
+type Method = (...args: unknown[]) => unknown;
+type AnyMethod = (...args: never[]) => unknown;
+
+/** Any client with OpenAI's `chat.completions.create` */
+export type OpenAIClientLike = { chat: { completions: { create: AnyMethod } } };
+/** Any client with Anthropic's `messages.create` */
+export type AnthropicClientLike = { messages: { create: AnyMethod } };
+/** A Gemini GenerativeModel */
+export type GeminiModelLike = {
+  generateContent: AnyMethod;
+  generateContentStream: AnyMethod;
+  systemInstruction?: Content;
+};
+/** The GoogleGenerativeAI client */
+export type GeminiClientLike = { getGenerativeModel: AnyMethod };
+
+/**
+ * A call being tracked. The session id and track options are resolved when the
+ * call is made, so they come from the caller's context rather than the response's.
+ */
+type TrackedCall = {
+  sessionId: string;
+  trackOptions: Omit<TrackConversationOptions, "sessionId">;
+  startTime: Date;
+};
+
+const noop = () => undefined;
+
+/**
+ * Wraps an OpenAI client so `chat.completions.create` calls are tracked.
+ * Streamed calls are tracked once iteration ends; if the caller stops early, the
+ * response received so far is tracked.
+ *
+ * @param client - An OpenAI client
+ * @param hone - The Hone client to track with
+ * @param options - Track id and session id resolution
+ * @returns A proxy of the client
+ */
+export function wrapOpenAI<T extends OpenAIClientLike>(
+  client: T,
+  hone: HoneClient,
+  options: WrapClientOptions
+): T {
+  return proxyMethods(client, ["chat", "completions"], {
+    create: (create) => (...args) => {
+      const params = args[0] as ChatCompletionCreateParams;
+      const call = startCall(options);
+      const result = create(...args);
+      if (!call) {
+        return result;
+      }
+
+      // Copied so appending the response to the caller's array doesn't change what's tracked
+      const messages = [...params.messages];
+      const track = (response: ChatCompletion) =>
+        finishCall(hone, options, call, { provider: "openai", messages, response });
+
+      if (params.stream) {
+        return mapPromise(result as Promise<AsyncIterable<ChatCompletionChunk>>, (stream) =>
+          tapStream(stream, wrapOpenAIStream(stream), track)
+        );
+      }
+      (result as Promise<ChatCompletion>).then(track, noop);
+      return result;
+    },
+  });
+}
+
+/**
+ * Wraps an Anthropic client so `messages.create` calls are tracked.
+ * Streamed calls are tracked once iteration ends; if the caller stops early, the
+ * response received so far is tracked.
+ *
+ * @param client - An Anthropic client
+ * @param hone - The Hone client to track with
+ * @param options - Track id and session id resolution
+ * @returns A proxy of the client
+ */
+export function wrapAnthropic<T extends AnthropicClientLike>(
+  client: T,
+  hone: HoneClient,
+  options: WrapClientOptions
+): T {
+  return proxyMethods(client, ["messages"], {
+    create: (create) => (...args) => {
+      const params = args[0] as MessageCreateParams;
+      const call = startCall(options);
+      const result = create(...args);
+      if (!call) {
+        return result;
+      }
+
+      const messages = [...params.messages];
+      const system =
+        typeof params.system === "string"
+          ? params.system
+          : params.system?.map((block) => block.text).join("\n");
+      const track = (response: AnthropicMessageResponse) =>
+        finishCall(hone, options, call, {
+          provider: "anthropic",
+          messages,
+          system,
+          response,
+        });
+
+      if (params.stream) {
+        return mapPromise(result as Promise<AsyncIterable<MessageStreamEvent>>, (stream) =>
+          tapStream(stream, wrapAnthropicStream(stream), track)
+        );
+      }
+      (result as Promise<AnthropicMessageResponse>).then(track, noop);
+      return result;
+    },
+  });
+}
+
+/**
+ * Wraps a Gemini model so `generateContent` and `generateContentStream` calls are tracked.
+ * Also accepts the GoogleGenerativeAI client, in which case every model it creates is wrapped.
+ * Streamed calls are tracked once the stream's aggregated response resolves.
+ *
+ * @param target - A GenerativeModel or the GoogleGenerativeAI client
+ * @param hone - The Hone client to track with
+ * @param options - Track id and session id resolution
+ * @returns A proxy of the model or client
+ */
+export function wrapGemini<T extends GeminiModelLike | GeminiClientLike>(
+  target: T,
+  hone: HoneClient,
+  options: WrapClientOptions
+): T {
+  if ("getGenerativeModel" in target) {
+    const wrapModel = (getModel: Method) => (...args: unknown[]) =>
+      wrapGemini(getModel(...args) as GeminiModelLike, hone, options);
+    return proxyMethods(target, [], {
+      getGenerativeModel: wrapModel,
+      getGenerativeModelFromCachedContent: wrapModel,
+    });
+  }
+
+  const model = target as GeminiModelLike;
+  return proxyMethods(target, [], {
+    generateContent: (generate) => (...args) => {
+      const call = startCall(options);
+      const result = generate(...args) as Promise<GenerateContentResult>;
+      if (call) {
+        result.then(
+          (response) => finishCall(hone, options, call, geminiInput(model, args[0], response)),
+          noop
+        );
+      }
+      return result;
+    },
+    generateContentStream: (generate) => (...args) => {
+      const call = startCall(options);
+      const result = generate(...args) as Promise<GenerateContentStreamResult>;
+      if (call) {
+        result
+          .then((streamResult) => streamResult.response)
+          .then(
+            (response) => finishCall(hone, options, call, geminiInput(model, args[0], { response })),
+            noop
+          );
+      }
+      return result;
+    },
+  });
+}
+
+function startCall(options: WrapClientOptions): TrackedCall | undefined {
+  try {
+    const sessionId = options.sessionId?.() ?? getHoneContext()?.sessionId;
+    if (!sessionId) {
+      return undefined;
+    }
+    return { sessionId, trackOptions: options.trackOptions?.() ?? {}, startTime: new Date() };
+  } catch (error) {
+    options.onError?.(error);
+    return undefined;
+  }
+}
+
+function finishCall(
+  hone: HoneClient,
+  options: WrapClientOptions,
+  call: TrackedCall,
+  input: TrackInput
+): void {
+  hone
+    .track(options.id, input, {
+      ...call.trackOptions,
+      sessionId: call.sessionId,
+      startTime: call.startTime,
+      endTime: new Date(),
+    })
+    .catch((error) => options.onError?.(error));
+}
+
+function geminiInput(
+  model: GeminiModelLike,
+  request: unknown,
+  response: GenerateContentResult
+): TrackInput {
+  const params = request as GenerateContentRequest | string | Array<string | Part>;
+  const toPart = (part: string | Part): Part => (typeof part === "string" ? { text: part } : part);
+
+  if (typeof params === "string" || Array.isArray(params)) {
+    const parts = typeof params === "string" ? [toPart(params)] : params.map(toPart);
+    return {
+      provider: "gemini",
+      contents: [{ role: "user", parts }],
+      systemInstruction: instructionText(model.systemInstruction),
+      response,
+    };
+  }
+
+  return {
+    provider: "gemini",
+    contents: params.contents,
+    systemInstruction: instructionText(params.systemInstruction ?? model.systemInstruction),
+    response,
+  };
+}
+
+function instructionText(instruction: string | Part | Content | undefined): string | undefined {
+  if (instruction === undefined || typeof instruction === "string") {
+    return instruction;
+  }
+  if ("parts" in instruction) {
+    return instruction.parts.map((part) => part.text ?? "").join("\n");
+  }
+  return instruction.text;
+}
+
+/**
+ * Proxies target so the methods of the object at path are replaced by their wrappers.
+ * Objects along the path are proxied lazily; everything else passes through,
+ * with methods bound to the original object.
+ */
+function proxyMethods<T extends object>(
+  target: T,
+  path: string[],
+  wrappers: Record<string, (method: Method) => Method>
+): T {
+  const cache = new Map<PropertyKey, unknown>();
+
+  return new Proxy(target, {
+    get(obj, prop) {
+      if (cache.has(prop)) {
+        return cache.get(prop);
+      }
+
+      const value: unknown = Reflect.get(obj, prop);
+      if (path.length > 0 && prop === path[0] && typeof value === "object" && value !== null) {
+        cache.set(prop, proxyMethods(value, path.slice(1), wrappers));
+      } else if (
+        path.length === 0 &&
+        typeof prop === "string" &&
+        Object.prototype.hasOwnProperty.call(wrappers, prop) &&
+        typeof value === "function"
+      ) {
+        cache.set(prop, wrappers[prop](value.bind(obj)));
+      } else {
+        return typeof value === "function" ? value.bind(obj) : value;
+      }
+      return cache.get(prop);
+    },
+  });
+}
+
+/**
+ * Maps the value a promise resolves to while keeping the promise's own methods,
+ * such as the provider SDKs' `withResponse()`, which still return the unmapped value.
+ */
+function mapPromise<T, U>(promise: Promise<T>, transform: (value: T) => U): Promise<U> {
+  const mapped = promise.then(transform);
+  // The caller may only use pass-through methods, leaving mapped unobserved
+  mapped.catch(noop);
+
+  return new Proxy(promise, {
+    get(target, prop) {
+      if (prop === "then" || prop === "catch" || prop === "finally") {
+        return mapped[prop].bind(mapped);
+      }
+      const value: unknown = Reflect.get(target, prop);
+      return typeof value === "function" ? value.bind(target) : value;
+    },
+  }) as unknown as Promise<U>;
+}
+
+/**
+ * Makes iterating stream go through tracked, keeping the stream's other properties
+ * (e.g. `controller`). The response is tracked once iteration ends, early or not.
+ */
+function tapStream<TChunk, TResponse, TStream extends AsyncIterable<TChunk>>(
+  stream: TStream,
+  tracked: TrackedStream<TChunk, TResponse>,
+  track: (response: TResponse) => void
+): TStream {
+  tracked.finalResponse().then(track, noop);
+
+  return new Proxy(stream, {
+    get(target, prop) {
+      if (prop === Symbol.asyncIterator) {
+        return () => tracked[Symbol.asyncIterator]();
+      }
+      const value: unknown = Reflect.get(target, prop);
+      return typeof value === "function" ? value.bind(target) : value;
+    },
+  });
+}